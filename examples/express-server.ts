@@ -52,9 +52,9 @@ app.post('/api/data', protect, (req, res) => {
 });
 
 // Stats endpoint - for monitoring
-app.get('/api/stats', (req, res) => {
+app.get('/api/stats', async (req, res) => {
     res.json({
-        stats: verifier.getStats(),
+        stats: await verifier.getStats(),
     });
 });
 
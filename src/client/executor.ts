@@ -9,29 +9,83 @@ import type {
     EncodedInstructionPayload,
     PatternExtractionPayload,
     CodeTransformPayload,
+    ProofOfWorkPayload,
 } from '../core/types';
 import { decode } from '../core/encoding';
+import { bytesToBase64, utf8ToBytes } from '../utils/bytes';
+import { solveProofOfWork, solveProofOfWorkAsync } from './proof-of-work';
+import { identifyFunction } from '../functions';
+import { ExecutionMemoryError, ExecutionTimeoutError, runInSandbox, runInSandboxAsync, type ExecutionLimits } from './sandbox';
+import { interpretFunction, interpretFunctionBody } from './interpreter';
+
+/**
+ * How challenge code is run
+ * - sandbox: evaluated in an isolated worker
+ * - interpret: never evaluated; registered functions are recognized by name
+ *   and source, anything else goes through the subset interpreter
+ */
+export type CodeExecutionMode = 'sandbox' | 'interpret';
 
 /**
  * Execute a function from code string
- * Uses Function constructor for sandboxed execution
+ * Runs in an isolated sandbox; see runInSandbox.
  */
-export function executeFunction(code: string, params: unknown[]): unknown {
+export function executeFunction(code: string, params: unknown[], limits?: ExecutionLimits): unknown {
     try {
-        // Create a function from the code
-        // The code should define a function, so we wrap it to return the function
-        const wrapper = new Function(`
-      ${code}
-      return ${extractFunctionName(code)};
-    `);
-
-        const fn = wrapper();
-        return fn(...params);
+        return runInSandbox(functionScript(code, params), limits);
     } catch (error) {
-        throw new Error(`Failed to execute function: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw wrapFunctionError(error);
     }
 }
 
+/**
+ * Execute a function challenge without evaluating its code
+ */
+export function interpretFunctionChallenge(
+    functionName: string,
+    code: string,
+    params: unknown[],
+    limits?: ExecutionLimits
+): unknown {
+    try {
+        const registered = identifyFunction(functionName, code);
+        if (registered) {
+            return registered.fn(...structuredClone(params));
+        }
+
+        return interpretFunction(code, extractFunctionName(code), params, limits);
+    } catch (error) {
+        throw wrapFunctionError(error);
+    }
+}
+
+/**
+ * Sandbox script calling the function defined by `code`
+ * Arguments are parsed inside the sandbox so they belong to its realm
+ * (and the code can't alter the challenge by mutating them).
+ */
+function functionScript(code: string, params: unknown[]): string {
+    const args = JSON.stringify(JSON.stringify(params));
+    return `${code}\n;${extractFunctionName(code)}(...JSON.parse(${args}));`;
+}
+
+/**
+ * Sandbox script running `code` as a function body
+ */
+function bodyScript(code: string): string {
+    return `(function () {\n${code}\n})();`;
+}
+
+/**
+ * Describe a function execution failure, keeping timeouts recognizable
+ */
+function wrapFunctionError(error: unknown): Error {
+    if (error instanceof ExecutionTimeoutError || error instanceof ExecutionMemoryError) {
+        return error;
+    }
+    return new Error(`Failed to execute function: ${error instanceof Error ? error.message : 'Unknown error'}`);
+}
+
 /**
  * Extract function name from function code
  */
@@ -196,17 +250,27 @@ function extractPathValues(data: Record<string, unknown>, path: string): unknown
  */
 export function executeCodeTransform(
     code: string,
-    transform: string
+    transform: string,
+    limits?: ExecutionLimits,
+    mode: CodeExecutionMode = 'sandbox'
 ): unknown {
-    // Execute the code
-    const fn = new Function(code);
-    const result = fn();
+    // Execute the code as a function body
+    const result = mode === 'interpret'
+        ? interpretFunctionBody(code, limits)
+        : runInSandbox(bodyScript(code), limits);
+
+    return applyTransform(result, transform);
+}
 
+/**
+ * Apply a code transform to the code's result
+ */
+function applyTransform(result: unknown, transform: string): unknown {
     switch (transform) {
         case 'execute':
             return result;
         case 'execute_and_base64':
-            return Buffer.from(String(result)).toString('base64');
+            return bytesToBase64(utf8ToBytes(String(result)));
         case 'execute_and_hash':
             // Simple hash for client-side
             const str = String(result);
@@ -225,11 +289,17 @@ export function executeCodeTransform(
 /**
  * Execute any challenge payload and return the result
  */
-export function executePayload(payload: ChallengePayload): unknown {
+export function executePayload(
+    payload: ChallengePayload,
+    limits?: ExecutionLimits,
+    mode: CodeExecutionMode = 'sandbox'
+): unknown {
     switch (payload.type) {
         case 'function_execution': {
             const p = payload as FunctionExecutionPayload;
-            return executeFunction(p.functionCode, p.parameters);
+            return mode === 'interpret'
+                ? interpretFunctionChallenge(p.functionName, p.functionCode, p.parameters, limits)
+                : executeFunction(p.functionCode, p.parameters, limits);
         }
         case 'chained_operations': {
             const p = payload as ChainedOperationsPayload;
@@ -245,9 +315,47 @@ export function executePayload(payload: ChallengePayload): unknown {
         }
         case 'code_transform': {
             const p = payload as CodeTransformPayload;
-            return executeCodeTransform(p.code, p.transform);
+            return executeCodeTransform(p.code, p.transform, limits, mode);
+        }
+        case 'proof_of_work': {
+            const p = payload as ProofOfWorkPayload;
+            return solveProofOfWork(p, limits?.timeoutMs);
         }
         default:
             throw new Error(`Unknown challenge type: ${(payload as { type: string }).type}`);
     }
 }
+
+/**
+ * Execute any challenge payload without blocking
+ * Sandboxed code and proof of work stop when `signal` aborts; interpreted
+ * code is bounded by `limits.timeoutMs` only.
+ */
+export async function executePayloadAsync(
+    payload: ChallengePayload,
+    limits?: ExecutionLimits,
+    mode: CodeExecutionMode = 'sandbox',
+    signal?: AbortSignal
+): Promise<unknown> {
+    signal?.throwIfAborted();
+
+    if (payload.type === 'proof_of_work') {
+        return solveProofOfWorkAsync(payload as ProofOfWorkPayload, signal);
+    }
+
+    if (mode === 'sandbox' && payload.type === 'function_execution') {
+        const p = payload as FunctionExecutionPayload;
+        try {
+            return await runInSandboxAsync(functionScript(p.functionCode, p.parameters), limits, signal);
+        } catch (error) {
+            throw signal?.aborted ? error : wrapFunctionError(error);
+        }
+    }
+
+    if (mode === 'sandbox' && payload.type === 'code_transform') {
+        const p = payload as CodeTransformPayload;
+        return applyTransform(await runInSandboxAsync(bodyScript(p.code), limits, signal), p.transform);
+    }
+
+    return executePayload(payload, limits, mode);
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { wrapFetch } from './fetch';
+import { CaptchaLMSolver } from './solver';
+import { withCaptchaLM } from '../server/fetch';
+
+/**
+ * In-process fetch backed by a protected handler, recording what was sent
+ */
+function protectedFetch() {
+    const sent: Request[] = [];
+    const handler = withCaptchaLM(
+        async request => Response.json({ ok: true, body: await request.text() }),
+        { secret: 'test-secret', challengeTypes: ['encoded_instruction'], accessTokens: {}, getClientAddress: () => '203.0.113.7' }
+    );
+
+    const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+        const request = new Request(input, init);
+        sent.push(request.clone());
+        return handler(request);
+    }) as typeof fetch;
+
+    return { fetchImpl, sent };
+}
+
+describe('wrapFetch access tokens', () => {
+    it('sends a cached token instead of solving again', async () => {
+        const { fetchImpl, sent } = protectedFetch();
+        const solver = new CaptchaLMSolver();
+        const agentFetch = wrapFetch(fetchImpl, { solver });
+
+        const first = await agentFetch('https://api.example.com/data', { method: 'POST', body: '{}', headers: { 'content-type': 'application/json' } });
+        expect(first.status).toBe(200);
+        expect(sent).toHaveLength(2);
+        expect(solver.getAccessToken('https://api.example.com/other')).toBeDefined();
+
+        const second = await agentFetch('https://api.example.com/data', { method: 'POST', body: '{}', headers: { 'content-type': 'application/json' } });
+        expect(second.status).toBe(200);
+        expect(sent).toHaveLength(3);
+        expect(sent[2].headers.get('authorization')).toMatch(/^CaptchaLM /);
+        expect(sent[2].headers.has('x-captchalm-solution')).toBe(false);
+    });
+
+    it('drops a token the server rejects', async () => {
+        const issuer = protectedFetch();
+        const solver = new CaptchaLMSolver();
+        await wrapFetch(issuer.fetchImpl, { solver })('https://api.example.com/data');
+
+        // A server that no longer accepts the token
+        const other = protectedFetch();
+        const otherFetch = wrapFetch(async (input, init) => {
+            const request = new Request(input, init);
+            return request.headers.has('authorization')
+                ? new Response(null, { status: 401 })
+                : other.fetchImpl(request);
+        }, { solver });
+
+        const response = await otherFetch('https://api.example.com/data');
+        expect(response.status).toBe(401);
+        expect(solver.getAccessToken('https://api.example.com/data')).toBeUndefined();
+
+        expect((await otherFetch('https://api.example.com/data')).status).toBe(200);
+    });
+
+    it('leaves caller credentials alone', async () => {
+        const { fetchImpl, sent } = protectedFetch();
+        const solver = new CaptchaLMSolver();
+        const agentFetch = wrapFetch(fetchImpl, { solver });
+
+        await agentFetch('https://api.example.com/data');
+        await agentFetch('https://api.example.com/data', { headers: { authorization: 'Bearer mine' } });
+
+        expect(sent.at(-1)?.headers.get('authorization')).toBe('Bearer mine');
+    });
+
+    it('does not cache tokens when caching is off', async () => {
+        const { fetchImpl, sent } = protectedFetch();
+        const agentFetch = wrapFetch(fetchImpl, { solver: new CaptchaLMSolver({ cacheAccessTokens: false }) });
+
+        await agentFetch('https://api.example.com/data');
+        await agentFetch('https://api.example.com/data');
+
+        expect(sent).toHaveLength(4);
+        expect(sent.some(request => request.headers.has('authorization'))).toBe(false);
+    });
+});
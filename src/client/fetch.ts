@@ -0,0 +1,167 @@
+/**
+ * Drop-in fetch that solves CaptchaLM challenges
+ */
+
+import type { Challenge } from '../core/types';
+import { CaptchaLMSolver, getInlineChallenge } from './solver';
+import { bytesToBase64Url, utf8ToBytes } from '../utils/bytes';
+
+/**
+ * Options for wrapFetch
+ */
+export interface CaptchaLMFetchOptions {
+    /** Solver for challenges (default: a new CaptchaLMSolver) */
+    solver?: CaptchaLMSolver;
+    /** Challenges to solve for one request before returning the 401 (default 2) */
+    maxRetries?: number;
+}
+
+/**
+ * Body field carrying the challenge, as read by `protect`
+ */
+const CHALLENGE_FIELD = '_CaptchaLMChallenge';
+
+/**
+ * Header carrying the challenge when the body can't
+ */
+const CHALLENGE_HEADER = 'x-captchalm-challenge';
+
+/**
+ * Wrap a fetch function so CaptchaLM 401 responses are solved and retried
+ * The retry carries the solution headers and the challenge, merged into a
+ * JSON, urlencoded or multipart body, added as the body of an empty request,
+ * or sent in a header when the body can't carry it (GET, HEAD, other types).
+ * Access tokens are cached in the solver and sent instead while they last.
+ */
+export function wrapFetch(
+    fetchImpl: typeof fetch = (input, init) => globalThis.fetch(input, init),
+    options?: CaptchaLMFetchOptions
+): typeof fetch {
+    const solver = options?.solver ?? new CaptchaLMSolver();
+    const maxRetries = options?.maxRetries ?? 2;
+
+    return async (input, init) => {
+        // Buffer the body once so each attempt gets its own copy
+        const request = new Request(input, init);
+        const body = request.body === null ? null : await request.arrayBuffer();
+
+        // Reuse a cached access token unless the caller sent their own credentials
+        const token = request.headers.has('authorization') ? undefined : solver.getAccessToken(request.url);
+        let response = await fetchImpl(token ? withAccessToken(request, body, token) : new Request(request, { body }));
+
+        if (token && response.status === 401) {
+            solver.forgetAccessToken(request.url);
+        }
+
+        for (let retry = 0; retry < maxRetries && response.status === 401; retry++) {
+            const challenge = await getInlineChallenge(response);
+            if (!challenge) {
+                break;
+            }
+
+            const result = await solver.solveAsync(challenge, { signal: request.signal });
+            if (!result.success) {
+                request.signal.throwIfAborted();
+                break;
+            }
+
+            response = await fetchImpl(await withSolution(request, body, challenge, result.solution));
+        }
+
+        solver.cacheAccessToken(request.url, response);
+        return response;
+    };
+}
+
+let defaultFetch: typeof fetch | undefined;
+
+/**
+ * Global fetch with CaptchaLM challenges solved transparently
+ */
+export function captchalmFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    defaultFetch ??= wrapFetch();
+    return defaultFetch(input, init);
+}
+
+/**
+ * Copy a request with an access token attached
+ */
+function withAccessToken(request: Request, body: ArrayBuffer | null, token: string): Request {
+    const headers = new Headers(request.headers);
+    headers.set('Authorization', `CaptchaLM ${token}`);
+    return new Request(request, { headers, body });
+}
+
+/**
+ * Copy a request with a challenge solution attached
+ */
+async function withSolution(
+    request: Request,
+    body: ArrayBuffer | null,
+    challenge: Challenge,
+    solution: string
+): Promise<Request> {
+    const headers = new Headers(request.headers);
+    headers.set('x-captchalm-id', challenge.id);
+    headers.set('x-captchalm-solution', solution);
+
+    const merged = await mergeChallenge(request.method, body, headers, challenge);
+    if (merged === undefined) {
+        headers.set(CHALLENGE_HEADER, bytesToBase64Url(utf8ToBytes(JSON.stringify(challenge))));
+        return new Request(request, { headers, body });
+    }
+
+    return new Request(request, { headers, body: merged });
+}
+
+/**
+ * Build a body with the challenge merged in, or undefined if the body can't carry it
+ */
+async function mergeChallenge(
+    method: string,
+    body: ArrayBuffer | null,
+    headers: Headers,
+    challenge: Challenge
+): Promise<RequestInit['body'] | undefined> {
+    if (method === 'GET' || method === 'HEAD') {
+        return undefined;
+    }
+
+    const contentType = headers.get('content-type') ?? '';
+    const text = body === null ? '' : new TextDecoder().decode(body);
+
+    if (text === '') {
+        headers.set('content-type', 'application/json');
+        return JSON.stringify({ [CHALLENGE_FIELD]: challenge });
+    }
+
+    if (contentType.includes('application/json')) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch {
+            return undefined;
+        }
+
+        if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            return undefined;
+        }
+        return JSON.stringify({ ...parsed, [CHALLENGE_FIELD]: challenge });
+    }
+
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+        const params = new URLSearchParams(text);
+        params.set(CHALLENGE_FIELD, JSON.stringify(challenge));
+        return params;
+    }
+
+    if (contentType.includes('multipart/form-data')) {
+        const form = await new Response(body, { headers: { 'content-type': contentType } }).formData();
+        form.set(CHALLENGE_FIELD, JSON.stringify(challenge));
+        // A new boundary is generated for the rebuilt body
+        headers.delete('content-type');
+        return form;
+    }
+
+    return undefined;
+}
@@ -0,0 +1,36 @@
+import { resolve } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { CaptchaLMSolver } from './solver';
+import { ChallengeGenerator } from '../core/generator';
+import { collectImportGraph } from '../test-utils/import-graph';
+
+const getBuiltinModule = process.getBuiltinModule;
+
+afterEach(() => {
+    process.getBuiltinModule = getBuiltinModule;
+});
+
+describe('captchalm/client entry', () => {
+    it('imports no Node built-ins, directly or through its dependencies', () => {
+        const { files, bareImports } = collectImportGraph(resolve(__dirname, 'index.ts'));
+
+        expect(bareImports).toEqual([]);
+        for (const [file, source] of files) {
+            expect(source, file).not.toMatch(/\bBuffer\./);
+        }
+        expect(files.size).toBeGreaterThan(5);
+    });
+
+    it('solves in interpret mode without Node built-ins', async () => {
+        // As in runtimes without process.getBuiltinModule
+        process.getBuiltinModule = undefined as unknown as typeof getBuiltinModule;
+        const generator = new ChallengeGenerator({ secret: 's', challengeTypes: ['function_execution'], difficulty: 'easy' });
+        const { challenge, expectedAnswer } = await generator.generate();
+
+        expect(new CaptchaLMSolver({ codeExecution: 'interpret' }).solve(challenge)).toMatchObject({ success: true, solution: expectedAnswer });
+
+        const sandboxed = new CaptchaLMSolver({ codeExecution: 'sandbox' }).solve(challenge);
+        expect(sandboxed.success).toBe(false);
+        expect(sandboxed.error).toMatch(/Node\.js 20\.16/);
+    });
+});
@@ -4,3 +4,7 @@
 
 export * from './executor';
 export * from './solver';
+export * from './fetch';
+export { solveProofOfWork, solveProofOfWorkAsync } from './proof-of-work';
+export type { ExecutionLimits } from './sandbox';
+export { ExecutionMemoryError, ExecutionTimeoutError } from './sandbox';
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { interpretFunction, interpretFunctionBody } from './interpreter';
+import { ExecutionTimeoutError } from './sandbox';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('interpretFunction', () => {
+    it('calls the named function without letting it mutate the arguments', () => {
+        const params = [[3, 1, 2]];
+        const code = 'function sorted(values) { values.sort((a, b) => a - b); return values.join(","); }';
+
+        expect(interpretFunction(code, 'sorted', params)).toBe('1,2,3');
+        expect(params).toEqual([[3, 1, 2]]);
+    });
+
+    it('reports a missing function', () => {
+        expect(() => interpretFunction('const x = 1;', 'missing', [])).toThrow('Function missing is not defined');
+    });
+});
+
+describe('value size limits', () => {
+    it.each([
+        ['repeat', "return 'x'.repeat(2 ** 28);"],
+        ['repeat on a longer string', "return 'abcd'.repeat(250001);"],
+        ['padStart', "return 'x'.padStart(2 ** 28);"],
+        ['padEnd', "return 'x'.padEnd(2 ** 28, 'y');"],
+        ['a numeric string length', "return 'x'.padStart('268435456');"],
+    ])('rejects %s past the limit before allocating', (_, code) => {
+        const repeat = vi.spyOn(String.prototype, 'repeat');
+        const padStart = vi.spyOn(String.prototype, 'padStart');
+        const padEnd = vi.spyOn(String.prototype, 'padEnd');
+
+        expect(() => interpretFunctionBody(code)).toThrow(new RangeError('Values longer than 1000000 are not allowed'));
+        expect(repeat).not.toHaveBeenCalled();
+        expect(padStart).not.toHaveBeenCalled();
+        expect(padEnd).not.toHaveBeenCalled();
+    });
+
+    it('allows values up to the limit', () => {
+        expect(interpretFunctionBody("return 'x'.repeat(1000000).length;")).toBe(1000000);
+        expect(interpretFunctionBody("return 'ab'.padEnd(1000000, 'y').length;")).toBe(1000000);
+        expect(interpretFunctionBody("return '7'.padStart(3, '0');")).toBe('007');
+    });
+
+    it('rejects values grown past the limit by operators and literals', () => {
+        expect(() => interpretFunctionBody("let s = 'x'.repeat(1000000); return s + s;")).toThrow(RangeError);
+        expect(() => interpretFunctionBody("let s = 'x'.repeat(600000); s += s; return s;")).toThrow(RangeError);
+        expect(() => interpretFunctionBody('let a = []; a[1000000] = 1; return a;')).toThrow(TypeError);
+    });
+
+    it('keeps native errors for invalid counts', () => {
+        expect(() => interpretFunctionBody("return 'abc'.repeat(-1);")).toThrow(/Invalid count value/);
+    });
+});
+
+describe('rejected code', () => {
+    it.each([
+        ['template literals', 'return `a${1}`;', SyntaxError],
+        ['object literals', 'return { a: 1 };', SyntaxError],
+        ['regular expressions', "return /a/.test('a');", SyntaxError],
+        ['comma expressions', 'return (1, 2);', SyntaxError],
+        ['async functions', 'return async function () {};', SyntaxError],
+        ['new', 'return new Array(5);', ReferenceError],
+        ['classes', 'class A {}', ReferenceError],
+        ['this', 'return this;', ReferenceError],
+        ['try', 'try { } catch (e) { }', ReferenceError],
+        ['eval', "return eval('1');", ReferenceError],
+        ['Function', "return Function('return 1')();", ReferenceError],
+        ['globalThis', 'return globalThis;', ReferenceError],
+        ['dynamic import', "return import('fs');", ReferenceError],
+        ['constructor access', "return [].constructor.constructor('return 1')();", TypeError],
+        ['prototype access', "return 'a'.__proto__;", TypeError],
+        ['host functions as callbacks', 'return [1, 2].map(String);', TypeError],
+        ['unlisted methods', "return 'a'.normalize();", TypeError],
+    ])('rejects %s', (_, code, error) => {
+        expect(() => interpretFunctionBody(code)).toThrow(error);
+    });
+
+    it('stops code that runs past its time limit', () => {
+        const started = Date.now();
+
+        expect(() => interpretFunctionBody('while (true) {}', { timeoutMs: 200 })).toThrow(ExecutionTimeoutError);
+        expect(Date.now() - started).toBeLessThan(2000);
+    });
+});
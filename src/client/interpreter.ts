@@ -0,0 +1,1022 @@
+/**
+ * JavaScript subset interpreter for solving without code evaluation
+ *
+ * Parses and walks challenge code instead of handing it to `eval` or
+ * `new Function`, for runtimes where those are forbidden. Covers the
+ * language used by challenge code: functions and arrow functions,
+ * let/const/var, if/for/for-of/while, arithmetic, strings, arrays,
+ * properties of plain object parameters and a fixed list of builtin methods. Anything else is rejected with an error.
+ */
+
+import { ExecutionTimeoutError, type ExecutionLimits } from './sandbox';
+
+// ============================================================================
+// Syntax
+// ============================================================================
+
+type Expression =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'identifier'; name: string }
+    | { kind: 'array'; elements: Expression[] }
+    | { kind: 'member'; object: Expression; property: Expression; computed: boolean }
+    | { kind: 'call'; callee: Expression; args: Expression[] }
+    | { kind: 'spread'; argument: Expression }
+    | { kind: 'unary'; operator: string; argument: Expression }
+    | { kind: 'update'; operator: '++' | '--'; prefix: boolean; target: Expression }
+    | { kind: 'binary'; operator: string; left: Expression; right: Expression }
+    | { kind: 'conditional'; test: Expression; then: Expression; otherwise: Expression }
+    | { kind: 'assign'; operator: string; target: Expression; value: Expression }
+    | { kind: 'function'; fn: FunctionNode };
+
+type Statement =
+    | { kind: 'declare'; constant: boolean; declarations: { name: string; init?: Expression }[] }
+    | { kind: 'expression'; expression: Expression }
+    | { kind: 'if'; test: Expression; then: Statement; otherwise?: Statement }
+    | { kind: 'for'; init?: Statement; test?: Expression; update?: Expression; body: Statement }
+    | { kind: 'forOf'; constant: boolean; name: string; iterable: Expression; body: Statement }
+    | { kind: 'while'; test: Expression; body: Statement }
+    | { kind: 'doWhile'; test: Expression; body: Statement }
+    | { kind: 'return'; value?: Expression }
+    | { kind: 'break' }
+    | { kind: 'continue' }
+    | { kind: 'block'; body: Statement[] }
+    | { kind: 'function'; name: string; fn: FunctionNode }
+    | { kind: 'empty' };
+
+interface FunctionNode {
+    params: string[];
+    rest?: string;
+    body: Statement[] | Expression;
+}
+
+interface Token {
+    type: 'identifier' | 'number' | 'string' | 'punctuator' | 'end';
+    value: string;
+}
+
+const PUNCTUATORS = [
+    '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>',
+    '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '++', '--',
+    '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<', '>>',
+    '{', '}', '(', ')', '[', ']', ';', ',', '<', '>', '+', '-', '*', '/',
+    '%', '&', '|', '^', '!', '~', '?', ':', '=', '.',
+];
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' };
+
+/**
+ * Split source into tokens, dropping whitespace and comments
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const rest = source.slice(i);
+        let match: RegExpMatchArray | null;
+
+        if ((match = rest.match(/^(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/))) {
+            i += match[0].length;
+            continue;
+        }
+
+        if ((match = rest.match(/^[A-Za-z_$][\w$]*/))) {
+            tokens.push({ type: 'identifier', value: match[0] });
+        } else if ((match = rest.match(/^(?:0[xX][\da-fA-F]+|\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)/))) {
+            tokens.push({ type: 'number', value: match[0] });
+        } else if ((match = rest.match(/^'(?:[^'\\\n]|\\.)*'|^"(?:[^"\\\n]|\\.)*"/))) {
+            tokens.push({ type: 'string', value: match[0] });
+        } else {
+            const punctuator = PUNCTUATORS.find(candidate => rest.startsWith(candidate));
+            if (!punctuator) {
+                throw new SyntaxError(`Unsupported syntax at: ${rest.slice(0, 20)}`);
+            }
+            tokens.push({ type: 'punctuator', value: punctuator });
+            i += punctuator.length;
+            continue;
+        }
+
+        i += match[0].length;
+    }
+
+    tokens.push({ type: 'end', value: '' });
+    return tokens;
+}
+
+/**
+ * Decode a quoted string literal
+ */
+function unquote(literal: string): string {
+    return literal.slice(1, -1).replace(/\\(u[\da-fA-F]{4}|x[\da-fA-F]{2}|.)/g, (_, escape: string) => {
+        if (escape.length > 1) {
+            return String.fromCharCode(parseInt(escape.slice(1), 16));
+        }
+        return ESCAPES[escape] ?? escape;
+    });
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+    '??': 1, '||': 2, '&&': 3, '|': 4, '^': 5, '&': 6,
+    '==': 7, '!=': 7, '===': 7, '!==': 7,
+    '<': 8, '>': 8, '<=': 8, '>=': 8,
+    '<<': 9, '>>': 9, '>>>': 9,
+    '+': 10, '-': 10,
+    '*': 11, '/': 11, '%': 11,
+    '**': 12,
+};
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '**=', '&=', '|=', '^=', '<<=', '>>=', '>>>=']);
+
+/**
+ * Recursive descent parser for the supported subset
+ */
+class Parser {
+    private tokens: Token[];
+    private position = 0;
+
+    constructor(source: string) {
+        this.tokens = tokenize(source);
+    }
+
+    parseProgram(): Statement[] {
+        const body: Statement[] = [];
+        while (this.peek().type !== 'end') {
+            body.push(this.parseStatement());
+        }
+        return body;
+    }
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        this.position++;
+        return token;
+    }
+
+    private is(value: string): boolean {
+        const token = this.peek();
+        return (token.type === 'punctuator' || token.type === 'identifier') && token.value === value;
+    }
+
+    private eat(value: string): boolean {
+        if (this.is(value)) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(value: string): void {
+        if (!this.eat(value)) {
+            throw new SyntaxError(`Expected '${value}' but found '${this.peek().value}'`);
+        }
+    }
+
+    private identifier(): string {
+        const token = this.next();
+        if (token.type !== 'identifier') {
+            throw new SyntaxError(`Expected identifier but found '${token.value}'`);
+        }
+        return token.value;
+    }
+
+    private parseStatement(): Statement {
+        if (this.eat(';')) {
+            return { kind: 'empty' };
+        }
+
+        if (this.eat('{')) {
+            const body: Statement[] = [];
+            while (!this.eat('}')) {
+                body.push(this.parseStatement());
+            }
+            return { kind: 'block', body };
+        }
+
+        if (this.is('function')) {
+            this.next();
+            const name = this.identifier();
+            return { kind: 'function', name, fn: this.parseFunctionRest() };
+        }
+
+        if (this.is('let') || this.is('const') || this.is('var')) {
+            const statement = this.parseDeclaration();
+            this.eat(';');
+            return statement;
+        }
+
+        if (this.eat('if')) {
+            this.expect('(');
+            const test = this.parseExpression();
+            this.expect(')');
+            const then = this.parseStatement();
+            const otherwise = this.eat('else') ? this.parseStatement() : undefined;
+            return { kind: 'if', test, then, otherwise };
+        }
+
+        if (this.eat('for')) {
+            return this.parseFor();
+        }
+
+        if (this.eat('while')) {
+            this.expect('(');
+            const test = this.parseExpression();
+            this.expect(')');
+            return { kind: 'while', test, body: this.parseStatement() };
+        }
+
+        if (this.eat('do')) {
+            const body = this.parseStatement();
+            this.expect('while');
+            this.expect('(');
+            const test = this.parseExpression();
+            this.expect(')');
+            this.eat(';');
+            return { kind: 'doWhile', test, body };
+        }
+
+        if (this.eat('return')) {
+            const value = this.is(';') || this.is('}') ? undefined : this.parseExpression();
+            this.eat(';');
+            return { kind: 'return', value };
+        }
+
+        if (this.eat('break')) {
+            this.eat(';');
+            return { kind: 'break' };
+        }
+
+        if (this.eat('continue')) {
+            this.eat(';');
+            return { kind: 'continue' };
+        }
+
+        const expression = this.parseExpression();
+        this.eat(';');
+        return { kind: 'expression', expression };
+    }
+
+    private parseDeclaration(): Statement & { kind: 'declare' } {
+        const constant = this.next().value === 'const';
+        const declarations: { name: string; init?: Expression }[] = [];
+
+        do {
+            const name = this.identifier();
+            declarations.push({ name, init: this.eat('=') ? this.parseAssignment() : undefined });
+        } while (this.eat(','));
+
+        return { kind: 'declare', constant, declarations };
+    }
+
+    private parseFor(): Statement {
+        this.expect('(');
+
+        if ((this.is('let') || this.is('const') || this.is('var')) && this.peek(2).value === 'of') {
+            const constant = this.next().value === 'const';
+            const name = this.identifier();
+            this.expect('of');
+            const iterable = this.parseExpression();
+            this.expect(')');
+            return { kind: 'forOf', constant, name, iterable, body: this.parseStatement() };
+        }
+
+        let init: Statement | undefined;
+        if (this.is('let') || this.is('const') || this.is('var')) {
+            init = this.parseDeclaration();
+        } else if (!this.is(';')) {
+            init = { kind: 'expression', expression: this.parseExpression() };
+        }
+        this.expect(';');
+
+        const test = this.is(';') ? undefined : this.parseExpression();
+        this.expect(';');
+        const update = this.is(')') ? undefined : this.parseExpression();
+        this.expect(')');
+
+        return { kind: 'for', init, test, update, body: this.parseStatement() };
+    }
+
+    /**
+     * Parameters and body after `function name`
+     */
+    private parseFunctionRest(): FunctionNode {
+        const { params, rest } = this.parseParameters();
+        this.expect('{');
+        const body: Statement[] = [];
+        while (!this.eat('}')) {
+            body.push(this.parseStatement());
+        }
+        return { params, rest, body };
+    }
+
+    private parseParameters(): { params: string[]; rest?: string } {
+        const params: string[] = [];
+        let rest: string | undefined;
+
+        this.expect('(');
+        while (!this.eat(')')) {
+            if (this.eat('...')) {
+                rest = this.identifier();
+            } else {
+                params.push(this.identifier());
+            }
+            if (!this.is(')')) {
+                this.expect(',');
+            }
+        }
+
+        return { params, rest };
+    }
+
+    private parseExpression(): Expression {
+        const expression = this.parseAssignment();
+        if (this.is(',')) {
+            throw new SyntaxError('Comma expressions are not supported');
+        }
+        return expression;
+    }
+
+    private parseAssignment(): Expression {
+        if (this.isArrowFunction()) {
+            return this.parseArrowFunction();
+        }
+
+        const target = this.parseConditional();
+        const operator = this.peek().value;
+
+        if (this.peek().type === 'punctuator' && ASSIGNMENT_OPERATORS.has(operator)) {
+            if (target.kind !== 'identifier' && target.kind !== 'member') {
+                throw new SyntaxError('Invalid assignment target');
+            }
+            this.next();
+            return { kind: 'assign', operator, target, value: this.parseAssignment() };
+        }
+
+        return target;
+    }
+
+    private isArrowFunction(): boolean {
+        if (this.peek().type === 'identifier' && this.peek(1).value === '=>') {
+            return true;
+        }
+        if (!this.is('(')) {
+            return false;
+        }
+
+        // Find the matching parenthesis and look for an arrow after it
+        let depth = 0;
+        for (let offset = 0; ; offset++) {
+            const token = this.peek(offset);
+            if (token.type === 'end') {
+                return false;
+            }
+            if (token.value === '(') {
+                depth++;
+            } else if (token.value === ')' && --depth === 0) {
+                return this.peek(offset + 1).value === '=>';
+            }
+        }
+    }
+
+    private parseArrowFunction(): Expression {
+        const { params, rest } = this.is('(') ? this.parseParameters() : { params: [this.identifier()], rest: undefined };
+        this.expect('=>');
+
+        if (this.eat('{')) {
+            const body: Statement[] = [];
+            while (!this.eat('}')) {
+                body.push(this.parseStatement());
+            }
+            return { kind: 'function', fn: { params, rest, body } };
+        }
+
+        return { kind: 'function', fn: { params, rest, body: this.parseAssignment() } };
+    }
+
+    private parseConditional(): Expression {
+        const test = this.parseBinary(1);
+        if (!this.eat('?')) {
+            return test;
+        }
+
+        const then = this.parseAssignment();
+        this.expect(':');
+        return { kind: 'conditional', test, then, otherwise: this.parseAssignment() };
+    }
+
+    private parseBinary(minPrecedence: number): Expression {
+        let left = this.parseUnary();
+
+        for (;;) {
+            const token = this.peek();
+            const precedence = token.type === 'punctuator' ? BINARY_PRECEDENCE[token.value] : undefined;
+            if (precedence === undefined || precedence < minPrecedence) {
+                return left;
+            }
+
+            this.next();
+            // Exponentiation is right-associative
+            const right = this.parseBinary(token.value === '**' ? precedence : precedence + 1);
+            left = { kind: 'binary', operator: token.value, left, right };
+        }
+    }
+
+    private parseUnary(): Expression {
+        const token = this.peek();
+
+        if (token.type === 'punctuator' && ['!', '-', '+', '~'].includes(token.value)) {
+            this.next();
+            return { kind: 'unary', operator: token.value, argument: this.parseUnary() };
+        }
+
+        if (token.type === 'identifier' && token.value === 'typeof') {
+            this.next();
+            return { kind: 'unary', operator: 'typeof', argument: this.parseUnary() };
+        }
+
+        if (token.value === '++' || token.value === '--') {
+            this.next();
+            return { kind: 'update', operator: token.value, prefix: true, target: this.parseUnary() };
+        }
+
+        const expression = this.parsePostfix();
+        if (this.peek().value === '++' || this.peek().value === '--') {
+            return { kind: 'update', operator: this.next().value as '++' | '--', prefix: false, target: expression };
+        }
+
+        return expression;
+    }
+
+    private parsePostfix(): Expression {
+        let expression = this.parsePrimary();
+
+        for (;;) {
+            if (this.eat('.')) {
+                expression = { kind: 'member', object: expression, property: { kind: 'literal', value: this.identifier() }, computed: false };
+            } else if (this.eat('[')) {
+                const property = this.parseExpression();
+                this.expect(']');
+                expression = { kind: 'member', object: expression, property, computed: true };
+            } else if (this.eat('(')) {
+                expression = { kind: 'call', callee: expression, args: this.parseArguments(')') };
+            } else {
+                return expression;
+            }
+        }
+    }
+
+    private parseArguments(close: string): Expression[] {
+        const args: Expression[] = [];
+
+        while (!this.eat(close)) {
+            args.push(this.eat('...') ? { kind: 'spread', argument: this.parseAssignment() } : this.parseAssignment());
+            if (!this.is(close)) {
+                this.expect(',');
+            }
+        }
+
+        return args;
+    }
+
+    private parsePrimary(): Expression {
+        const token = this.next();
+
+        switch (token.type) {
+            case 'number':
+                return { kind: 'literal', value: Number(token.value) };
+            case 'string':
+                return { kind: 'literal', value: unquote(token.value) };
+            case 'identifier':
+                switch (token.value) {
+                    case 'true': return { kind: 'literal', value: true };
+                    case 'false': return { kind: 'literal', value: false };
+                    case 'null': return { kind: 'literal', value: null };
+                    case 'function':
+                        if (this.peek().type === 'identifier') {
+                            this.next();
+                        }
+                        return { kind: 'function', fn: this.parseFunctionRest() };
+                    default:
+                        return { kind: 'identifier', name: token.value };
+                }
+            case 'punctuator':
+                if (token.value === '(') {
+                    const expression = this.parseExpression();
+                    this.expect(')');
+                    return expression;
+                }
+                if (token.value === '[') {
+                    return { kind: 'array', elements: this.parseArguments(']') };
+                }
+                break;
+        }
+
+        throw new SyntaxError(`Unexpected '${token.value || 'end of input'}'`);
+    }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Methods callable on strings
+ */
+const STRING_METHODS = new Set([
+    'charAt', 'charCodeAt', 'codePointAt', 'concat', 'endsWith', 'includes', 'indexOf',
+    'lastIndexOf', 'padEnd', 'padStart', 'repeat', 'slice', 'split', 'startsWith',
+    'substring', 'toLowerCase', 'toUpperCase', 'trim', 'trimEnd', 'trimStart', 'at',
+]);
+
+/**
+ * Methods callable on arrays
+ */
+const ARRAY_METHODS = new Set([
+    'at', 'concat', 'every', 'fill', 'filter', 'find', 'findIndex', 'forEach', 'includes',
+    'indexOf', 'join', 'lastIndexOf', 'map', 'pop', 'push', 'reduce', 'reduceRight',
+    'reverse', 'shift', 'slice', 'some', 'sort', 'splice', 'unshift',
+]);
+
+const NUMBER_METHODS = new Set(['toFixed', 'toString']);
+
+/**
+ * Plain-data namespaces whose members can be read and called
+ */
+const NAMESPACES: Record<string, Record<string, unknown>> = {
+    Math: Object.fromEntries(
+        Object.getOwnPropertyNames(Math).map(name => [name, (Math as unknown as Record<string, unknown>)[name]])
+    ),
+    Number: { isInteger: Number.isInteger, isFinite: Number.isFinite, isNaN: Number.isNaN, MAX_SAFE_INTEGER: Number.MAX_SAFE_INTEGER },
+    Array: { isArray: Array.isArray },
+};
+
+const GLOBAL_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+    String: (value?: unknown) => String(value),
+    Number: (value?: unknown) => Number(value),
+    Boolean: (value?: unknown) => Boolean(value),
+    parseInt: (value: unknown, radix?: unknown) => parseInt(String(value), radix as number | undefined),
+    parseFloat: (value: unknown) => parseFloat(String(value)),
+    isNaN: (value: unknown) => isNaN(value as number),
+};
+
+/**
+ * Longest string or array a program may build
+ */
+const MAX_VALUE_LENGTH = 1_000_000;
+
+/**
+ * Steps between deadline checks
+ */
+const DEADLINE_CHECK_INTERVAL = 1024;
+
+type Completion = { type: 'return'; value: unknown } | { type: 'break' } | { type: 'continue' } | undefined;
+
+class Scope {
+    private values = new Map<string, { value: unknown; constant: boolean }>();
+
+    constructor(private parent?: Scope) {}
+
+    declare(name: string, value: unknown, constant = false): void {
+        this.values.set(name, { value, constant });
+    }
+
+    lookup(name: string): { value: unknown; constant: boolean } | undefined {
+        return this.values.get(name) ?? this.parent?.lookup(name);
+    }
+
+    assign(name: string, value: unknown): void {
+        const binding = this.lookup(name);
+        if (!binding) {
+            throw new ReferenceError(`${name} is not defined`);
+        }
+        if (binding.constant) {
+            throw new TypeError(`Assignment to constant variable ${name}`);
+        }
+        binding.value = value;
+    }
+}
+
+/**
+ * Tree-walking evaluator with a time budget
+ */
+class Interpreter {
+    private steps = 0;
+    private closures = new WeakSet<object>();
+
+    constructor(private deadline: number, private timeoutMs: number) {}
+
+    /**
+     * Count a step, failing once the deadline has passed
+     */
+    private tick(): void {
+        if (++this.steps % DEADLINE_CHECK_INTERVAL === 0 && Date.now() > this.deadline) {
+            throw new ExecutionTimeoutError(this.timeoutMs);
+        }
+    }
+
+    runBody(body: Statement[], scope: Scope): unknown {
+        const completion = this.executeBlock(body, scope);
+        return completion?.type === 'return' ? completion.value : undefined;
+    }
+
+    /**
+     * Run statements in a scope, hoisting function declarations first
+     */
+    executeBlock(body: Statement[], scope: Scope): Completion {
+        for (const statement of body) {
+            if (statement.kind === 'function') {
+                scope.declare(statement.name, this.makeClosure(statement.fn, scope));
+            }
+        }
+
+        for (const statement of body) {
+            const completion = this.execute(statement, scope);
+            if (completion) {
+                return completion;
+            }
+        }
+
+        return undefined;
+    }
+
+    private execute(statement: Statement, scope: Scope): Completion {
+        this.tick();
+
+        switch (statement.kind) {
+            case 'empty':
+            case 'function':
+                return undefined;
+            case 'declare':
+                for (const { name, init } of statement.declarations) {
+                    scope.declare(name, init ? this.evaluate(init, scope) : undefined, statement.constant);
+                }
+                return undefined;
+            case 'expression':
+                this.evaluate(statement.expression, scope);
+                return undefined;
+            case 'block':
+                return this.executeBlock(statement.body, new Scope(scope));
+            case 'if':
+                if (this.evaluate(statement.test, scope)) {
+                    return this.execute(statement.then, new Scope(scope));
+                }
+                return statement.otherwise ? this.execute(statement.otherwise, new Scope(scope)) : undefined;
+            case 'for': {
+                const loopScope = new Scope(scope);
+                if (statement.init) {
+                    this.execute(statement.init, loopScope);
+                }
+                while (!statement.test || this.evaluate(statement.test, loopScope)) {
+                    const completion = this.execute(statement.body, new Scope(loopScope));
+                    if (completion?.type === 'break') break;
+                    if (completion?.type === 'return') return completion;
+                    if (statement.update) {
+                        this.evaluate(statement.update, loopScope);
+                    }
+                }
+                return undefined;
+            }
+            case 'forOf': {
+                const iterable = this.evaluate(statement.iterable, scope);
+                if (typeof iterable !== 'string' && !Array.isArray(iterable)) {
+                    throw new TypeError('for...of needs a string or array');
+                }
+                for (const item of iterable) {
+                    const iterationScope = new Scope(scope);
+                    iterationScope.declare(statement.name, item, statement.constant);
+                    const completion = this.execute(statement.body, iterationScope);
+                    if (completion?.type === 'break') break;
+                    if (completion?.type === 'return') return completion;
+                }
+                return undefined;
+            }
+            case 'while':
+            case 'doWhile': {
+                let first = statement.kind === 'doWhile';
+                while (first || this.evaluate(statement.test, scope)) {
+                    first = false;
+                    const completion = this.execute(statement.body, new Scope(scope));
+                    if (completion?.type === 'break') break;
+                    if (completion?.type === 'return') return completion;
+                }
+                return undefined;
+            }
+            case 'return':
+                return { type: 'return', value: statement.value ? this.evaluate(statement.value, scope) : undefined };
+            case 'break':
+                return { type: 'break' };
+            case 'continue':
+                return { type: 'continue' };
+        }
+    }
+
+    evaluate(expression: Expression, scope: Scope): unknown {
+        this.tick();
+
+        switch (expression.kind) {
+            case 'literal':
+                return expression.value;
+            case 'identifier':
+                return this.lookup(expression.name, scope);
+            case 'array':
+                return checkSize(this.evaluateArguments(expression.elements, scope));
+            case 'member':
+                return readProperty(this.evaluate(expression.object, scope), this.evaluate(expression.property, scope));
+            case 'call':
+                return this.call(expression, scope);
+            case 'spread':
+                throw new SyntaxError('Unexpected spread');
+            case 'unary': {
+                if (expression.operator === 'typeof') {
+                    const argument = expression.argument;
+                    if (argument.kind === 'identifier' && !scope.lookup(argument.name) && !(argument.name in NAMESPACES) && !(argument.name in GLOBAL_FUNCTIONS)) {
+                        return 'undefined';
+                    }
+                    return typeof this.evaluate(argument, scope);
+                }
+                const value = this.evaluate(expression.argument, scope) as number;
+                switch (expression.operator) {
+                    case '!': return !value;
+                    case '-': return -value;
+                    case '+': return +value;
+                    default: return ~value;
+                }
+            }
+            case 'update': {
+                const current = Number(this.evaluate(expression.target, scope));
+                const updated = expression.operator === '++' ? current + 1 : current - 1;
+                this.store(expression.target, updated, scope);
+                return expression.prefix ? updated : current;
+            }
+            case 'binary': {
+                const left = this.evaluate(expression.left, scope);
+                // Short-circuit operators only evaluate the right side when needed
+                switch (expression.operator) {
+                    case '&&': return left ? this.evaluate(expression.right, scope) : left;
+                    case '||': return left ? left : this.evaluate(expression.right, scope);
+                    case '??': return left ?? this.evaluate(expression.right, scope);
+                }
+                return checkSize(applyOperator(expression.operator, left, this.evaluate(expression.right, scope)));
+            }
+            case 'conditional':
+                return this.evaluate(this.evaluate(expression.test, scope) ? expression.then : expression.otherwise, scope);
+            case 'assign': {
+                const value = expression.operator === '='
+                    ? this.evaluate(expression.value, scope)
+                    : checkSize(applyOperator(expression.operator.slice(0, -1), this.evaluate(expression.target, scope), this.evaluate(expression.value, scope)));
+                this.store(expression.target, value, scope);
+                return value;
+            }
+            case 'function':
+                return this.makeClosure(expression.fn, scope);
+        }
+    }
+
+    private lookup(name: string, scope: Scope): unknown {
+        const binding = scope.lookup(name);
+        if (binding) {
+            return binding.value;
+        }
+        if (name === 'undefined') return undefined;
+        if (name === 'NaN') return NaN;
+        if (name === 'Infinity') return Infinity;
+        if (name in NAMESPACES) return NAMESPACES[name];
+        if (name in GLOBAL_FUNCTIONS) return GLOBAL_FUNCTIONS[name];
+        throw new ReferenceError(`${name} is not defined`);
+    }
+
+    private store(target: Expression, value: unknown, scope: Scope): void {
+        if (target.kind === 'identifier') {
+            scope.assign(target.name, value);
+            return;
+        }
+
+        if (target.kind === 'member') {
+            const object = this.evaluate(target.object, scope);
+            const index = this.evaluate(target.property, scope);
+            if (!Array.isArray(object) || typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= MAX_VALUE_LENGTH) {
+                throw new TypeError('Only array elements can be assigned');
+            }
+            object[index] = value;
+            return;
+        }
+
+        throw new SyntaxError('Invalid assignment target');
+    }
+
+    private evaluateArguments(args: Expression[], scope: Scope): unknown[] {
+        const values: unknown[] = [];
+
+        for (const arg of args) {
+            if (arg.kind === 'spread') {
+                const spread = this.evaluate(arg.argument, scope);
+                if (typeof spread !== 'string' && !Array.isArray(spread)) {
+                    throw new TypeError('Only strings and arrays can be spread');
+                }
+                values.push(...spread);
+            } else {
+                values.push(this.evaluate(arg, scope));
+            }
+        }
+
+        return values;
+    }
+
+    private call(expression: Expression & { kind: 'call' }, scope: Scope): unknown {
+        const { callee } = expression;
+
+        if (callee.kind === 'member') {
+            const object = this.evaluate(callee.object, scope);
+            const name = this.evaluate(callee.property, scope);
+            const args = this.evaluateArguments(expression.args, scope);
+            return checkSize(this.callMethod(object, name, args));
+        }
+
+        const fn = this.evaluate(callee, scope);
+        const args = this.evaluateArguments(expression.args, scope);
+
+        if (typeof fn === 'function' && (this.closures.has(fn) || Object.values(GLOBAL_FUNCTIONS).includes(fn as (...args: unknown[]) => unknown))) {
+            return checkSize((fn as (...args: unknown[]) => unknown)(...args));
+        }
+
+        throw new TypeError('Value is not a callable function');
+    }
+
+    private callMethod(object: unknown, name: unknown, args: unknown[]): unknown {
+        if (typeof name !== 'string') {
+            throw new TypeError('Method names must be strings');
+        }
+
+        // Builtins receive interpreted callbacks only
+        for (const arg of args) {
+            if (typeof arg === 'function' && !this.closures.has(arg)) {
+                throw new TypeError('Only interpreted functions can be passed as callbacks');
+            }
+        }
+
+        if (typeof object === 'string' && STRING_METHODS.has(name)) {
+            checkStringGrowth(object, name, args);
+            return (String.prototype as unknown as Record<string, (...args: unknown[]) => unknown>)[name].apply(object, args);
+        }
+
+        if (Array.isArray(object) && ARRAY_METHODS.has(name)) {
+            return (Array.prototype as unknown as Record<string, (...args: unknown[]) => unknown>)[name].apply(object, args);
+        }
+
+        if (typeof object === 'number' && NUMBER_METHODS.has(name)) {
+            return (Number.prototype as unknown as Record<string, (...args: unknown[]) => unknown>)[name].apply(object, args);
+        }
+
+        if (Object.values(NAMESPACES).includes(object as Record<string, unknown>)) {
+            const fn = (object as Record<string, unknown>)[name];
+            if (typeof fn === 'function' && Object.prototype.hasOwnProperty.call(object, name)) {
+                return (fn as (...args: unknown[]) => unknown)(...args);
+            }
+        }
+
+        throw new TypeError(`Unsupported method: ${name}`);
+    }
+
+    /**
+     * Wrap an interpreted function as a host function builtins can call
+     */
+    private makeClosure(fn: FunctionNode, scope: Scope): (...args: unknown[]) => unknown {
+        const closure = (...args: unknown[]): unknown => {
+            const callScope = new Scope(scope);
+            fn.params.forEach((param, index) => callScope.declare(param, args[index]));
+            if (fn.rest) {
+                callScope.declare(fn.rest, args.slice(fn.params.length));
+            }
+
+            if (Array.isArray(fn.body)) {
+                return this.runBody(fn.body, callScope);
+            }
+            return this.evaluate(fn.body, callScope);
+        };
+
+        this.closures.add(closure);
+        return closure;
+    }
+}
+
+/**
+ * Read a property allowed for interpreted code
+ */
+function readProperty(object: unknown, property: unknown): unknown {
+    if (typeof object === 'string' || Array.isArray(object)) {
+        if (property === 'length') {
+            return object.length;
+        }
+        if (typeof property === 'number') {
+            return object[property];
+        }
+    }
+
+    if (typeof property === 'string' && Object.values(NAMESPACES).includes(object as Record<string, unknown>)) {
+        if (Object.prototype.hasOwnProperty.call(object, property)) {
+            return (object as Record<string, unknown>)[property];
+        }
+    }
+
+    // Plain data objects only arrive as parameters, e.g. chained operations
+    if (typeof property === 'string' && isPlainObject(object)) {
+        const value = Object.prototype.hasOwnProperty.call(object, property) ? object[property] : undefined;
+        if (typeof value !== 'function') {
+            return value;
+        }
+    }
+
+    throw new TypeError(`Unsupported property: ${String(property)}`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Object.values(NAMESPACES).includes(value as Record<string, unknown>)) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+function applyOperator(operator: string, left: unknown, right: unknown): unknown {
+    // Operands are primitives or arrays, which coerce without running code
+    const a = left as number;
+    const b = right as number;
+
+    switch (operator) {
+        case '+': return (a as unknown as string) + (b as unknown as string);
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+        case '**': return a ** b;
+        case '==': return a == b;
+        case '!=': return a != b;
+        case '===': return a === b;
+        case '!==': return a !== b;
+        case '<': return a < b;
+        case '>': return a > b;
+        case '<=': return a <= b;
+        case '>=': return a >= b;
+        case '&': return a & b;
+        case '|': return a | b;
+        case '^': return a ^ b;
+        case '<<': return a << b;
+        case '>>': return a >> b;
+        case '>>>': return a >>> b;
+        default:
+            throw new SyntaxError(`Unsupported operator: ${operator}`);
+    }
+}
+
+function checkSize<T>(value: T): T {
+    if ((typeof value === 'string' || Array.isArray(value)) && value.length > MAX_VALUE_LENGTH) {
+        throw new RangeError(`Values longer than ${MAX_VALUE_LENGTH} are not allowed`);
+    }
+    return value;
+}
+
+/**
+ * Reject string methods that would build an oversized value, before they
+ * allocate it; checkSize only sees results that already exist
+ */
+function checkStringGrowth(text: string, name: string, args: unknown[]): void {
+    const length = name === 'repeat'
+        ? text.length * Number(args[0])
+        : name === 'padStart' || name === 'padEnd' ? Number(args[0]) : 0;
+
+    if (length > MAX_VALUE_LENGTH) {
+        throw new RangeError(`Values longer than ${MAX_VALUE_LENGTH} are not allowed`);
+    }
+}
+
+function createInterpreter(limits?: ExecutionLimits): Interpreter {
+    const timeoutMs = limits?.timeoutMs ?? 5000;
+    return new Interpreter(Date.now() + timeoutMs, timeoutMs);
+}
+
+/**
+ * Interpret source defining a function and call it
+ */
+export function interpretFunction(code: string, functionName: string, params: unknown[], limits?: ExecutionLimits): unknown {
+    const interpreter = createInterpreter(limits);
+    const scope = new Scope();
+    interpreter.executeBlock(new Parser(code).parseProgram(), scope);
+
+    const fn = scope.lookup(functionName)?.value;
+    if (typeof fn !== 'function') {
+        throw new Error(`Function ${functionName} is not defined`);
+    }
+
+    // Copy arguments so code that mutates them can't alter the challenge
+    return fn(...structuredClone(params));
+}
+
+/**
+ * Interpret source as a function body and return its result
+ */
+export function interpretFunctionBody(code: string, limits?: ExecutionLimits): unknown {
+    return createInterpreter(limits).runBody(new Parser(code).parseProgram(), new Scope());
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { solveProofOfWork, solveProofOfWorkAsync } from './proof-of-work';
+import { createProofOfWorkPayload, MAX_DIFFICULTY_BITS, verifyProofOfWork } from '../core/proof-of-work';
+import { ExecutionTimeoutError } from './sandbox';
+import { CaptchaLMSolver } from './solver';
+import { CaptchaLM } from '../server/standalone';
+import type { ProofOfWorkPayload } from '../core/types';
+
+/**
+ * Payload with a given target and a fixed prefix
+ */
+function payload(difficultyBits: number): ProofOfWorkPayload {
+    return { type: 'proof_of_work', algorithm: 'sha256', prefix: 'captchalm-test', difficultyBits };
+}
+
+describe('solveProofOfWork', () => {
+    it('finds a nonce the server accepts', async () => {
+        const easy = createProofOfWorkPayload('easy');
+
+        expect(await verifyProofOfWork(easy, solveProofOfWork(easy))).toBe(true);
+        expect(await verifyProofOfWork(easy, await solveProofOfWorkAsync(easy))).toBe(true);
+    });
+
+    it('refuses targets above the server maximum', async () => {
+        expect(() => solveProofOfWork(payload(19))).toThrow(/0-18 bits/);
+        expect(() => solveProofOfWork(payload(256))).toThrow(/0-18 bits/);
+        expect(() => solveProofOfWork(payload(-1))).toThrow(/0-18 bits/);
+        await expect(solveProofOfWorkAsync(payload(32))).rejects.toThrow(/0-18 bits/);
+    });
+
+    it('expects the hardest target to fit the default solver timeout', () => {
+        const defaultTimeout = (new CaptchaLMSolver() as unknown as { options: { timeout: number } }).options.timeout;
+
+        // Hash rate of the solver itself, from easy solves averaging 2^12 hashes each
+        const solves = 50;
+        const started = performance.now();
+        for (let i = 0; i < solves; i++) {
+            solveProofOfWork({ ...payload(12), prefix: `rate-${i}` });
+        }
+        const hashesPerMs = (solves * 2 ** 12) / (performance.now() - started);
+
+        // Hashes to a solution are geometric, so 1 solve in 1000 needs ln(1000) times the mean
+        const unluckyMs = (2 ** MAX_DIFFICULTY_BITS / hashesPerMs) * Math.log(1000);
+        expect(unluckyMs).toBeLessThan(defaultTimeout);
+    });
+
+    it('gives up once the timeout passes', () => {
+        const started = Date.now();
+
+        expect(() => solveProofOfWork(payload(18), 0)).toThrow(ExecutionTimeoutError);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('reports a TIMEOUT from the synchronous solver', async () => {
+        const captchalm = new CaptchaLM({ secret: 's', challengeTypes: ['proof_of_work'], difficulty: 'hard' });
+        const { challenge } = await captchalm.generate();
+
+        const result = new CaptchaLMSolver({ timeout: 0 }).solve(challenge);
+        expect(result.success).toBe(false);
+        expect(result.errorCode).toBe('TIMEOUT');
+
+        captchalm.destroy();
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Proof of work solving for CaptchaLM clients
+ * Hashes synchronously in plain JavaScript, which is far faster per attempt
+ * than awaiting Web Crypto digests and needs no Node built-ins.
+ */
+
+import type { ProofOfWorkPayload } from '../core/types';
+import { MAX_DIFFICULTY_BITS, countLeadingZeroBits } from '../core/proof-of-work';
+import { ExecutionTimeoutError } from './sandbox';
+import { sha256 } from '../utils/sha256';
+import { utf8ToBytes } from '../utils/bytes';
+
+/**
+ * Attempts between deadline checks, and between yields when solving asynchronously
+ */
+const BATCH_SIZE = 4096;
+
+/**
+ * Past this many attempts the payload is unreasonable (~2^32 hashes)
+ */
+const MAX_ATTEMPTS = 2 ** 32;
+
+/**
+ * Find a nonce satisfying a proof of work payload
+ * Nonces are decimal counters starting at 0. Throws ExecutionTimeoutError
+ * once `timeoutMs` has passed.
+ */
+export function solveProofOfWork(payload: ProofOfWorkPayload, timeoutMs = 5000): string {
+    checkPayload(payload);
+    const deadline = Date.now() + timeoutMs;
+
+    for (let start = 0; start < MAX_ATTEMPTS; start += BATCH_SIZE) {
+        if (Date.now() >= deadline) {
+            throw new ExecutionTimeoutError(timeoutMs);
+        }
+
+        const nonce = searchBatch(payload, start);
+        if (nonce !== undefined) {
+            return nonce;
+        }
+    }
+
+    throw new Error('No proof of work nonce found');
+}
+
+/**
+ * Find a nonce without blocking, yielding to the event loop between batches
+ * Rejects with the signal's reason if it aborts first.
+ */
+export async function solveProofOfWorkAsync(payload: ProofOfWorkPayload, signal?: AbortSignal): Promise<string> {
+    checkPayload(payload);
+
+    for (let start = 0; start < MAX_ATTEMPTS; start += BATCH_SIZE) {
+        signal?.throwIfAborted();
+
+        const nonce = searchBatch(payload, start);
+        if (nonce !== undefined) {
+            return nonce;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    throw new Error('No proof of work nonce found');
+}
+
+/**
+ * Reject payloads this client cannot or will not solve
+ */
+function checkPayload(payload: ProofOfWorkPayload): void {
+    if (payload.algorithm !== 'sha256') {
+        throw new Error(`Unsupported proof of work algorithm: ${payload.algorithm}`);
+    }
+
+    if (!Number.isInteger(payload.difficultyBits) || payload.difficultyBits < 0 || payload.difficultyBits > MAX_DIFFICULTY_BITS) {
+        throw new Error(`Proof of work difficulty must be 0-${MAX_DIFFICULTY_BITS} bits, got ${payload.difficultyBits}`);
+    }
+}
+
+/**
+ * Try the nonces of one batch starting at `start`
+ */
+function searchBatch(payload: ProofOfWorkPayload, start: number): string | undefined {
+    for (let nonce = start; nonce < Math.min(start + BATCH_SIZE, MAX_ATTEMPTS); nonce++) {
+        const candidate = String(nonce);
+        if (countLeadingZeroBits(hashAttempt(payload.prefix, candidate)) >= payload.difficultyBits) {
+            return candidate;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * SHA-256 of prefix and nonce
+ */
+function hashAttempt(prefix: string, nonce: string): Uint8Array {
+    return sha256(utf8ToBytes(prefix + nonce));
+}
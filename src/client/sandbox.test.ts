@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { ExecutionMemoryError, ExecutionTimeoutError, runInSandbox, runInSandboxAsync } from './sandbox';
+
+const runners: [string, (source: string, limits?: Parameters<typeof runInSandbox>[1]) => Promise<unknown>][] = [
+    ['runInSandbox', async (source, limits) => runInSandbox(source, limits)],
+    ['runInSandboxAsync', (source, limits) => runInSandboxAsync(source, limits)],
+];
+
+/**
+ * Keeps allocating until the heap limit is hit
+ */
+const EXHAUST_MEMORY = 'const chunks = []; while (true) { chunks.push(new Array(1e5).fill(chunks.length)); }';
+
+describe.each(runners)('%s', (_, run) => {
+    it('returns the completion value', async () => {
+        expect(await run('[1, 2, 3].map(x => x * 2)')).toEqual([2, 4, 6]);
+    });
+
+    it('reports errors thrown by the code', async () => {
+        await expect(run('null.property')).rejects.toThrow(/Cannot read properties of null/);
+    });
+
+    it('stops code that runs past its time limit', async () => {
+        const started = Date.now();
+
+        await expect(run('while (true) {}', { timeoutMs: 200 })).rejects.toBeInstanceOf(ExecutionTimeoutError);
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it('reports running out of memory as soon as it happens', async () => {
+        const started = Date.now();
+
+        await expect(run(EXHAUST_MEMORY, { timeoutMs: 30000, memoryLimitMb: 16 })).rejects.toBeInstanceOf(ExecutionMemoryError);
+        expect(Date.now() - started).toBeLessThan(15000);
+    }, 40000);
+
+    it.each([
+        ['require', 'typeof require'],
+        ['process', 'typeof process'],
+        ['module', 'typeof module'],
+        ['globalThis.process', 'typeof globalThis.process'],
+        ['timers', 'typeof setTimeout'],
+        ['fetch', 'typeof fetch'],
+    ])('has no %s', async (_, source) => {
+        expect(await run(source)).toBe('undefined');
+    });
+
+    it.each([
+        ['the Function constructor', "(() => {}).constructor('return process')()"],
+        ['the context constructor chain', "this.constructor.constructor('return process')()"],
+        ['eval', "eval('1 + 1')"],
+    ])('refuses to compile code through %s', async (_, source) => {
+        await expect(run(source)).rejects.toThrow(/Code generation from strings disallowed/);
+    });
+
+    it('cannot import modules', async () => {
+        await expect(run("import('fs')")).rejects.toThrow();
+    });
+});
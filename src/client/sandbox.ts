@@ -0,0 +1,276 @@
+/**
+ * Isolated execution of server-supplied challenge code
+ *
+ * Code runs in a fresh `node:vm` context inside a `worker_threads` worker:
+ * the context has only JavaScript builtins (no `require`, `process`, timers
+ * or network), the worker has its own heap limit, and the calling thread
+ * gives up and terminates the worker once the time limit passes.
+ *
+ * The sandbox worker is started by a small supervisor worker, which reports
+ * the sandbox running out of memory as soon as it happens. The calling thread
+ * can't see that itself while it blocks in `runInSandbox`.
+ */
+
+import type { MessagePort, Worker } from 'worker_threads';
+
+/**
+ * Limits applied to sandboxed code
+ */
+export interface ExecutionLimits {
+    /** Longest the code may run (ms, default 5000) */
+    timeoutMs?: number;
+    /** Heap available to the worker (MB, default 64) */
+    memoryLimitMb?: number;
+}
+
+const DEFAULT_LIMITS: Required<ExecutionLimits> = {
+    timeoutMs: 5000,
+    memoryLimitMb: 64,
+};
+
+/**
+ * Extra wait allowed for the workers to start before they are abandoned
+ */
+const WORKER_STARTUP_MS = 1000;
+
+/**
+ * Sandbox worker entry point
+ * The context is created from a null-prototype object so nothing in it leads
+ * back to the worker's realm, and string code generation is disabled so the
+ * context's own Function constructor can't be used to compile new code.
+ */
+const SANDBOX_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const { source, timeoutMs } = workerData;
+
+let message;
+try {
+    const context = vm.createContext(Object.create(null), {
+        codeGeneration: { strings: false, wasm: false },
+        microtaskMode: 'afterEvaluate',
+    });
+    const value = new vm.Script(source).runInContext(context, { timeout: timeoutMs });
+    message = { ok: true, value };
+} catch (error) {
+    // Errors thrown inside the context come from its realm, so check the shape
+    message = {
+        ok: false,
+        error: error && typeof error.message === 'string' ? error.message : 'Unknown error',
+        reason: error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT' ? 'timeout' : 'error',
+    };
+}
+
+try {
+    parentPort.postMessage(message);
+} catch {
+    parentPort.postMessage({ ok: false, error: 'Result could not be returned from the sandbox', reason: 'error' });
+}
+`;
+
+/**
+ * Supervisor worker entry point
+ * Starts the sandbox with its limits and relays exactly one outcome to the
+ * calling thread: the sandbox's result, or why it died without one.
+ */
+const SUPERVISOR_SOURCE = `
+const { Worker, workerData } = require('worker_threads');
+const { sandboxSource, source, limits, port, signal } = workerData;
+
+let reported = false;
+function report(message) {
+    if (reported) {
+        return;
+    }
+    reported = true;
+    port.postMessage(message);
+    Atomics.store(signal, 0, 1);
+    Atomics.notify(signal, 0);
+    void sandbox.terminate();
+}
+
+const sandbox = new Worker(sandboxSource, {
+    eval: true,
+    workerData: { source, timeoutMs: limits.timeoutMs },
+    env: {},
+    stdout: true,
+    stderr: true,
+    resourceLimits: {
+        maxOldGenerationSizeMb: limits.memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(1, Math.floor(limits.memoryLimitMb / 4)),
+        codeRangeSizeMb: 16,
+        stackSizeMb: 4,
+    },
+});
+
+sandbox.once('message', report);
+sandbox.once('error', (error) => report({
+    ok: false,
+    error: error && typeof error.message === 'string' ? error.message : 'Unknown error',
+    reason: error && error.code === 'ERR_WORKER_OUT_OF_MEMORY' ? 'memory' : 'error',
+}));
+sandbox.once('exit', () => report({ ok: false, error: 'Sandbox exited without a result', reason: 'error' }));
+`;
+
+/**
+ * Load worker_threads on first use
+ * Reached through process.getBuiltinModule rather than an import so that the
+ * client bundles for runtimes without Node built-ins, where interpret mode works.
+ */
+function loadWorkerThreads(): typeof import('worker_threads') {
+    const workerThreads = globalThis.process?.getBuiltinModule?.('worker_threads');
+    if (!workerThreads) {
+        throw new Error("Sandboxed execution needs Node.js 20.16 or later; use codeExecution: 'interpret' in other runtimes");
+    }
+    return workerThreads;
+}
+
+/**
+ * Thrown when code runs past its time limit
+ */
+export class ExecutionTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`Execution did not finish within ${timeoutMs}ms`);
+        this.name = 'ExecutionTimeoutError';
+    }
+}
+
+/**
+ * Thrown when code runs out of the sandbox's heap
+ */
+export class ExecutionMemoryError extends Error {
+    constructor(memoryLimitMb: number) {
+        super(`Execution ran out of memory (limit ${memoryLimitMb}MB)`);
+        this.name = 'ExecutionMemoryError';
+    }
+}
+
+type SandboxMessage =
+    | { ok: true; value: unknown }
+    | { ok: false; error: string; reason: 'timeout' | 'memory' | 'error' };
+
+/**
+ * Start a supervisor running a script in a sandbox worker
+ */
+function startWorker(source: string, limits: Required<ExecutionLimits>, signal: Int32Array): {
+    worker: Worker;
+    port: MessagePort;
+} {
+    const { MessageChannel, Worker } = loadWorkerThreads();
+    const { port1, port2 } = new MessageChannel();
+
+    const worker = new Worker(SUPERVISOR_SOURCE, {
+        eval: true,
+        workerData: { sandboxSource: SANDBOX_SOURCE, source, limits, port: port2, signal },
+        transferList: [port2],
+        env: {},
+    });
+    worker.unref();
+    // A supervisor that fails to start surfaces as a missing result; don't let it crash the caller
+    worker.on('error', () => {});
+
+    return { worker, port: port1 };
+}
+
+/**
+ * Unwrap the message posted by a supervisor
+ */
+function unwrapResult(message: SandboxMessage, limits: Required<ExecutionLimits>): unknown {
+    if (message.ok) {
+        return message.value;
+    }
+    if (message.reason === 'timeout') {
+        throw new ExecutionTimeoutError(limits.timeoutMs);
+    }
+    if (message.reason === 'memory') {
+        throw new ExecutionMemoryError(limits.memoryLimitMb);
+    }
+    throw new Error(message.error);
+}
+
+/**
+ * Run a script in the sandbox and return its completion value
+ * Blocks the calling thread until the script finishes or the limit passes.
+ */
+export function runInSandbox(source: string, limits?: ExecutionLimits): unknown {
+    const resolved = { ...DEFAULT_LIMITS, ...limits };
+    const signal = new Int32Array(new SharedArrayBuffer(4));
+    const { worker, port } = startWorker(source, resolved, signal);
+
+    try {
+        const status = Atomics.wait(signal, 0, 0, resolved.timeoutMs + WORKER_STARTUP_MS);
+
+        // Code stuck outside the vm timeout, e.g. in a microtask loop, never reports
+        const received = loadWorkerThreads().receiveMessageOnPort(port)?.message as SandboxMessage | undefined;
+
+        if (!received) {
+            if (status === 'timed-out') {
+                throw new ExecutionTimeoutError(resolved.timeoutMs);
+            }
+            throw new Error('Sandbox exited without a result');
+        }
+
+        return unwrapResult(received, resolved);
+    } finally {
+        port.close();
+        void worker.terminate();
+    }
+}
+
+/**
+ * Run a script in the sandbox without blocking
+ * Rejects with the signal's reason if it aborts first.
+ */
+export function runInSandboxAsync(source: string, limits?: ExecutionLimits, abortSignal?: AbortSignal): Promise<unknown> {
+    const resolved = { ...DEFAULT_LIMITS, ...limits };
+
+    if (abortSignal?.aborted) {
+        return Promise.reject(abortSignal.reason);
+    }
+
+    const { worker, port } = startWorker(source, resolved, new Int32Array(new SharedArrayBuffer(4)));
+
+    return new Promise<unknown>((resolve, reject) => {
+        const timer = setTimeout(
+            () => finish(() => reject(new ExecutionTimeoutError(resolved.timeoutMs))),
+            resolved.timeoutMs + WORKER_STARTUP_MS
+        );
+        const onAbort = () => finish(() => reject(abortSignal?.reason));
+
+        let settled = false;
+
+        function finish(settle: () => void): void {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            abortSignal?.removeEventListener('abort', onAbort);
+            port.close();
+            void worker.terminate();
+            settle();
+        }
+
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+        const onMessage = (message: SandboxMessage) => finish(() => {
+            try {
+                resolve(unwrapResult(message, resolved));
+            } catch (error) {
+                reject(error);
+            }
+        });
+
+        port.once('message', onMessage);
+
+        // The exit can overtake a posted result, so drain the port first
+        worker.once('exit', () => {
+            const received = loadWorkerThreads().receiveMessageOnPort(port)?.message as SandboxMessage | undefined;
+            if (received) {
+                onMessage(received);
+            } else {
+                finish(() => reject(new Error('Sandbox exited without a result')));
+            }
+        });
+    });
+}
@@ -0,0 +1,239 @@
+import { once } from 'events';
+import * as workerThreads from 'worker_threads';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CaptchaLMSolver } from './solver';
+import { CaptchaLM } from '../server/standalone';
+import type { Challenge } from '../core/types';
+
+const CHALLENGE_URL = 'https://api.example.com/_captchalm/challenge';
+const PROTECTED_URL = 'https://api.example.com/data';
+
+/**
+ * Stand-in server answering from scripted responses
+ * Challenge requests get a fresh challenge once their script runs out;
+ * protected requests answer 200 once theirs does.
+ */
+function scriptedServer(script: { challenge?: Response[]; protected?: Response[] }) {
+    const issuer = new CaptchaLM({ secret: 's', challengeTypes: ['encoded_instruction'] });
+    const calls: { url: string; at: number }[] = [];
+
+    vi.stubGlobal('fetch', async (input: string) => {
+        calls.push({ url: input, at: Date.now() });
+
+        if (input === CHALLENGE_URL) {
+            return script.challenge?.shift() ?? Response.json({ success: true, challenge: (await issuer.generate()).challenge });
+        }
+        return script.protected?.shift() ?? Response.json({ ok: true });
+    });
+
+    const count = (url: string) => calls.filter(call => call.url === url).length;
+
+    return {
+        calls,
+        count,
+        /** Let the client run until it has sent `times` requests to `url` */
+        async sent(url: string, times: number): Promise<void> {
+            while (count(url) < times) {
+                // Signing runs off the main thread, so microtasks alone don't get there
+                await new Promise(resolve => setImmediate(resolve));
+            }
+        },
+    };
+}
+
+/**
+ * 429 response with the given headers
+ */
+function limited(headers: Record<string, string> = {}): Response {
+    return new Response(null, { status: 429, headers });
+}
+
+describe('CaptchaLMSolver rate limit backoff', () => {
+    const start = 1_700_000_000_000;
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+        vi.setSystemTime(start);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('waits for Retry-After, then solves a fresh challenge and resends', async () => {
+        const server = scriptedServer({ protected: [limited({ 'Retry-After': '2' })] });
+
+        const pending = new CaptchaLMSolver({ codeExecution: 'interpret' }).completeProtectedRequest(CHALLENGE_URL, PROTECTED_URL);
+        await server.sent(PROTECTED_URL, 1);
+
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(server.count(CHALLENGE_URL)).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect((await pending).status).toBe(200);
+        expect(server.calls.map(call => [call.url, call.at - start])).toEqual([
+            [CHALLENGE_URL, 0],
+            [PROTECTED_URL, 0],
+            [CHALLENGE_URL, 2000],
+            [PROTECTED_URL, 2000],
+        ]);
+    });
+
+    it.each([
+        ['a Retry-After date', () => ({ 'Retry-After': new Date(start + 3000).toUTCString() }), 3000],
+        ['RateLimit-Reset without Retry-After', () => ({ 'RateLimit-Reset': '4' }), 4000],
+        ['Retry-After over RateLimit-Reset', () => ({ 'Retry-After': '1', 'RateLimit-Reset': '4' }), 1000],
+    ])('waits for %s', async (_, headers, delay) => {
+        const server = scriptedServer({ protected: [limited(headers())] });
+
+        const pending = new CaptchaLMSolver({ codeExecution: 'interpret' }).completeProtectedRequest(CHALLENGE_URL, PROTECTED_URL);
+        await server.sent(PROTECTED_URL, 1);
+        await vi.advanceTimersByTimeAsync(delay);
+
+        expect((await pending).status).toBe(200);
+        expect(server.calls.at(-1)?.at).toBe(start + delay);
+    });
+
+    it('backs off the challenge endpoint too', async () => {
+        const server = scriptedServer({ challenge: [limited({ 'Retry-After': '1' })] });
+
+        const pending = new CaptchaLMSolver({ codeExecution: 'interpret' }).completeProtectedRequest(CHALLENGE_URL, PROTECTED_URL);
+        await server.sent(CHALLENGE_URL, 1);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect((await pending).status).toBe(200);
+        expect(server.count(CHALLENGE_URL)).toBe(2);
+    });
+
+    it('returns the 429 once the retries are used up', async () => {
+        const server = scriptedServer({ protected: [1, 2, 3].map(() => limited({ 'Retry-After': '1' })) });
+
+        const pending = new CaptchaLMSolver({ codeExecution: 'interpret', rateLimitRetries: 2 }).completeProtectedRequest(CHALLENGE_URL, PROTECTED_URL);
+        for (const times of [1, 2]) {
+            await server.sent(PROTECTED_URL, times);
+            await vi.advanceTimersByTimeAsync(1000);
+        }
+
+        expect((await pending).status).toBe(429);
+        expect(server.count(PROTECTED_URL)).toBe(3);
+    });
+
+    it.each([
+        ['says no delay', {}],
+        ['asks for a longer wait than maxRetryWaitMs', { 'Retry-After': '61' }],
+    ])('returns the 429 at once when the server %s', async (_, headers) => {
+        const server = scriptedServer({ protected: [limited(headers)] });
+
+        const response = await new CaptchaLMSolver({ codeExecution: 'interpret' }).completeProtectedRequest(CHALLENGE_URL, PROTECTED_URL);
+
+        expect(response.status).toBe(429);
+        expect(server.count(PROTECTED_URL)).toBe(1);
+    });
+
+    it('stops waiting when the request is aborted', async () => {
+        const server = scriptedServer({ protected: [limited({ 'Retry-After': '30' })] });
+        const controller = new AbortController();
+
+        const pending = new CaptchaLMSolver({ codeExecution: 'interpret' }).completeProtectedRequest(
+            CHALLENGE_URL,
+            PROTECTED_URL,
+            { signal: controller.signal }
+        );
+        const rejection = expect(pending).rejects.toThrow('gave up');
+        await server.sent(PROTECTED_URL, 1);
+        await vi.advanceTimersByTimeAsync(1000);
+        controller.abort(new Error('gave up'));
+
+        await rejection;
+        expect(server.count(PROTECTED_URL)).toBe(1);
+    });
+});
+
+describe('CaptchaLMSolver.solveAsync', () => {
+    const getBuiltinModule = process.getBuiltinModule;
+    let workers: workerThreads.Worker[];
+
+    /**
+     * Function execution challenge whose code never returns
+     */
+    const endless: Challenge = {
+        id: 'endless',
+        type: 'function_execution',
+        difficulty: 'easy',
+        payload: {
+            type: 'function_execution',
+            functionName: 'spin',
+            functionCode: 'function spin() { while (true) {} }',
+            parameters: [],
+            responseEncoding: 'plain',
+        },
+        issuedAt: Date.now(),
+        expiresAt: Date.now() + 3_600_000,
+        signature: '',
+    };
+
+    beforeEach(() => {
+        // Record the workers the sandbox starts
+        workers = [];
+        class RecordedWorker extends workerThreads.Worker {
+            constructor(...args: ConstructorParameters<typeof workerThreads.Worker>) {
+                super(...args);
+                workers.push(this);
+            }
+        }
+        process.getBuiltinModule = ((id: string) =>
+            id === 'worker_threads' ? { ...workerThreads, Worker: RecordedWorker } : getBuiltinModule(id)) as typeof getBuiltinModule;
+    });
+
+    afterEach(() => {
+        process.getBuiltinModule = getBuiltinModule;
+    });
+
+    it('gives up with ABORTED when the signal aborts, and terminates the worker', async () => {
+        const controller = new AbortController();
+        const started = Date.now();
+
+        const pending = new CaptchaLMSolver().solveAsync(endless, { signal: controller.signal });
+        expect(workers).toHaveLength(1);
+        const exited = once(workers[0], 'exit');
+        setTimeout(() => controller.abort(), 100);
+
+        expect(await pending).toMatchObject({ success: false, errorCode: 'ABORTED', error: 'Solve was aborted' });
+        expect(Date.now() - started).toBeLessThan(5000);
+        await exited;
+    });
+
+    it('does not start a worker for an already aborted signal', async () => {
+        const result = await new CaptchaLMSolver().solveAsync(endless, { signal: AbortSignal.abort() });
+
+        expect(result).toMatchObject({ success: false, errorCode: 'ABORTED' });
+        expect(workers).toHaveLength(0);
+    });
+
+    it('gives up with TIMEOUT after the solver timeout, leaving no worker running', async () => {
+        const started = Date.now();
+
+        const pending = new CaptchaLMSolver({ timeout: 300 }).solveAsync(endless);
+        const exited = once(workers[0], 'exit');
+
+        expect(await pending).toMatchObject({ success: false, errorCode: 'TIMEOUT', error: 'Solve did not finish within 300ms' });
+        expect(Date.now() - started).toBeLessThan(5000);
+        await exited;
+    });
+
+    it('reports ABORTED rather than TIMEOUT when the caller aborts first', async () => {
+        const controller = new AbortController();
+        const pending = new CaptchaLMSolver({ timeout: 5000 }).solveAsync(endless, { signal: controller.signal });
+        controller.abort(new Error('caller gave up'));
+
+        expect((await pending).errorCode).toBe('ABORTED');
+    });
+
+    it('fails fast with EXPIRED for an expired challenge', async () => {
+        const result = await new CaptchaLMSolver().solveAsync({ ...endless, expiresAt: Date.now() - 1 });
+
+        expect(result).toMatchObject({ success: false, errorCode: 'EXPIRED' });
+        expect(workers).toHaveLength(0);
+    });
+});
@@ -4,16 +4,28 @@
 
 import type { Challenge, ChallengePayload } from '../core/types';
 import { encode } from '../core/encoding';
-import { executePayload } from './executor';
+import { base64UrlToBytes, bytesToUtf8 } from '../utils/bytes';
+import { executePayload, executePayloadAsync, type CodeExecutionMode } from './executor';
+import { ExecutionTimeoutError, type ExecutionLimits } from './sandbox';
 
 /**
  * Solver options
  */
 export interface SolverOptions {
-    /** Timeout for solving (ms) */
+    /** Time limit for solving, including challenge code (ms, default 10000) */
     timeout?: number;
+    /** Heap available to challenge code (MB, default 64) */
+    memoryLimitMb?: number;
+    /** Run challenge code in a sandbox or interpret it without evaluation (default 'sandbox') */
+    codeExecution?: CodeExecutionMode;
     /** Enable debug logging */
     debug?: boolean;
+    /** Cache access tokens issued by servers and reuse them (default true) */
+    cacheAccessTokens?: boolean;
+    /** Retries after a 429 response that says when to come back (default 2) */
+    rateLimitRetries?: number;
+    /** Longest server-requested wait to honor before giving up (ms, default 60000) */
+    maxRetryWaitMs?: number;
 }
 
 /**
@@ -28,23 +40,41 @@ export interface SolutionResult {
     success: boolean;
     /** Error message if failed */
     error?: string;
+    /** Why the solve failed */
+    errorCode?: SolveErrorCode;
 }
 
+/**
+ * Solve failure reasons
+ * - EXPIRED: the challenge expired before solving
+ * - TIMEOUT: solving took longer than the solver's `timeout`
+ * - ABORTED: the caller's AbortSignal fired
+ * - FAILED: the challenge could not be solved
+ */
+export type SolveErrorCode = 'EXPIRED' | 'TIMEOUT' | 'ABORTED' | 'FAILED';
+
 /**
  * CaptchaLM Solver for AI agents
  */
 export class CaptchaLMSolver {
     private options: Required<SolverOptions>;
+    private accessTokens: Map<string, { token: string; expiresAt: number }> = new Map();
 
     constructor(options?: SolverOptions) {
         this.options = {
             timeout: options?.timeout ?? 10000,
+            memoryLimitMb: options?.memoryLimitMb ?? 64,
+            codeExecution: options?.codeExecution ?? 'sandbox',
             debug: options?.debug ?? false,
+            cacheAccessTokens: options?.cacheAccessTokens ?? true,
+            rateLimitRetries: options?.rateLimitRetries ?? 2,
+            maxRetryWaitMs: options?.maxRetryWaitMs ?? 60000,
         };
     }
 
     /**
      * Solve a challenge
+     * Blocks until done; challenge code is still bounded by `timeout`.
      */
     solve(challenge: Challenge): SolutionResult {
         const startTime = Date.now();
@@ -52,12 +82,7 @@ export class CaptchaLMSolver {
         try {
             // Check if challenge is expired
             if (Date.now() > challenge.expiresAt) {
-                return {
-                    solution: '',
-                    solveDuration: Date.now() - startTime,
-                    success: false,
-                    error: 'Challenge has expired',
-                };
+                return this.failure(startTime, 'Challenge has expired', 'EXPIRED');
             }
 
             if (this.options.debug) {
@@ -65,40 +90,114 @@ export class CaptchaLMSolver {
             }
 
             // Execute the payload to get the raw result
-            const rawResult = executePayload(challenge.payload);
+            const rawResult = executePayload(challenge.payload, this.getExecutionLimits(), this.options.codeExecution);
 
-            // Encode the result according to the challenge's response encoding
-            const responseEncoding = (challenge.payload as ChallengePayload & { responseEncoding?: string }).responseEncoding || 'plain';
-            const solution = encode(String(rawResult), responseEncoding as 'plain' | 'base64' | 'hex' | 'rot13');
+            return this.success(startTime, challenge, rawResult);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            return this.failure(startTime, errorMessage, error instanceof ExecutionTimeoutError ? 'TIMEOUT' : 'FAILED');
+        }
+    }
 
-            const duration = Date.now() - startTime;
+    /**
+     * Solve a challenge without blocking
+     * Gives up with a TIMEOUT failure after `timeout`, or ABORTED when `signal` aborts.
+     */
+    async solveAsync(challenge: Challenge, options?: { signal?: AbortSignal }): Promise<SolutionResult> {
+        const startTime = Date.now();
+        const signal = options?.signal;
 
+        if (Date.now() > challenge.expiresAt) {
+            return this.failure(startTime, 'Challenge has expired', 'EXPIRED');
+        }
+
+        if (signal?.aborted) {
+            return this.failure(startTime, 'Solve was aborted', 'ABORTED');
+        }
+
+        // One signal for both the caller's abort and our own timeout
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(new ExecutionTimeoutError(this.options.timeout)), this.options.timeout);
+        const onAbort = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        try {
             if (this.options.debug) {
-                console.log(`[CaptchaLM] Solved in ${duration}ms`);
+                console.log(`[CaptchaLM] Solving ${challenge.type} challenge...`);
             }
 
-            return {
-                solution,
-                solveDuration: duration,
-                success: true,
-            };
+            const rawResult = await executePayloadAsync(
+                challenge.payload,
+                this.getExecutionLimits(),
+                this.options.codeExecution,
+                controller.signal
+            );
+
+            return this.success(startTime, challenge, rawResult);
         } catch (error) {
-            const duration = Date.now() - startTime;
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            if (signal?.aborted) {
+                return this.failure(startTime, 'Solve was aborted', 'ABORTED');
+            }
 
-            if (this.options.debug) {
-                console.error(`[CaptchaLM] Failed to solve: ${errorMessage}`);
+            if (controller.signal.aborted || error instanceof ExecutionTimeoutError) {
+                return this.failure(startTime, `Solve did not finish within ${this.options.timeout}ms`, 'TIMEOUT');
             }
 
-            return {
-                solution: '',
-                solveDuration: duration,
-                success: false,
-                error: errorMessage,
-            };
+            return this.failure(startTime, error instanceof Error ? error.message : 'Unknown error', 'FAILED');
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
         }
     }
 
+    /**
+     * Limits for challenge code
+     */
+    private getExecutionLimits(): ExecutionLimits {
+        return {
+            timeoutMs: this.options.timeout,
+            memoryLimitMb: this.options.memoryLimitMb,
+        };
+    }
+
+    /**
+     * Encode a raw result as a successful solution
+     */
+    private success(startTime: number, challenge: Challenge, rawResult: unknown): SolutionResult {
+        // Encode the result according to the challenge's response encoding
+        const responseEncoding = (challenge.payload as ChallengePayload & { responseEncoding?: string }).responseEncoding || 'plain';
+        const solution = encode(String(rawResult), responseEncoding as 'plain' | 'base64' | 'hex' | 'rot13');
+
+        const duration = Date.now() - startTime;
+
+        if (this.options.debug) {
+            console.log(`[CaptchaLM] Solved in ${duration}ms`);
+        }
+
+        return {
+            solution,
+            solveDuration: duration,
+            success: true,
+        };
+    }
+
+    /**
+     * Build a failed solution result
+     */
+    private failure(startTime: number, error: string, errorCode: SolveErrorCode): SolutionResult {
+        if (this.options.debug) {
+            console.error(`[CaptchaLM] Failed to solve: ${error}`);
+        }
+
+        return {
+            solution: '',
+            solveDuration: Date.now() - startTime,
+            success: false,
+            error,
+            errorCode,
+        };
+    }
+
     /**
      * Solve a challenge and return formatted headers for HTTP request
      */
@@ -133,6 +232,7 @@ export class CaptchaLMSolver {
 
     /**
      * Fetch a challenge from a server and solve it
+     * `fetchOptions.signal` cancels both the fetch and the solve.
      */
     async fetchAndSolve(
         challengeUrl: string,
@@ -142,12 +242,15 @@ export class CaptchaLMSolver {
         solution: string;
         success: boolean;
         error?: string;
+        errorCode?: SolveErrorCode;
     }> {
+        const signal = fetchOptions?.signal ?? undefined;
+
         try {
-            const response = await fetch(challengeUrl, {
+            const response = await this.fetchWithBackoff(() => fetch(challengeUrl, {
                 method: 'GET',
                 ...fetchOptions,
-            });
+            }), signal);
 
             if (!response.ok) {
                 throw new Error(`Failed to fetch challenge: ${response.statusText}`);
@@ -160,13 +263,14 @@ export class CaptchaLMSolver {
             }
 
             const challenge = data.challenge;
-            const result = this.solve(challenge);
+            const result = await this.solveAsync(challenge, { signal });
 
             return {
                 challenge,
                 solution: result.solution,
                 success: result.success,
                 error: result.error,
+                errorCode: result.errorCode,
             };
         } catch (error) {
             return {
@@ -174,6 +278,7 @@ export class CaptchaLMSolver {
                 solution: '',
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
+                errorCode: signal?.aborted ? 'ABORTED' : 'FAILED',
             };
         }
     }
@@ -186,14 +291,102 @@ export class CaptchaLMSolver {
         protectedUrl: string,
         requestOptions?: RequestInit
     ): Promise<Response> {
-        // Fetch and solve the challenge
-        const { challenge, solution, success, error } = await this.fetchAndSolve(challengeUrl);
+        // Reuse a cached access token if we have one; fall back to solving
+        // if the server no longer accepts it
+        const cachedToken = this.getAccessToken(protectedUrl);
+        if (cachedToken) {
+            const headers = new Headers(requestOptions?.headers);
+            headers.set('Authorization', `CaptchaLM ${cachedToken}`);
+
+            const response = await fetch(protectedUrl, { ...requestOptions, headers });
+            if (response.status !== 401) {
+                return response;
+            }
+
+            this.forgetAccessToken(protectedUrl);
+        }
+
+        // Solve and submit, starting over with a fresh challenge if the
+        // server asks us to wait
+        const response = await this.fetchWithBackoff(() =>
+            this.solveAndSubmit(challengeUrl, protectedUrl, requestOptions),
+            requestOptions?.signal ?? undefined
+        );
+
+        this.cacheAccessToken(protectedUrl, response);
+
+        return response;
+    }
+
+    /**
+     * Fetch and solve a challenge, then send the protected request with it
+     */
+    private async solveAndSubmit(
+        challengeUrl: string,
+        protectedUrl: string,
+        requestOptions?: RequestInit
+    ): Promise<Response> {
+        const signal = requestOptions?.signal ?? undefined;
+        const { challenge, solution, success, error } = await this.fetchAndSolve(challengeUrl, { signal });
 
         if (!success) {
+            signal?.throwIfAborted();
             throw new Error(`Failed to solve challenge: ${error}`);
         }
 
         // Make the protected request
+        const response = await this.submitSolution(protectedUrl, challenge, solution, requestOptions);
+
+        // Servers that bind challenges to the request reply with a fresh
+        // inline challenge for this request; solve it and retry once
+        const inlineChallenge = await getInlineChallenge(response);
+        if (inlineChallenge) {
+            const result = await this.solveAsync(inlineChallenge, { signal });
+
+            if (!result.success) {
+                signal?.throwIfAborted();
+                throw new Error(`Failed to solve challenge: ${result.error}`);
+            }
+
+            return this.submitSolution(protectedUrl, inlineChallenge, result.solution, requestOptions);
+        }
+
+        return response;
+    }
+
+    /**
+     * Send a request, waiting and resending while the server answers 429
+     * with a Retry-After or RateLimit-Reset delay we're willing to wait
+     */
+    private async fetchWithBackoff(send: () => Promise<Response>, signal?: AbortSignal): Promise<Response> {
+        let response = await send();
+
+        for (let retry = 0; retry < this.options.rateLimitRetries && response.status === 429; retry++) {
+            const delay = getRetryDelay(response);
+            if (delay === undefined || delay > this.options.maxRetryWaitMs) {
+                break;
+            }
+
+            if (this.options.debug) {
+                console.log(`[CaptchaLM] Rate limited, retrying in ${delay}ms`);
+            }
+
+            await sleep(delay, signal);
+            response = await send();
+        }
+
+        return response;
+    }
+
+    /**
+     * Send the protected request with a challenge solution attached
+     */
+    private async submitSolution(
+        protectedUrl: string,
+        challenge: Challenge,
+        solution: string,
+        requestOptions?: RequestInit
+    ): Promise<Response> {
         const headers = new Headers(requestOptions?.headers);
         headers.set('x-captchalm-id', challenge.id);
         headers.set('x-captchalm-solution', solution);
@@ -209,6 +402,135 @@ export class CaptchaLMSolver {
             body: JSON.stringify(body),
         });
     }
+
+    /**
+     * Get a cached, unexpired access token for a URL's origin
+     */
+    getAccessToken(url: string): string | undefined {
+        if (!this.options.cacheAccessTokens) {
+            return undefined;
+        }
+
+        const origin = new URL(url).origin;
+        const cached = this.accessTokens.get(origin);
+
+        // Treat tokens as expired slightly early to absorb clock skew
+        if (!cached || Date.now() > cached.expiresAt - 1000) {
+            this.accessTokens.delete(origin);
+            return undefined;
+        }
+
+        return cached.token;
+    }
+
+    /**
+     * Forget the cached access token for a URL's origin, e.g. after the server rejects it
+     */
+    forgetAccessToken(url: string): void {
+        this.accessTokens.delete(new URL(url).origin);
+    }
+
+    /**
+     * Forget all cached access tokens
+     */
+    clearAccessTokens(): void {
+        this.accessTokens.clear();
+    }
+
+    /**
+     * Cache the access token from a successful protected response
+     */
+    cacheAccessToken(url: string, response: Response): void {
+        const token = response.headers.get('x-captchalm-token');
+        if (!this.options.cacheAccessTokens || !response.ok || !token) {
+            return;
+        }
+
+        const expiresAt = getTokenExpiry(token);
+        if (expiresAt === undefined) {
+            return;
+        }
+
+        this.accessTokens.set(new URL(url).origin, { token, expiresAt });
+
+        if (this.options.debug) {
+            console.log(`[CaptchaLM] Cached access token until ${new Date(expiresAt).toISOString()}`);
+        }
+    }
+}
+
+/**
+ * Read the expiry (Unix ms) from an access token without verifying it
+ */
+function getTokenExpiry(token: string): number | undefined {
+    try {
+        const claims = JSON.parse(bytesToUtf8(base64UrlToBytes(token.split('.')[1]))) as { exp?: unknown };
+        return typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Delay (ms) requested by a rate-limited response
+ * Reads Retry-After (seconds or HTTP date), then RateLimit-Reset (seconds).
+ */
+function getRetryDelay(response: Response): number | undefined {
+    const retryAfter = response.headers.get('retry-after');
+
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - Date.now());
+        }
+    }
+
+    const reset = Number(response.headers.get('ratelimit-reset') ?? NaN);
+    return Number.isFinite(reset) ? Math.max(0, reset * 1000) : undefined;
+}
+
+/**
+ * Wait for a delay, rejecting with the signal's reason if it aborts first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Extract the inline challenge from a 401 response, if it carries one
+ */
+export async function getInlineChallenge(response: Response): Promise<Challenge | undefined> {
+    if (response.status !== 401) {
+        return undefined;
+    }
+
+    try {
+        const data = await response.clone().json() as { captchalm?: { challenge?: Challenge } };
+        return data.captchalm?.challenge;
+    } catch {
+        return undefined;
+    }
 }
 
 /**
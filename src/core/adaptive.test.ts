@@ -0,0 +1,237 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AdaptiveDifficulty, DefaultDifficultyPolicy } from './adaptive';
+import { ChallengeGenerator } from './generator';
+import { CaptchaLM } from '../server/standalone';
+import type { ChainedOperationsPayload, ClientHistory, ClientHistoryStoreAdapter, DifficultyPolicy } from './types';
+
+const defaults = { difficulty: 'medium' as const, challengeTypes: ['chained_operations' as const] };
+
+/**
+ * History of a client on a failure streak
+ */
+function failing(failureStreak: number): ClientHistory {
+    return { successes: 0, failures: failureStreak, failureStreak, updatedAt: Date.now() };
+}
+
+/**
+ * History of a client with only successes
+ */
+function succeeding(successes: number, averageSolveMs?: number): ClientHistory {
+    return { successes, failures: 0, failureStreak: 0, averageSolveMs, updatedAt: Date.now() };
+}
+
+/**
+ * Client history store that keeps the TTL of each save
+ */
+class RecordingHistoryStore implements ClientHistoryStoreAdapter {
+    histories = new Map<string, ClientHistory>();
+    ttls: number[] = [];
+
+    async get(clientIdentifier: string): Promise<ClientHistory | undefined> {
+        return this.histories.get(clientIdentifier);
+    }
+
+    async set(clientIdentifier: string, history: ClientHistory, ttlMs: number): Promise<void> {
+        this.histories.set(clientIdentifier, history);
+        this.ttls.push(ttlMs);
+    }
+
+    async delete(clientIdentifier: string): Promise<boolean> {
+        return this.histories.delete(clientIdentifier);
+    }
+
+    async clear(): Promise<void> {
+        this.histories.clear();
+    }
+}
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('DefaultDifficultyPolicy', () => {
+    it('leaves new clients at the defaults', () => {
+        expect(new DefaultDifficultyPolicy().decide(undefined, defaults)).toEqual({});
+    });
+
+    it('raises difficulty one level on a failure streak', () => {
+        const policy = new DefaultDifficultyPolicy();
+
+        expect(policy.decide(failing(1), defaults)).toEqual({});
+        expect(policy.decide(failing(2), defaults)).toEqual({ difficulty: 'hard' });
+        expect(policy.decide(failing(2), { ...defaults, difficulty: 'easy' })).toEqual({ difficulty: 'medium' });
+        expect(policy.decide(failing(2), { ...defaults, difficulty: 'hard' })).toEqual({ difficulty: 'hard' });
+        expect(new DefaultDifficultyPolicy({ escalateAfterFailures: 3 }).decide(failing(2), defaults)).toEqual({});
+    });
+
+    it('raises difficulty one level for slow solvers', () => {
+        const policy = new DefaultDifficultyPolicy();
+
+        expect(policy.decide(succeeding(1, 10000), defaults)).toEqual({});
+        expect(policy.decide(succeeding(1, 10001), defaults)).toEqual({ difficulty: 'hard' });
+        expect(new DefaultDifficultyPolicy({ slowSolveMs: 500 }).decide(succeeding(1, 600), defaults)).toEqual({ difficulty: 'hard' });
+    });
+
+    it('relaxes difficulty after a clean record', () => {
+        const policy = new DefaultDifficultyPolicy();
+
+        expect(policy.decide(succeeding(4), defaults)).toEqual({});
+        expect(policy.decide(succeeding(5), defaults)).toEqual({ difficulty: 'easy' });
+        expect(policy.decide(succeeding(5), { ...defaults, difficulty: 'easy' })).toEqual({ difficulty: 'easy' });
+
+        // One failure in ten is too many, and so is a failure since the last success
+        expect(policy.decide({ ...succeeding(9), failures: 1 }, defaults)).toEqual({});
+        expect(policy.decide({ ...succeeding(19), failures: 1 }, defaults)).toEqual({ difficulty: 'easy' });
+        expect(policy.decide({ ...succeeding(19), failures: 1, failureStreak: 1 }, defaults)).toEqual({});
+    });
+
+    it('restricts a lockdown to hardened types', () => {
+        const policy = new DefaultDifficultyPolicy();
+        const mixed = { difficulty: 'easy' as const, challengeTypes: ['encoded_instruction' as const, 'code_transform' as const] };
+
+        expect(policy.decide(failing(4), mixed)).toMatchObject({ difficulty: 'hard', challengeTypes: ['code_transform'] });
+        expect(policy.decide(failing(4), { ...mixed, challengeTypes: ['encoded_instruction'] }).challengeTypes)
+            .toEqual(['chained_operations', 'code_transform', 'function_execution']);
+    });
+
+    it('lengthens lockdown chains with the failure streak', () => {
+        const policy = new DefaultDifficultyPolicy();
+
+        expect(policy.decide(failing(4), defaults)).toMatchObject({ difficulty: 'hard', chainLength: 9 });
+        expect(policy.decide(failing(5), defaults).chainLength).toBe(11);
+    });
+
+    it('caps lockdown chains at maxChainLength', () => {
+        expect(new DefaultDifficultyPolicy().decide(failing(10_000), defaults).chainLength).toBe(15);
+        expect(new DefaultDifficultyPolicy({ maxChainLength: 10 }).decide(failing(6), defaults).chainLength).toBe(10);
+    });
+});
+
+describe('AdaptiveDifficulty', () => {
+    it('records successes, failures and streaks', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(1_700_000_000_000);
+        const adaptive = new AdaptiveDifficulty({}, defaults);
+
+        await adaptive.record('agent', { success: false });
+        await adaptive.record('agent', { success: false });
+        expect(await adaptive.getHistory('agent')).toEqual({ successes: 0, failures: 2, failureStreak: 2, updatedAt: 1_700_000_000_000 });
+
+        await adaptive.record('agent', { success: true });
+        expect(await adaptive.getHistory('agent')).toMatchObject({ successes: 1, failures: 2, failureStreak: 0 });
+        expect(await adaptive.getHistory('other')).toBeUndefined();
+
+        adaptive.destroy();
+    });
+
+    it('keeps a moving average of solve times', async () => {
+        const adaptive = new AdaptiveDifficulty({}, defaults);
+
+        await adaptive.record('agent', { success: true });
+        expect((await adaptive.getHistory('agent'))?.averageSolveMs).toBeUndefined();
+
+        await adaptive.record('agent', { success: true, solveMs: 1000 });
+        expect((await adaptive.getHistory('agent'))?.averageSolveMs).toBe(1000);
+
+        await adaptive.record('agent', { success: true, solveMs: 2000 });
+        expect((await adaptive.getHistory('agent'))?.averageSolveMs).toBe(1300);
+
+        // Failures carry no solve time and leave the average alone
+        await adaptive.record('agent', { success: false });
+        expect((await adaptive.getHistory('agent'))?.averageSolveMs).toBe(1300);
+
+        adaptive.destroy();
+    });
+
+    it('selects harder challenges as failures accumulate and easier ones after a clean record', async () => {
+        const adaptive = new AdaptiveDifficulty({}, defaults);
+
+        await adaptive.record('failing', { success: false });
+        await adaptive.record('failing', { success: false });
+        expect(await adaptive.select('failing')).toEqual({ difficulty: 'hard' });
+
+        for (let i = 0; i < 5; i++) {
+            await adaptive.record('clean', { success: true, solveMs: 100 });
+        }
+        expect(await adaptive.select('clean')).toEqual({ difficulty: 'easy' });
+
+        await adaptive.record('slow', { success: true, solveMs: 20000 });
+        expect(await adaptive.select('slow')).toEqual({ difficulty: 'hard' });
+
+        adaptive.destroy();
+    });
+
+    it('keeps histories in a supplied store with the configured TTL', async () => {
+        const store = new RecordingHistoryStore();
+        const adaptive = new AdaptiveDifficulty({ store, historyTtlMs: 60000 }, defaults);
+
+        await adaptive.record('agent', { success: false });
+        expect(store.histories.get('agent')).toMatchObject({ failures: 1, failureStreak: 1 });
+        expect(store.ttls).toEqual([60000]);
+
+        // Histories written elsewhere, e.g. by another instance, are picked up
+        store.histories.set('shared', failing(2));
+        expect(await adaptive.select('shared')).toEqual({ difficulty: 'hard' });
+
+        adaptive.destroy();
+        expect(store.histories.size).toBe(2);
+    });
+
+    it('passes the history and defaults to a custom policy', async () => {
+        const decide = vi.fn<Parameters<DifficultyPolicy['decide']>, ReturnType<DifficultyPolicy['decide']>>(() => ({ type: 'proof_of_work' }));
+        const adaptive = new AdaptiveDifficulty({ policy: { decide } }, defaults);
+
+        expect(await adaptive.select('agent')).toEqual({ type: 'proof_of_work' });
+        expect(decide).toHaveBeenLastCalledWith(undefined, defaults);
+
+        await adaptive.record('agent', { success: true });
+        await adaptive.select('agent');
+        expect(decide).toHaveBeenLastCalledWith(expect.objectContaining({ successes: 1 }), defaults);
+
+        adaptive.destroy();
+    });
+});
+
+describe('adaptive overrides', () => {
+    it('are applied by ChallengeGenerator', async () => {
+        const generator = new ChallengeGenerator({ secret: 's', challengeTypes: ['encoded_instruction'], difficulty: 'easy' });
+        const overrides = new DefaultDifficultyPolicy().decide(failing(5), { difficulty: 'easy', challengeTypes: ['encoded_instruction'] });
+
+        for (let round = 0; round < 10; round++) {
+            const { challenge } = await generator.generate(overrides);
+
+            expect(challenge.difficulty).toBe('hard');
+            expect(['chained_operations', 'code_transform', 'function_execution']).toContain(challenge.type);
+            if (challenge.type === 'chained_operations') {
+                expect((challenge.payload as ChainedOperationsPayload).operations).toHaveLength(11);
+            }
+        }
+
+        const { challenge } = await generator.generate({ ...overrides, type: 'chained_operations' });
+        expect((challenge.payload as ChainedOperationsPayload).operations).toHaveLength(11);
+    });
+
+    it('are applied by CaptchaLM.generate from the client history', async () => {
+        const captchalm = new CaptchaLM({
+            secret: 's',
+            challengeTypes: ['encoded_instruction'],
+            difficulty: 'medium',
+            adaptiveDifficulty: {},
+        });
+
+        const first = await captchalm.generate({ client: 'agent' });
+        expect(first.challenge.difficulty).toBe('medium');
+
+        expect((await captchalm.verify(first.challenge, 'wrong', 'agent')).errorCode).toBe('INVALID_SOLUTION');
+        expect((await captchalm.verify(first.challenge, 'wrong', 'agent')).errorCode).toBe('INVALID_SOLUTION');
+        expect(await captchalm.getClientHistory('agent')).toMatchObject({ failures: 2, failureStreak: 2 });
+
+        expect((await captchalm.generate({ client: 'agent' })).challenge.difficulty).toBe('hard');
+        expect((await captchalm.generate({ client: 'other' })).challenge.difficulty).toBe('medium');
+
+        // Explicit options take precedence
+        expect((await captchalm.generate({ client: 'agent', difficulty: 'easy' })).challenge.difficulty).toBe('easy');
+
+        captchalm.destroy();
+    });
+});
@@ -0,0 +1,206 @@
+/**
+ * Adaptive difficulty for CaptchaLM
+ *
+ * Tracks each client's verification history and lets a policy pick harder
+ * challenges for suspicious clients and easier ones for clients with a
+ * clean record.
+ */
+
+import type {
+    AdaptiveDifficultyConfig,
+    ChallengeDifficulty,
+    ChallengeOverrides,
+    ChallengeType,
+    ClientHistory,
+    ClientHistoryStoreAdapter,
+    DifficultyPolicy,
+} from './types';
+import { MemoryClientHistoryStore } from '../storage/memory';
+
+const DIFFICULTY_LEVELS: ChallengeDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Types with large answer spaces that take real computation
+ */
+const HARDENED_TYPES: ChallengeType[] = ['chained_operations', 'code_transform', 'function_execution'];
+
+/**
+ * Weight of the newest sample in the solve time moving average
+ */
+const SOLVE_TIME_WEIGHT = 0.3;
+
+/**
+ * Default policy options
+ */
+export interface DefaultDifficultyPolicyOptions {
+    /** Failure streak that raises difficulty one level (default 2) */
+    escalateAfterFailures?: number;
+    /** Failure streak that also restricts challenge types and lengthens chains (default 4) */
+    lockdownAfterFailures?: number;
+    /** Average solve time above which a client looks human-driven (ms, default 10000) */
+    slowSolveMs?: number;
+    /** Successes with a failure rate under 10% that lower difficulty one level (default 5) */
+    relaxAfterSuccesses?: number;
+    /** Longest operation chain a lockdown can reach, bounding generation cost (default 15) */
+    maxChainLength?: number;
+}
+
+/**
+ * Default difficulty policy
+ *
+ * - Failure streaks and slow solves raise difficulty; a long streak also
+ *   restricts to hardened challenge types with longer operation chains.
+ * - A run of successes with few failures lowers difficulty one level.
+ */
+export class DefaultDifficultyPolicy implements DifficultyPolicy {
+    private options: Required<DefaultDifficultyPolicyOptions>;
+
+    constructor(options?: DefaultDifficultyPolicyOptions) {
+        this.options = {
+            escalateAfterFailures: 2,
+            lockdownAfterFailures: 4,
+            slowSolveMs: 10000,
+            relaxAfterSuccesses: 5,
+            maxChainLength: 15,
+            ...options,
+        };
+    }
+
+    decide(
+        history: ClientHistory | undefined,
+        defaults: { difficulty: ChallengeDifficulty; challengeTypes: ChallengeType[] }
+    ): ChallengeOverrides {
+        if (!history) {
+            return {};
+        }
+
+        const base = DIFFICULTY_LEVELS.indexOf(defaults.difficulty);
+
+        if (history.failureStreak >= this.options.lockdownAfterFailures) {
+            const types = defaults.challengeTypes.filter(type => HARDENED_TYPES.includes(type));
+
+            return {
+                difficulty: 'hard',
+                challengeTypes: types.length > 0 ? types : HARDENED_TYPES,
+                // Two more operations for every streak step past the threshold,
+                // capped since streaks persist as long as the history does
+                chainLength: Math.min(
+                    7 + 2 * (history.failureStreak - this.options.lockdownAfterFailures + 1),
+                    this.options.maxChainLength
+                ),
+            };
+        }
+
+        const slow = history.averageSolveMs !== undefined && history.averageSolveMs > this.options.slowSolveMs;
+
+        if (history.failureStreak >= this.options.escalateAfterFailures || slow) {
+            return { difficulty: DIFFICULTY_LEVELS[Math.min(base + 1, DIFFICULTY_LEVELS.length - 1)] };
+        }
+
+        const attempts = history.successes + history.failures;
+        const clean =
+            history.successes >= this.options.relaxAfterSuccesses &&
+            history.failureStreak === 0 &&
+            history.failures / attempts < 0.1;
+
+        if (clean) {
+            return { difficulty: DIFFICULTY_LEVELS[Math.max(base - 1, 0)] };
+        }
+
+        return {};
+    }
+}
+
+/**
+ * Records client outcomes and applies a difficulty policy
+ */
+export class AdaptiveDifficulty {
+    private policy: DifficultyPolicy;
+    private store: ClientHistoryStoreAdapter;
+    private ownsStore: boolean;
+    private historyTtlMs: number;
+    private defaults: { difficulty: ChallengeDifficulty; challengeTypes: ChallengeType[] };
+
+    constructor(
+        config: AdaptiveDifficultyConfig,
+        defaults: { difficulty: ChallengeDifficulty; challengeTypes: ChallengeType[] }
+    ) {
+        this.policy = config.policy ?? new DefaultDifficultyPolicy();
+        this.ownsStore = !config.store;
+        this.store = config.store ?? new MemoryClientHistoryStore();
+        this.historyTtlMs = config.historyTtlMs ?? 86400000; // 24 hours
+        this.defaults = defaults;
+    }
+
+    /**
+     * Choose challenge options for a client
+     */
+    async select(clientIdentifier: string): Promise<ChallengeOverrides> {
+        const history = await this.store.get(clientIdentifier);
+        return this.policy.decide(history, this.defaults);
+    }
+
+    /**
+     * Record a verification outcome
+     * Not atomic: concurrent updates for one client may drop a sample.
+     */
+    async record(clientIdentifier: string, outcome: { success: boolean; solveMs?: number }): Promise<void> {
+        const history: ClientHistory = (await this.store.get(clientIdentifier)) ?? {
+            successes: 0,
+            failures: 0,
+            failureStreak: 0,
+            updatedAt: 0,
+        };
+
+        if (outcome.success) {
+            history.successes++;
+            history.failureStreak = 0;
+
+            if (outcome.solveMs !== undefined) {
+                history.averageSolveMs = history.averageSolveMs === undefined
+                    ? outcome.solveMs
+                    : history.averageSolveMs + SOLVE_TIME_WEIGHT * (outcome.solveMs - history.averageSolveMs);
+            }
+        } else {
+            history.failures++;
+            history.failureStreak++;
+        }
+
+        history.updatedAt = Date.now();
+
+        await this.store.set(clientIdentifier, history, this.historyTtlMs);
+    }
+
+    /**
+     * Get a client's recorded history
+     */
+    async getHistory(clientIdentifier: string): Promise<ClientHistory | undefined> {
+        return this.store.get(clientIdentifier);
+    }
+
+    /**
+     * Release resources; a store passed in via config is left untouched
+     */
+    destroy(): void {
+        if (this.ownsStore) {
+            void this.store.clear();
+        }
+    }
+}
+
+/**
+ * Create the default difficulty policy
+ */
+export function createDefaultDifficultyPolicy(options?: DefaultDifficultyPolicyOptions): DefaultDifficultyPolicy {
+    return new DefaultDifficultyPolicy(options);
+}
+
+/**
+ * Create an adaptive difficulty tracker
+ */
+export function createAdaptiveDifficulty(
+    config: AdaptiveDifficultyConfig,
+    defaults: { difficulty: ChallengeDifficulty; challengeTypes: ChallengeType[] }
+): AdaptiveDifficulty {
+    return new AdaptiveDifficulty(config, defaults);
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeBody, computeRequestBinding } from './binding';
+import { CaptchaLM } from '../server/standalone';
+
+const body = { amount: 10, to: { name: 'Ada', account: 'A-1' }, tags: ['x', 'y'] };
+const reordered = { tags: ['x', 'y'], to: { account: 'A-1', name: 'Ada' }, amount: 10 };
+
+describe('canonicalizeBody', () => {
+    it('ignores key order at every depth', () => {
+        expect(canonicalizeBody(reordered)).toBe(canonicalizeBody(body));
+        expect(canonicalizeBody(body)).toBe('{"amount":10,"tags":["x","y"],"to":{"account":"A-1","name":"Ada"}}');
+    });
+
+    it('leaves out the challenge field', () => {
+        expect(canonicalizeBody({ ...body, _CaptchaLMChallenge: { id: 'c1' } })).toBe(canonicalizeBody(body));
+    });
+
+    it('treats missing and empty bodies alike', () => {
+        for (const empty of [undefined, null, '', {}, { _CaptchaLMChallenge: { id: 'c1' } }]) {
+            expect(canonicalizeBody(empty), JSON.stringify(empty)).toBe('');
+        }
+    });
+});
+
+describe('computeRequestBinding', () => {
+    it('matches requests that differ only in key order or method case', async () => {
+        const binding = await computeRequestBinding('POST', '/api/transfer', body);
+
+        expect(await computeRequestBinding('post', '/api/transfer', reordered)).toBe(binding);
+    });
+
+    it('differs when the method, path or body differ', async () => {
+        const binding = await computeRequestBinding('POST', '/api/transfer', body);
+
+        expect(await computeRequestBinding('PUT', '/api/transfer', body)).not.toBe(binding);
+        expect(await computeRequestBinding('POST', '/api/transfer/', body)).not.toBe(binding);
+        expect(await computeRequestBinding('POST', '/api/transfer', { ...body, amount: 1000 })).not.toBe(binding);
+        expect(await computeRequestBinding('POST', '/api/transfer', { ...body, tags: ['y', 'x'] })).not.toBe(binding);
+    });
+});
+
+describe('bound challenge verification', () => {
+    const config = { secret: 's', challengeTypes: ['encoded_instruction' as const] };
+
+    it.each([
+        ['a different method', () => computeRequestBinding('PUT', '/api/transfer', body)],
+        ['a different path', () => computeRequestBinding('POST', '/api/other', body)],
+        ['a different body', () => computeRequestBinding('POST', '/api/transfer', { ...body, amount: 1000 })],
+        ['no binding', async () => undefined],
+    ])('rejects a solution sent with %s', async (_, bindingFor) => {
+        const captchalm = new CaptchaLM(config);
+        const { challenge, expectedAnswer } = await captchalm.generate({
+            binding: await computeRequestBinding('POST', '/api/transfer', body),
+        });
+        const context = { binding: await bindingFor() };
+
+        for (const result of [
+            await captchalm.verify(challenge, expectedAnswer, 'agent', context),
+            await captchalm.verifyStateless(challenge, expectedAnswer, 'agent', context),
+        ]) {
+            expect(result).toMatchObject({ valid: false, errorCode: 'BINDING_MISMATCH' });
+        }
+
+        // A mismatch doesn't use up the challenge
+        const binding = await computeRequestBinding('POST', '/api/transfer', body);
+        expect((await captchalm.verify(challenge, expectedAnswer, 'agent', { binding })).valid).toBe(true);
+
+        captchalm.destroy();
+    });
+
+    it('accepts the same body with its keys in another order', async () => {
+        const captchalm = new CaptchaLM(config);
+        const { challenge, expectedAnswer } = await captchalm.generate({
+            binding: await computeRequestBinding('POST', '/api/transfer', body),
+        });
+        const binding = await computeRequestBinding('POST', '/api/transfer', reordered);
+
+        expect((await captchalm.verifyStateless(challenge, expectedAnswer, 'agent', { binding })).valid).toBe(true);
+        expect((await captchalm.verify(challenge, expectedAnswer, 'agent', { binding })).valid).toBe(true);
+
+        captchalm.destroy();
+    });
+});
@@ -0,0 +1,43 @@
+/**
+ * Request binding for CaptchaLM challenges
+ *
+ * A bound challenge carries a digest of the request it was issued for,
+ * so its solution can't be replayed against a different route or body.
+ */
+
+import { canonicalize } from '../utils/canonical';
+import { sha256 } from '../utils/crypto';
+
+/**
+ * Body field carrying the challenge, excluded from the digest
+ */
+const CHALLENGE_BODY_FIELD = '_CaptchaLMChallenge';
+
+/**
+ * Canonical form of a request body, ignoring the challenge field
+ * Missing and empty object bodies both canonicalize to ''
+ */
+export function canonicalizeBody(body: unknown): string {
+    if (body === undefined || body === null || body === '') {
+        return '';
+    }
+
+    if (typeof body === 'object' && !Array.isArray(body)) {
+        const { [CHALLENGE_BODY_FIELD]: _challenge, ...rest } = body as Record<string, unknown>;
+
+        if (Object.keys(rest).length === 0) {
+            return '';
+        }
+
+        return canonicalize(rest);
+    }
+
+    return canonicalize(body);
+}
+
+/**
+ * Compute the binding digest for a request
+ */
+export function computeRequestBinding(method: string, path: string, body: unknown): Promise<string> {
+    return sha256(`${method.toUpperCase()}\n${path}\n${canonicalizeBody(body)}`);
+}
@@ -3,6 +3,7 @@
  */
 
 import type { EncodingType } from './types';
+import { base64ToBytes, bytesToBase64, bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '../utils/bytes';
 
 /**
  * Encode a value using the specified encoding
@@ -44,28 +45,28 @@ export function decode(value: string, encoding: EncodingType): string {
  * Base64 encode a string
  */
 export function encodeBase64(value: string): string {
-    return Buffer.from(value, 'utf-8').toString('base64');
+    return bytesToBase64(utf8ToBytes(value));
 }
 
 /**
  * Base64 decode a string
  */
 export function decodeBase64(value: string): string {
-    return Buffer.from(value, 'base64').toString('utf-8');
+    return bytesToUtf8(base64ToBytes(value));
 }
 
 /**
  * Hex encode a string
  */
 export function encodeHex(value: string): string {
-    return Buffer.from(value, 'utf-8').toString('hex');
+    return bytesToHex(utf8ToBytes(value));
 }
 
 /**
  * Hex decode a string
  */
 export function decodeHex(value: string): string {
-    return Buffer.from(value, 'hex').toString('utf-8');
+    return bytesToUtf8(hexToBytes(value));
 }
 
 /**
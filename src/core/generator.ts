@@ -13,15 +13,21 @@ import type {
     ChainedOperation,
     EncodingType,
     CaptchaLMConfig,
+    ChallengeOverrides,
 } from './types';
 import { encode } from './encoding';
-import { generateId, signChallenge, randomInt, randomElement } from '../utils/crypto';
-import { getRandomFunction } from '../functions';
+import { buildSignatureData, SIGNATURE_VERSION } from './signature';
+import { createProofOfWorkPayload, PROOF_OF_WORK_ANSWER } from './proof-of-work';
+import { generateProgram } from './program';
+import { obfuscateCode } from './obfuscator';
+import { generateId, randomInt, randomElement } from '../utils/crypto';
+import { Keyring, createKeyring, signWithKey, signedAnswer } from '../utils/keyring';
+import { getRandomFunction, getFunctionSource } from '../functions';
 
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: Required<Omit<CaptchaLMConfig, 'secret'>> = {
+const DEFAULT_CONFIG: Required<Omit<CaptchaLMConfig, 'secret' | 'keys' | 'challengeStore' | 'challengeAttemptStore' | 'replayLedger' | 'accessTokens' | 'clientIdentifier' | 'adaptiveDifficulty' | 'solveTime'>> = {
     difficulty: 'medium',
     challengeTypes: ['function_execution', 'chained_operations', 'encoded_instruction'],
     expirationMs: 30000, // 30 seconds
@@ -29,58 +35,78 @@ const DEFAULT_CONFIG: Required<Omit<CaptchaLMConfig, 'secret'>> = {
         maxAttempts: 10,
         windowMs: 60000,
     },
+    maxAttemptsPerChallenge: 3,
+    functionSource: 'registry',
+    obfuscateFunctions: true,
 };
 
 /**
  * Challenge generator class
  */
 export class ChallengeGenerator {
-    private config: Required<CaptchaLMConfig>;
+    private config: Required<Omit<CaptchaLMConfig, 'secret' | 'keys' | 'challengeStore' | 'challengeAttemptStore' | 'replayLedger' | 'accessTokens' | 'clientIdentifier' | 'adaptiveDifficulty' | 'solveTime'>>;
+    private keyring: Keyring;
 
     constructor(config: CaptchaLMConfig) {
         this.config = {
             ...DEFAULT_CONFIG,
             ...config,
         };
+        this.keyring = createKeyring(config);
     }
 
     /**
      * Generate a new challenge
      */
-    generate(overrides?: Partial<{ type: ChallengeType; difficulty: ChallengeDifficulty }>): {
+    async generate(overrides?: ChallengeOverrides): Promise<{
         challenge: Challenge;
         expectedAnswer: string;
-    } {
-        const type = overrides?.type ?? randomElement(this.config.challengeTypes);
+    }> {
+        const type = overrides?.type ?? randomElement(overrides?.challengeTypes ?? this.config.challengeTypes);
         const difficulty = overrides?.difficulty ?? this.config.difficulty;
 
         // Generate payload based on type
-        const { payload, expectedAnswer } = this.generatePayload(type, difficulty);
+        const { payload, expectedAnswer } = this.generatePayload(type, difficulty, overrides?.chainLength);
 
         // Create challenge object
         const id = generateId();
-        const expiresAt = Date.now() + this.config.expirationMs;
+        const issuedAt = Date.now();
+        const expiresAt = issuedAt + this.config.expirationMs;
+        const key = this.keyring.getActiveKey();
 
-        // Create signature data
-        const signatureData = JSON.stringify({
-            id,
-            type,
-            payload,
-            expiresAt,
-            expectedAnswer,
-        });
+        const binding = overrides?.binding;
+        const answer = await signedAnswer(key, id, expectedAnswer);
+
+        const signatureData = buildSignatureData(
+            { id, type, difficulty, payload, issuedAt, expiresAt, ...answer, kid: key.kid, binding },
+            SIGNATURE_VERSION
+        );
 
-        const signature = signChallenge(signatureData, this.config.secret);
+        const signature = await signWithKey(key, signatureData);
 
         const challenge: Challenge = {
             id,
             type,
             difficulty,
             payload,
+            issuedAt,
             expiresAt,
             signature,
+            signatureVersion: SIGNATURE_VERSION,
         };
 
+        if (key.kid !== undefined) {
+            challenge.kid = key.kid;
+        }
+
+        if (binding !== undefined) {
+            challenge.binding = binding;
+        }
+
+        if ('answerCommitment' in answer) {
+            challenge.answerCommitment = answer.answerCommitment;
+        }
+
         return { challenge, expectedAnswer };
     }
 
@@ -89,19 +115,23 @@ export class ChallengeGenerator {
      */
     private generatePayload(
         type: ChallengeType,
-        difficulty: ChallengeDifficulty
+        difficulty: ChallengeDifficulty,
+        chainLength?: number
     ): { payload: ChallengePayload; expectedAnswer: string } {
         switch (type) {
             case 'function_execution':
                 return this.generateFunctionExecution(difficulty);
             case 'chained_operations':
-                return this.generateChainedOperations(difficulty);
+                return this.generateChainedOperations(difficulty, chainLength);
             case 'encoded_instruction':
                 return this.generateEncodedInstruction(difficulty);
             case 'pattern_extraction':
                 return this.generatePatternExtraction(difficulty);
             case 'code_transform':
                 return this.generateCodeTransform(difficulty);
+            case 'proof_of_work':
+                // Any nonce meeting the target is valid, so nothing to precompute
+                return { payload: createProofOfWorkPayload(difficulty), expectedAnswer: PROOF_OF_WORK_ANSWER };
             default:
                 throw new Error(`Unknown challenge type: ${type}`);
         }
@@ -114,6 +144,11 @@ export class ChallengeGenerator {
         payload: FunctionExecutionPayload;
         expectedAnswer: string;
     } {
+        const source = this.config.functionSource;
+        if (source === 'generated' || (source === 'mixed' && randomInt(0, 1) === 0)) {
+            return this.generateProgramExecution(difficulty);
+        }
+
         // Get a random function matching difficulty
         const func = getRandomFunction(difficulty);
 
@@ -130,11 +165,11 @@ export class ChallengeGenerator {
         const expectedAnswer = encode(String(result), responseEncoding);
 
         // Generate function code string
-        const functionCode = this.getFunctionCodeString(func.name);
+        const { functionName, functionCode } = this.obfuscate(func.name, getFunctionSource(func.name), difficulty);
 
         const payload: FunctionExecutionPayload = {
             type: 'function_execution',
-            functionName: func.name,
+            functionName,
             functionCode,
             parameters,
             responseEncoding,
@@ -143,14 +178,51 @@ export class ChallengeGenerator {
         return { payload, expectedAnswer };
     }
 
+    /**
+     * Generate a function execution challenge from a freshly synthesized program
+     */
+    private generateProgramExecution(difficulty: ChallengeDifficulty): {
+        payload: FunctionExecutionPayload;
+        expectedAnswer: string;
+    } {
+        const program = generateProgram(difficulty);
+        const responseEncoding = this.getResponseEncoding(difficulty);
+        const { functionName, functionCode } = this.obfuscate(program.name, program.code, difficulty);
+
+        const payload: FunctionExecutionPayload = {
+            type: 'function_execution',
+            functionName,
+            functionCode,
+            parameters: program.parameters,
+            responseEncoding,
+        };
+
+        return { payload, expectedAnswer: encode(String(program.result), responseEncoding) };
+    }
+
+    /**
+     * Obfuscate function code when enabled
+     */
+    private obfuscate(name: string, code: string, difficulty: ChallengeDifficulty): {
+        functionName: string;
+        functionCode: string;
+    } {
+        if (!this.config.obfuscateFunctions) {
+            return { functionName: name, functionCode: code };
+        }
+
+        const obfuscated = obfuscateCode(code, difficulty);
+        return { functionName: obfuscated.functionName ?? name, functionCode: obfuscated.code };
+    }
+
     /**
      * Generate a chained operations challenge
      */
-    private generateChainedOperations(difficulty: ChallengeDifficulty): {
+    private generateChainedOperations(difficulty: ChallengeDifficulty, chainLength?: number): {
         payload: ChainedOperationsPayload;
         expectedAnswer: string;
     } {
-        const operationCount = difficulty === 'easy' ? 3 : difficulty === 'medium' ? 5 : 7;
+        const operationCount = chainLength ?? (difficulty === 'easy' ? 3 : difficulty === 'medium' ? 5 : 7);
         const initialValue = randomInt(10, 100);
 
         const operations: ChainedOperation[] = [];
@@ -458,6 +530,12 @@ export class ChallengeGenerator {
             }
 
             // Composite functions
+            case 'applyChainedOperations': {
+                const { payload } = this.generateChainedOperations(difficulty);
+                return [payload.initialValue, payload.operations];
+            }
+            case 'evaluateExpression':
+                return [this.generateExpression(difficulty === 'hard' ? 3 : 2)];
             case 'evaluatePolynomial':
                 return [randomInt(1, 5), randomInt(1, 10), randomInt(1, 10), randomInt(1, 5)];
             case 'weightedSum': {
@@ -474,6 +552,16 @@ export class ChallengeGenerator {
         }
     }
 
+    /**
+     * Generate a nested [op, left, right] expression of the given depth
+     */
+    private generateExpression(depth: number): unknown {
+        if (depth === 0) {
+            return randomInt(1, 20);
+        }
+        return [randomElement(['+', '-', '*']), this.generateExpression(depth - 1), this.generateExpression(depth - 1)];
+    }
+
     /**
      * Generate random words joined by spaces
      */
@@ -530,66 +618,6 @@ export class ChallengeGenerator {
         }
         return arr;
     }
-
-    /**
-     * Get function code as string (for display)
-     */
-    private getFunctionCodeString(functionName: string): string {
-        // Return a simplified version of the function for the challenge
-        const codeMap: Record<string, string> = {
-            fibonacci: `function fibonacci(n) {
-  if (n <= 1) return n;
-  let a = 0, b = 1;
-  for (let i = 2; i <= n; i++) {
-    const temp = a + b;
-    a = b;
-    b = temp;
-  }
-  return b;
-}`,
-            isPrime: `function isPrime(n) {
-  if (n < 2) return false;
-  if (n === 2) return true;
-  if (n % 2 === 0) return false;
-  for (let i = 3; i <= Math.sqrt(n); i += 2) {
-    if (n % i === 0) return false;
-  }
-  return true;
-}`,
-            gcd: `function gcd(a, b) {
-  a = Math.abs(a);
-  b = Math.abs(b);
-  while (b !== 0) {
-    const temp = b;
-    b = a % b;
-    a = temp;
-  }
-  return a;
-}`,
-            digitSum: `function digitSum(n) {
-  n = Math.abs(n);
-  let sum = 0;
-  while (n > 0) {
-    sum += n % 10;
-    n = Math.floor(n / 10);
-  }
-  return sum;
-}`,
-            countVowels: `function countVowels(str) {
-  const vowels = 'aeiouAEIOU';
-  let count = 0;
-  for (const char of str) {
-    if (vowels.includes(char)) count++;
-  }
-  return count;
-}`,
-            sumEvens: `function sumEvens(arr) {
-  return arr.filter(n => n % 2 === 0).reduce((a, b) => a + b, 0);
-}`,
-        };
-
-        return codeMap[functionName] || `function ${functionName}(...args) { /* implementation */ }`;
-    }
 }
 
 /**
@@ -6,3 +6,10 @@ export * from './types';
 export * from './encoding';
 export * from './generator';
 export * from './verifier';
+export * from './tokens';
+export * from './binding';
+export * from './signature';
+export * from './adaptive';
+export * from './proof-of-work';
+export * from './program';
+export * from './obfuscator';
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { obfuscateCode } from './obfuscator';
+import { ChallengeGenerator } from './generator';
+import { allFunctions, getFunctionSource } from '../functions';
+import { interpretFunction } from '../client/interpreter';
+import { CaptchaLMSolver } from '../client/solver';
+import type { ChallengeDifficulty, FunctionExecutionPayload } from './types';
+
+const difficulties: ChallengeDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Parameters as the generator would pick them for a function challenge
+ */
+const generator = new ChallengeGenerator({ secret: 's' }) as unknown as {
+    generateParameters(functionName: string, difficulty: ChallengeDifficulty): unknown[];
+};
+
+/**
+ * Define a function from source and call it
+ */
+function evaluate(code: string, functionName: string, params: unknown[]): unknown {
+    const fn = new Function(`${code}\nreturn ${functionName};`)() as (...args: unknown[]) => unknown;
+    return fn(...structuredClone(params));
+}
+
+describe('function sources', () => {
+    it.each(allFunctions.map(func => [func.name, func] as const))('%s matches its implementation', (name, func) => {
+        const source = getFunctionSource(name);
+        expect(source).toMatch(new RegExp(`^function ${name}\\(`));
+
+        for (const difficulty of difficulties) {
+            const params = generator.generateParameters(name, difficulty);
+            const expected = func.fn(...structuredClone(params));
+
+            expect(evaluate(source, name, params)).toEqual(expected);
+            expect(interpretFunction(source, name, params)).toEqual(expected);
+        }
+    });
+});
+
+describe('obfuscateCode', () => {
+    it.each(allFunctions.map(func => [func.name, func] as const))('keeps %s equivalent', (name, func) => {
+        const source = getFunctionSource(name);
+
+        for (const difficulty of difficulties) {
+            for (let round = 0; round < 5; round++) {
+                const params = generator.generateParameters(name, difficulty);
+                const expected = func.fn(...structuredClone(params));
+                const { code, functionName } = obfuscateCode(source, difficulty);
+
+                // Every source has parameters to rename, so unchanged output means it was skipped
+                expect(code).not.toBe(source);
+                expect(functionName).toBeDefined();
+
+                expect(evaluate(code, functionName!, params)).toEqual(expected);
+                expect(interpretFunction(code, functionName!, params)).toEqual(expected);
+            }
+        }
+    });
+});
+
+describe('obfuscateFunctions', () => {
+    it.each(difficulties)('is on by default and still solvable in interpret mode (%s)', async (difficulty) => {
+        const defaults = new ChallengeGenerator({ secret: 's', challengeTypes: ['function_execution'], difficulty });
+        const solver = new CaptchaLMSolver({ codeExecution: 'interpret' });
+
+        for (let round = 0; round < 10; round++) {
+            const { challenge, expectedAnswer } = await defaults.generate();
+            const { functionName, functionCode } = challenge.payload as FunctionExecutionPayload;
+
+            expect(allFunctions.map(func => getFunctionSource(func.name))).not.toContain(functionCode);
+            expect(solver.solve(challenge), `${functionName}: ${functionCode}`).toMatchObject({ success: true, solution: expectedAnswer });
+        }
+    });
+
+    it('sends registry source as written when disabled', async () => {
+        const plain = new ChallengeGenerator({ secret: 's', challengeTypes: ['function_execution'], obfuscateFunctions: false });
+        const { challenge } = await plain.generate();
+        const { functionName, functionCode } = challenge.payload as FunctionExecutionPayload;
+
+        expect(functionCode).toBe(getFunctionSource(functionName));
+    });
+});
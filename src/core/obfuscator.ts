@@ -0,0 +1,700 @@
+/**
+ * Function code obfuscation for CaptchaLM
+ *
+ * Rewrites the source of `function_execution` challenges so the same
+ * function never looks the same twice: identifiers are renamed, independent
+ * statements reordered, dead code inserted and constants rewritten as
+ * expressions. Behaviour is unchanged.
+ *
+ * Works on tokens, not a full parse, and covers the JavaScript subset used by
+ * challenge code. Sources using template literals, regular expressions,
+ * object literals or destructuring are returned unchanged.
+ */
+
+import type { ChallengeDifficulty } from './types';
+import { generateId, randomElement, randomInt, shuffle } from '../utils/crypto';
+
+/**
+ * Obfuscation options
+ */
+export interface ObfuscationOptions {
+    /** Rename parameters and local variables */
+    renameLocals: boolean;
+    /** Rename the function itself */
+    renameFunction: boolean;
+    /** Share of integer literals rewritten as equivalent expressions (0-1) */
+    constantRewriteRate: number;
+    /** Split string literals into concatenations */
+    splitStrings: boolean;
+    /** Number of dead-code statements to insert */
+    deadCode: number;
+    /** Shuffle adjacent statements that don't depend on each other */
+    reorderStatements: boolean;
+}
+
+/**
+ * Options used for each difficulty
+ */
+export const OBFUSCATION_PRESETS: Record<ChallengeDifficulty, ObfuscationOptions> = {
+    easy: {
+        renameLocals: true,
+        renameFunction: false,
+        constantRewriteRate: 0.3,
+        splitStrings: false,
+        deadCode: 0,
+        reorderStatements: true,
+    },
+    medium: {
+        renameLocals: true,
+        renameFunction: false,
+        constantRewriteRate: 0.6,
+        splitStrings: false,
+        deadCode: 2,
+        reorderStatements: true,
+    },
+    hard: {
+        renameLocals: true,
+        renameFunction: true,
+        constantRewriteRate: 1,
+        splitStrings: true,
+        deadCode: 4,
+        reorderStatements: true,
+    },
+};
+
+interface Token {
+    type: 'space' | 'comment' | 'ident' | 'num' | 'str' | 'punct';
+    value: string;
+}
+
+/**
+ * Thrown for syntax outside the supported subset
+ */
+class UnsupportedSyntaxError extends Error {}
+
+const PUNCTUATORS = [
+    '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>',
+    '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--',
+    '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<', '>>',
+    '{', '}', '(', ')', '[', ']', ';', ',', '<', '>', '+', '-', '*', '/',
+    '%', '&', '|', '^', '!', '~', '?', ':', '=', '.',
+];
+
+const KEYWORDS = new Set([
+    'break', 'case', 'catch', 'const', 'continue', 'default', 'do', 'else', 'false',
+    'finally', 'for', 'function', 'if', 'in', 'instanceof', 'let', 'new', 'null', 'of',
+    'return', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var',
+    'void', 'while',
+]);
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '**=', '&=', '|=', '^=', '<<=', '>>=', '>>>=']);
+
+/**
+ * Methods that mutate their receiver; statements calling them are never reordered
+ */
+const MUTATING_METHODS = new Set(['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'set', 'delete', 'add', 'clear']);
+
+/**
+ * Split source into tokens, keeping whitespace and comments
+ */
+function tokenize(code: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < code.length) {
+        const rest = code.slice(i);
+        let match: RegExpMatchArray | null;
+
+        if ((match = rest.match(/^\s+/))) {
+            tokens.push({ type: 'space', value: match[0] });
+        } else if ((match = rest.match(/^\/\/[^\n]*|^\/\*[\s\S]*?\*\//))) {
+            tokens.push({ type: 'comment', value: match[0] });
+        } else if ((match = rest.match(/^[A-Za-z_$][\w$]*/))) {
+            tokens.push({ type: 'ident', value: match[0] });
+        } else if ((match = rest.match(/^(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)n?/))) {
+            tokens.push({ type: 'num', value: match[0] });
+        } else if ((match = rest.match(/^'(?:[^'\\\n]|\\.)*'|^"(?:[^"\\\n]|\\.)*"/))) {
+            tokens.push({ type: 'str', value: match[0] });
+        } else if (rest[0] === '`') {
+            throw new UnsupportedSyntaxError('Template literals are not supported');
+        } else {
+            const punct = PUNCTUATORS.find(candidate => rest.startsWith(candidate));
+            if (!punct) {
+                throw new UnsupportedSyntaxError(`Unexpected character: ${rest[0]}`);
+            }
+
+            if (punct === '/' || punct === '/=') {
+                // A slash where an operand is expected starts a regular expression
+                const previous = lastSignificant(tokens);
+                if (!previous || !isOperandEnd(previous)) {
+                    throw new UnsupportedSyntaxError('Regular expressions are not supported');
+                }
+            }
+
+            if (punct === '{') {
+                const previous = lastSignificant(tokens);
+                if (previous && ['=', '(', ',', ':', '?', '[', 'return', '||', '&&', '??'].includes(previous.value)) {
+                    throw new UnsupportedSyntaxError('Object literals are not supported');
+                }
+            }
+
+            tokens.push({ type: 'punct', value: punct });
+        }
+
+        i += tokens[tokens.length - 1].value.length;
+    }
+
+    return tokens;
+}
+
+function lastSignificant(tokens: Token[], before = tokens.length): Token | undefined {
+    for (let i = before - 1; i >= 0; i--) {
+        if (isSignificant(tokens[i])) {
+            return tokens[i];
+        }
+    }
+    return undefined;
+}
+
+function isSignificant(token: Token): boolean {
+    return token.type !== 'space' && token.type !== 'comment';
+}
+
+function isOperandEnd(token: Token): boolean {
+    if (token.type === 'ident') {
+        return !KEYWORDS.has(token.value) || ['this', 'true', 'false', 'null', 'undefined'].includes(token.value);
+    }
+    return token.type === 'num' || token.type === 'str' || token.value === ')' || token.value === ']';
+}
+
+/**
+ * Index of the next significant token at or after `from`
+ */
+function nextSignificant(tokens: Token[], from: number): number {
+    let i = from;
+    while (i < tokens.length && !isSignificant(tokens[i])) {
+        i++;
+    }
+    return i;
+}
+
+/**
+ * Index of the previous significant token before `from`
+ */
+function previousSignificant(tokens: Token[], from: number): number {
+    let i = from - 1;
+    while (i >= 0 && !isSignificant(tokens[i])) {
+        i--;
+    }
+    return i;
+}
+
+// ============================================================================
+// Renaming
+// ============================================================================
+
+/**
+ * Collect names declared by the function: its name, parameters and locals
+ */
+function collectDeclarations(tokens: Token[]): { functionName: string | undefined; locals: Set<string> } {
+    const locals = new Set<string>();
+    let functionName: string | undefined;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (token.type === 'ident' && token.value === 'function') {
+            const nameIndex = nextSignificant(tokens, i + 1);
+            let open = nameIndex;
+
+            if (tokens[nameIndex]?.type === 'ident') {
+                functionName ??= tokens[nameIndex].value;
+                open = nextSignificant(tokens, nameIndex + 1);
+            }
+
+            collectParameters(tokens, open, locals);
+        } else if (token.type === 'ident' && ['let', 'const', 'var'].includes(token.value)) {
+            collectDeclarators(tokens, i + 1, locals);
+        } else if (token.type === 'ident' && token.value === 'catch') {
+            collectParameters(tokens, nextSignificant(tokens, i + 1), locals);
+        } else if (token.value === '=>') {
+            const previous = previousSignificant(tokens, i);
+
+            if (tokens[previous].type === 'ident') {
+                locals.add(tokens[previous].value);
+            } else if (tokens[previous].value === ')') {
+                collectParameters(tokens, findOpening(tokens, previous), locals);
+            }
+        }
+    }
+
+    if (functionName !== undefined) {
+        locals.delete(functionName);
+    }
+
+    return { functionName, locals };
+}
+
+/**
+ * Collect parameter names from a parenthesized list starting at `open`
+ */
+function collectParameters(tokens: Token[], open: number, names: Set<string>): void {
+    if (tokens[open]?.value !== '(') {
+        return;
+    }
+
+    let depth = 0;
+    let expectName = true;
+
+    for (let i = open; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (token.value === '(' || token.value === '[' || token.value === '{') {
+            depth++;
+            if (depth > 1 && expectName) {
+                throw new UnsupportedSyntaxError('Destructuring parameters are not supported');
+            }
+        } else if (token.value === ')' || token.value === ']' || token.value === '}') {
+            depth--;
+            if (depth === 0) {
+                return;
+            }
+        } else if (depth === 1 && token.value === ',') {
+            expectName = true;
+        } else if (depth === 1 && expectName && token.type === 'ident') {
+            names.add(token.value);
+            expectName = false;
+        }
+    }
+}
+
+/**
+ * Collect names from a declaration list starting after let/const/var
+ */
+function collectDeclarators(tokens: Token[], start: number, names: Set<string>): void {
+    let depth = 0;
+    let expectName = true;
+
+    for (let i = start; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (!isSignificant(token)) {
+            continue;
+        }
+
+        if (expectName) {
+            if (token.type !== 'ident') {
+                throw new UnsupportedSyntaxError('Destructuring declarations are not supported');
+            }
+            names.add(token.value);
+            expectName = false;
+            continue;
+        }
+
+        if (token.value === '(' || token.value === '[' || token.value === '{') {
+            depth++;
+        } else if (token.value === ')' || token.value === ']' || token.value === '}') {
+            if (--depth < 0) {
+                return;
+            }
+        } else if (depth === 0 && (token.value === ';' || token.value === 'of' || token.value === 'in')) {
+            return;
+        } else if (depth === 0 && token.value === ',') {
+            expectName = true;
+        }
+    }
+}
+
+/**
+ * Index of the bracket opening the one closed at `close`
+ */
+function findOpening(tokens: Token[], close: number): number {
+    let depth = 0;
+
+    for (let i = close; i >= 0; i--) {
+        if (tokens[i].value === ')' || tokens[i].value === ']' || tokens[i].value === '}') {
+            depth++;
+        } else if (tokens[i].value === '(' || tokens[i].value === '[' || tokens[i].value === '{') {
+            if (--depth === 0) {
+                return i;
+            }
+        }
+    }
+
+    throw new UnsupportedSyntaxError('Unbalanced brackets');
+}
+
+/**
+ * Rename identifiers in place, skipping property names
+ */
+function renameIdentifiers(tokens: Token[], renames: Map<string, string>): void {
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const replacement = renames.get(token.value);
+
+        if (token.type !== 'ident' || replacement === undefined) {
+            continue;
+        }
+
+        const previous = previousSignificant(tokens, i);
+        if (previous >= 0 && (tokens[previous].value === '.' || tokens[previous].value === '?.')) {
+            continue;
+        }
+
+        token.value = replacement;
+    }
+}
+
+/**
+ * Generate an identifier not used anywhere in the source
+ */
+function freshName(taken: Set<string>): string {
+    let name: string;
+    do {
+        name = `_0x${generateId(2)}`;
+    } while (taken.has(name));
+
+    taken.add(name);
+    return name;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Rewrite an integer as an equivalent expression
+ */
+function rewriteInteger(value: number): string {
+    switch (randomInt(0, 2)) {
+        case 0: {
+            const left = randomInt(0, value + 50);
+            const right = value - left;
+            return right < 0 ? `(${left} - ${-right})` : `(${left} + ${right})`;
+        }
+        case 1: {
+            const factor = randomInt(2, 9);
+            return `(${Math.floor(value / factor)} * ${factor} + ${value % factor})`;
+        }
+        default: {
+            const mask = randomInt(1, 255);
+            return `(${value ^ mask} ^ ${mask})`;
+        }
+    }
+}
+
+/**
+ * Split a string literal into a concatenation, when it has no escapes
+ */
+function splitString(literal: string): string {
+    const quote = literal[0];
+    const body = literal.slice(1, -1);
+
+    if (body.length < 2 || body.includes('\\')) {
+        return literal;
+    }
+
+    const at = randomInt(1, body.length - 1);
+    return `(${quote}${body.slice(0, at)}${quote} + ${quote}${body.slice(at)}${quote})`;
+}
+
+function rewriteConstants(tokens: Token[], options: ObfuscationOptions): void {
+    for (const token of tokens) {
+        if (token.type === 'num' && /^\d+$/.test(token.value)) {
+            const value = Number(token.value);
+            if (value <= 0x7fffffff && randomInt(0, 99) < options.constantRewriteRate * 100) {
+                token.value = rewriteInteger(value);
+            }
+        } else if (token.type === 'str' && options.splitStrings) {
+            token.value = splitString(token.value);
+        }
+    }
+}
+
+// ============================================================================
+// Dead code
+// ============================================================================
+
+/**
+ * Build a statement whose condition never holds for an integer `name`
+ * (squares are 0 or 1 mod 4; n(n+1) is even; n*n is never -1)
+ */
+function deadStatement(name: string): string {
+    const condition = randomElement([
+        `(${name} * ${name}) % 4 === 2`,
+        `(${name} * (${name} + 1)) % 2 === 1`,
+        `${name} * ${name} === -1`,
+    ]);
+    const body = randomElement([
+        `${name} = (${name} + ${randomInt(1, 9)}) % ${randomInt(10, 99)};`,
+        `${name} -= ${randomInt(1, 9)};`,
+        `${name} = ${name} * ${randomInt(2, 9)};`,
+    ]);
+
+    return `if (${condition}) { ${body} }`;
+}
+
+/**
+ * Insert dead statements after top-level statements of the function body
+ */
+function insertDeadCode(tokens: Token[], count: number, taken: Set<string>): Token[] {
+    const bodyOpen = tokens.findIndex(token => token.value === '{');
+    if (bodyOpen === -1 || count <= 0) {
+        return tokens;
+    }
+
+    // Statement ends where another statement may follow
+    const candidates: number[] = [];
+    let parens = 0;
+
+    for (let i = bodyOpen + 1; i < tokens.length; i++) {
+        const value = tokens[i].value;
+
+        if (value === '(' || value === '[') {
+            parens++;
+        } else if (value === ')' || value === ']') {
+            parens--;
+        } else if (value === ';' && parens === 0) {
+            const next = tokens[nextSignificant(tokens, i + 1)];
+            if (next && next.value !== 'else' && next.value !== 'catch' && next.value !== 'finally' && next.value !== 'while') {
+                candidates.push(i);
+            }
+        }
+    }
+
+    if (candidates.length === 0) {
+        return tokens;
+    }
+
+    const name = freshName(taken);
+    const inserts = new Map<number, string[]>();
+
+    for (let n = 0; n < count; n++) {
+        const at = randomElement(candidates);
+        inserts.set(at, [...(inserts.get(at) ?? []), deadStatement(name)]);
+    }
+
+    const result: Token[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        result.push(tokens[i]);
+
+        if (i === bodyOpen) {
+            result.push({ type: 'space', value: indentAfter(tokens, i) }, ...tokenize(`let ${name} = ${randomInt(1, 99)};`));
+        }
+
+        for (const statement of inserts.get(i) ?? []) {
+            result.push({ type: 'space', value: indentAfter(tokens, i) }, ...tokenize(statement));
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Line break and indentation for a statement inserted after token `i`
+ */
+function indentAfter(tokens: Token[], i: number): string {
+    const next = tokens[i + 1];
+    if (tokens[i].value === '{' && next?.type === 'space' && next.value.includes('\n')) {
+        return next.value.slice(next.value.lastIndexOf('\n'));
+    }
+
+    // Match the line of the statement just ended
+    const before = tokens.slice(0, i + 1).map(token => token.value).join('');
+    const line = before.slice(before.lastIndexOf('\n') + 1);
+    return before.includes('\n') ? `\n${line.match(/^\s*/)?.[0] ?? ''}` : ' ';
+}
+
+// ============================================================================
+// Reordering
+// ============================================================================
+
+interface SimpleStatement {
+    tokens: Token[];
+    defines: Set<string>;
+    uses: Set<string>;
+}
+
+/**
+ * Parse a declaration or plain assignment ending in `;`, or return undefined
+ */
+function parseSimpleStatement(tokens: Token[], start: number): { statement: SimpleStatement; end: number } | undefined {
+    const first = tokens[start];
+    if (first?.type !== 'ident') {
+        return undefined;
+    }
+
+    const defines = new Set<string>();
+    const uses = new Set<string>();
+    let depth = 0;
+
+    if (['let', 'const', 'var'].includes(first.value)) {
+        collectDeclarators(tokens, start + 1, defines);
+    } else if (!KEYWORDS.has(first.value)) {
+        const operator = tokens[nextSignificant(tokens, start + 1)];
+        if (!operator || !ASSIGNMENT_OPERATORS.has(operator.value)) {
+            return undefined;
+        }
+        defines.add(first.value);
+    } else {
+        return undefined;
+    }
+
+    for (let i = start + 1; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (token.value === '{' || token.value === '}' || token.value === '++' || token.value === '--' || token.value === '=>') {
+            return undefined;
+        }
+
+        if (token.value === '(' || token.value === '[') {
+            depth++;
+        } else if (token.value === ')' || token.value === ']') {
+            // Closing an enclosing bracket: this is a for-loop clause, not a statement
+            if (--depth < 0) {
+                return undefined;
+            }
+        } else if (token.value === ';' && depth === 0) {
+            return { statement: { tokens: tokens.slice(start, i + 1), defines, uses }, end: i };
+        } else if (depth > 0 && ASSIGNMENT_OPERATORS.has(token.value)) {
+            return undefined;
+        } else if (token.type === 'ident') {
+            const previous = tokens[previousSignificant(tokens, i)];
+            if (previous?.value === '.' && MUTATING_METHODS.has(token.value)) {
+                return undefined;
+            }
+            if (previous?.value !== '.' && !KEYWORDS.has(token.value)) {
+                uses.add(token.value);
+            }
+        }
+    }
+
+    return undefined;
+}
+
+function independent(a: SimpleStatement, b: SimpleStatement): boolean {
+    for (const name of a.defines) {
+        if (b.defines.has(name) || b.uses.has(name)) {
+            return false;
+        }
+    }
+    for (const name of b.defines) {
+        if (a.uses.has(name)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Shuffle runs of adjacent simple statements, keeping dependent ones in order
+ */
+function reorderStatements(tokens: Token[]): Token[] {
+    const result: Token[] = [];
+    let i = 0;
+
+    while (i < tokens.length) {
+        const previous = lastSignificant(result);
+        const startsStatement = !previous || previous.value === '{' || previous.value === ';' || previous.value === '}';
+        const run: SimpleStatement[] = [];
+        const gaps: Token[][] = [];
+        let cursor = i;
+
+        if (startsStatement && isSignificant(tokens[i])) {
+            let parsed = parseSimpleStatement(tokens, cursor);
+
+            while (parsed) {
+                run.push(parsed.statement);
+                const next = nextSignificant(tokens, parsed.end + 1);
+                gaps.push(tokens.slice(parsed.end + 1, next));
+                cursor = next;
+                parsed = parseSimpleStatement(tokens, cursor);
+            }
+        }
+
+        if (run.length < 2) {
+            result.push(tokens[i]);
+            i++;
+            continue;
+        }
+
+        // Random topological order: take any statement independent of all earlier unplaced ones
+        const remaining = [...run];
+        const ordered: SimpleStatement[] = [];
+
+        while (remaining.length > 0) {
+            const ready = remaining.filter((statement, index) =>
+                remaining.slice(0, index).every(earlier => independent(earlier, statement))
+            );
+            const chosen = shuffle(ready)[0];
+            ordered.push(chosen);
+            remaining.splice(remaining.indexOf(chosen), 1);
+        }
+
+        ordered.forEach((statement, index) => {
+            result.push(...statement.tokens);
+            // Keep the final gap last so the block's trailing layout is preserved
+            result.push(...gaps[index]);
+        });
+
+        i = cursor;
+    }
+
+    return result;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Obfuscate a function's source
+ * Returns the source unchanged if it uses unsupported syntax.
+ */
+export function obfuscateCode(
+    code: string,
+    options: ObfuscationOptions | ChallengeDifficulty
+): { code: string; functionName: string | undefined } {
+    const resolved = typeof options === 'string' ? OBFUSCATION_PRESETS[options] : options;
+
+    let tokens: Token[];
+    let declarations: ReturnType<typeof collectDeclarations>;
+
+    try {
+        tokens = tokenize(code).filter(token => token.type !== 'comment');
+        declarations = collectDeclarations(tokens);
+    } catch (error) {
+        if (error instanceof UnsupportedSyntaxError) {
+            return { code, functionName: code.match(/function\s+([\w$]+)/)?.[1] };
+        }
+        throw error;
+    }
+
+    const taken = new Set(tokens.filter(token => token.type === 'ident').map(token => token.value));
+    const renames = new Map<string, string>();
+    let functionName = declarations.functionName;
+
+    if (resolved.renameLocals) {
+        for (const name of declarations.locals) {
+            renames.set(name, freshName(taken));
+        }
+    }
+
+    if (resolved.renameFunction && functionName !== undefined) {
+        const renamed = freshName(taken);
+        renames.set(functionName, renamed);
+        functionName = renamed;
+    }
+
+    renameIdentifiers(tokens, renames);
+
+    if (resolved.reorderStatements) {
+        tokens = reorderStatements(tokens);
+    }
+
+    // After reordering, which only moves plain statements
+    tokens = insertDeadCode(tokens, resolved.deadCode, taken);
+    rewriteConstants(tokens, resolved);
+
+    return { code: tokens.map(token => token.value).join(''), functionName };
+}
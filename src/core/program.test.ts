@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { generateProgram } from './program';
+import { ChallengeGenerator } from './generator';
+import { ChallengeVerifier } from './verifier';
+import { CaptchaLMSolver } from '../client/solver';
+import { runInSandbox } from '../client/sandbox';
+import type { ChallengeDifficulty, FunctionExecutionPayload, GeneratedProgram } from './types';
+
+const difficulties: ChallengeDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Programs generated per difficulty
+ */
+const ROUNDS = 200;
+
+/**
+ * Define a program's function from its source and call it
+ */
+function evaluate(program: GeneratedProgram): unknown {
+    const fn = new Function(`${program.code}\nreturn ${program.name};`)() as (...args: unknown[]) => unknown;
+    return fn(...structuredClone(program.parameters));
+}
+
+describe('generateProgram', () => {
+    it.each(difficulties)('returns the result of running the code (%s)', (difficulty) => {
+        for (let round = 0; round < ROUNDS; round++) {
+            const program = generateProgram(difficulty);
+
+            expect(program.code).toMatch(new RegExp(`^function ${program.name}\\(`));
+            expect(evaluate(program), program.code).toEqual(program.result);
+        }
+    });
+
+    it.each(difficulties)('returns a finite number or a string (%s)', (difficulty) => {
+        for (let round = 0; round < ROUNDS; round++) {
+            const { result, code } = generateProgram(difficulty);
+
+            if (typeof result === 'number') {
+                expect(Number.isFinite(result), code).toBe(true);
+            } else {
+                expect(typeof result, code).toBe('string');
+            }
+        }
+    });
+
+    it.each(difficulties)('terminates within the sandbox limits (%s)', (difficulty) => {
+        const programs = Array.from({ length: 50 }, () => generateProgram(difficulty));
+
+        // One sandbox run for the batch; each program is scoped so names can't collide
+        const calls = programs.map(({ code, name, parameters }) =>
+            `(() => { ${code}\nreturn ${name}(...${JSON.stringify(parameters)}); })()`
+        );
+        const results = runInSandbox(`[${calls.join(',\n')}]`, { timeoutMs: 2000 });
+
+        expect(results).toEqual(programs.map(program => program.result));
+    });
+});
+
+describe.each(['generated', 'mixed'] as const)("functionSource: '%s'", (functionSource) => {
+    it.each(difficulties)('issues function challenges the verifier accepts (%s)', async (difficulty) => {
+        const config = { secret: 's', challengeTypes: ['function_execution' as const], difficulty, functionSource };
+        const generator = new ChallengeGenerator(config);
+        const verifier = new ChallengeVerifier({ ...config, rateLimit: { maxAttempts: 1000, windowMs: 60000 } });
+
+        for (let round = 0; round < 20; round++) {
+            const { challenge, expectedAnswer } = await generator.generate();
+            expect(challenge.payload.type).toBe('function_execution');
+
+            await verifier.storeChallenge(challenge.id, expectedAnswer, challenge.expiresAt);
+            const result = await verifier.verify(challenge, { challengeId: challenge.id, solution: expectedAnswer }, 'agent');
+            expect(result.valid).toBe(true);
+        }
+
+        verifier.destroy();
+    });
+
+    it.each(difficulties)('is solved in interpret mode (%s)', async (difficulty) => {
+        const generator = new ChallengeGenerator({ secret: 's', challengeTypes: ['function_execution'], difficulty, functionSource });
+        const solver = new CaptchaLMSolver({ codeExecution: 'interpret' });
+
+        for (let round = 0; round < 50; round++) {
+            const { challenge, expectedAnswer } = await generator.generate();
+            const { functionCode } = challenge.payload as FunctionExecutionPayload;
+
+            expect(solver.solve(challenge), functionCode).toMatchObject({ success: true, solution: expectedAnswer });
+        }
+    });
+});
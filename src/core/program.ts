@@ -0,0 +1,531 @@
+/**
+ * Random program synthesis for CaptchaLM
+ *
+ * Builds small JavaScript functions from a typed AST grammar (loops,
+ * conditionals, arrays and string operations), so `function_execution`
+ * challenges can carry code nobody has seen before. Loops have constant
+ * bounds and their counters are never assigned, so every program
+ * terminates; the reference result comes from evaluating the AST directly,
+ * never from running the generated source.
+ */
+
+import type { ChallengeDifficulty, GeneratedProgram } from './types';
+import { generateId, randomElement, randomInt } from '../utils/crypto';
+
+// ============================================================================
+// AST
+// ============================================================================
+
+type NumExpr =
+    | { kind: 'num'; value: number }
+    | { kind: 'var'; name: string }
+    | { kind: 'binary'; op: '+' | '-'; left: NumExpr; right: NumExpr }
+    /** Rendered as `(left * right) % modulus` to keep values small */
+    | { kind: 'multiply'; left: NumExpr; right: NumExpr; modulus: number }
+    | { kind: 'divide'; left: NumExpr; divisor: number }
+    | { kind: 'modulo'; left: NumExpr; modulus: number }
+    | { kind: 'length'; target: string }
+    | { kind: 'element'; array: string; index: NumExpr }
+    | { kind: 'charCode'; text: string; index: NumExpr }
+    | { kind: 'conditional'; test: BoolExpr; then: NumExpr; otherwise: NumExpr };
+
+type BoolExpr =
+    | { kind: 'compare'; op: '<' | '>' | '===' | '!=='; left: NumExpr; right: NumExpr }
+    | { kind: 'even'; value: NumExpr };
+
+type StrExpr =
+    | { kind: 'str'; value: string }
+    | { kind: 'charAt'; text: string; index: NumExpr }
+    | { kind: 'toString'; value: NumExpr }
+    | { kind: 'upper'; value: StrExpr };
+
+type Statement =
+    | { kind: 'declareNumber'; name: string; init: NumExpr }
+    | { kind: 'declareString'; name: string; init: StrExpr }
+    | { kind: 'assign'; name: string; op: '=' | '+=' | '-='; value: NumExpr }
+    | { kind: 'append'; name: string; value: StrExpr }
+    | { kind: 'push'; array: string; value: NumExpr }
+    | { kind: 'for'; counter: string; count: number; body: Statement[] }
+    | { kind: 'if'; test: BoolExpr; then: Statement[]; otherwise: Statement[] };
+
+type Return = { kind: 'number'; value: NumExpr } | { kind: 'string'; name: string };
+
+interface Program {
+    name: string;
+    statements: Statement[];
+    result: Return;
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+/**
+ * Size and shape limits per difficulty
+ */
+const SHAPES: Record<ChallengeDifficulty, { statements: number; maxDepth: number; maxLoop: number; exprDepth: number }> = {
+    easy: { statements: 3, maxDepth: 1, maxLoop: 4, exprDepth: 1 },
+    medium: { statements: 5, maxDepth: 2, maxLoop: 6, exprDepth: 2 },
+    hard: { statements: 7, maxDepth: 3, maxLoop: 8, exprDepth: 2 },
+};
+
+/**
+ * Parameter names: a number, a non-empty number array and a non-empty string
+ */
+const PARAMS = { number: 'n', array: 'values', text: 'text' };
+
+/**
+ * Names in scope while generating
+ */
+interface Scope {
+    numbers: string[];
+    strings: string[];
+    counters: string[];
+    depth: number;
+}
+
+/**
+ * Builds one random program
+ */
+class ProgramBuilder {
+    private difficulty: ChallengeDifficulty;
+    private shape: (typeof SHAPES)[ChallengeDifficulty];
+    private locals = 0;
+
+    constructor(difficulty: ChallengeDifficulty) {
+        this.difficulty = difficulty;
+        this.shape = SHAPES[difficulty];
+    }
+
+    build(): Program {
+        const scope: Scope = { numbers: [PARAMS.number], strings: [PARAMS.text], counters: [], depth: 0 };
+        const statements: Statement[] = [];
+
+        // Declarations come first so every later statement can use them
+        const numberLocals = this.difficulty === 'easy' ? 1 : 2;
+        for (let i = 0; i < numberLocals; i++) {
+            const name = this.newLocal();
+            statements.push({ kind: 'declareNumber', name, init: this.numExpr(scope, 1) });
+            scope.numbers.push(name);
+        }
+
+        let stringLocal: string | undefined;
+        if (this.difficulty !== 'easy') {
+            stringLocal = this.newLocal();
+            statements.push({ kind: 'declareString', name: stringLocal, init: { kind: 'str', value: '' } });
+            scope.strings.push(stringLocal);
+        }
+
+        for (let i = 0; i < this.shape.statements; i++) {
+            statements.push(this.statement(scope));
+        }
+
+        // Make sure at least one loop does real work
+        if (!statements.some(statement => statement.kind === 'for')) {
+            statements.push(this.loop(scope));
+        }
+
+        const result: Return = stringLocal && randomInt(0, 2) === 0
+            ? { kind: 'string', name: stringLocal }
+            : { kind: 'number', value: this.numExpr(scope, this.shape.exprDepth) };
+
+        return { name: `program_${generateId(3)}`, statements, result };
+    }
+
+    private newLocal(): string {
+        return `v${this.locals++}`;
+    }
+
+    private statement(scope: Scope): Statement {
+        const options: Array<() => Statement> = [
+            () => this.assignment(scope),
+            () => this.assignment(scope),
+            () => ({ kind: 'push', array: PARAMS.array, value: this.numExpr(scope, this.shape.exprDepth) }),
+        ];
+
+        const appendable = scope.strings.filter(name => name !== PARAMS.text);
+        if (appendable.length > 0) {
+            options.push(() => ({ kind: 'append', name: randomElement(appendable), value: this.strExpr(scope) }));
+        }
+
+        if (scope.depth < this.shape.maxDepth) {
+            options.push(() => this.loop(scope), () => this.conditional(scope));
+        }
+
+        return randomElement(options)();
+    }
+
+    private assignment(scope: Scope): Statement {
+        // Locals only: parameters keep their values and counters are never assigned
+        const targets = scope.numbers.filter(name => name !== PARAMS.number);
+        return {
+            kind: 'assign',
+            name: randomElement(targets),
+            op: randomElement(['=', '+=', '-='] as const),
+            value: this.numExpr(scope, this.shape.exprDepth),
+        };
+    }
+
+    private loop(scope: Scope): Statement {
+        const counter = ['i', 'j', 'k'][scope.depth];
+        const inner: Scope = { ...scope, counters: [...scope.counters, counter], depth: scope.depth + 1 };
+
+        return {
+            kind: 'for',
+            counter,
+            count: randomInt(2, this.shape.maxLoop),
+            body: this.block(inner),
+        };
+    }
+
+    private conditional(scope: Scope): Statement {
+        const inner: Scope = { ...scope, depth: scope.depth + 1 };
+
+        return {
+            kind: 'if',
+            test: this.boolExpr(scope),
+            then: this.block(inner),
+            otherwise: randomInt(0, 1) === 0 ? [] : this.block(inner),
+        };
+    }
+
+    private block(scope: Scope): Statement[] {
+        const statements: Statement[] = [];
+        const count = randomInt(1, 2);
+
+        for (let i = 0; i < count; i++) {
+            statements.push(this.statement(scope));
+        }
+
+        return statements;
+    }
+
+    private numExpr(scope: Scope, depth: number): NumExpr {
+        const leaves: Array<() => NumExpr> = [
+            () => ({ kind: 'num', value: randomInt(1, 20) }),
+            () => ({ kind: 'var', name: randomElement([...scope.numbers, ...scope.counters]) }),
+            () => ({ kind: 'length', target: randomElement([PARAMS.array, ...scope.strings]) }),
+        ];
+
+        if (depth <= 0) {
+            return randomElement(leaves)();
+        }
+
+        const next = depth - 1;
+        const options: Array<() => NumExpr> = [
+            ...leaves,
+            () => ({ kind: 'binary', op: randomElement(['+', '-'] as const), left: this.numExpr(scope, next), right: this.numExpr(scope, next) }),
+            () => ({ kind: 'multiply', left: this.numExpr(scope, next), right: this.numExpr(scope, next), modulus: randomElement([97, 101, 997, 1009]) }),
+            () => ({ kind: 'divide', left: this.numExpr(scope, next), divisor: randomInt(2, 5) }),
+            () => ({ kind: 'modulo', left: this.numExpr(scope, next), modulus: randomInt(3, 50) }),
+            () => ({ kind: 'element', array: PARAMS.array, index: this.numExpr(scope, next) }),
+            // Locals may be empty, so characters only come from the parameter
+            () => ({ kind: 'charCode', text: PARAMS.text, index: this.numExpr(scope, next) }),
+        ];
+
+        if (this.difficulty === 'hard') {
+            options.push(() => ({
+                kind: 'conditional',
+                test: this.boolExpr(scope),
+                then: this.numExpr(scope, next),
+                otherwise: this.numExpr(scope, next),
+            }));
+        }
+
+        return randomElement(options)();
+    }
+
+    private boolExpr(scope: Scope): BoolExpr {
+        if (randomInt(0, 3) === 0) {
+            return { kind: 'even', value: this.numExpr(scope, 1) };
+        }
+
+        return {
+            kind: 'compare',
+            op: randomElement(['<', '>', '===', '!=='] as const),
+            left: this.numExpr(scope, 1),
+            right: this.numExpr(scope, 0),
+        };
+    }
+
+    private strExpr(scope: Scope): StrExpr {
+        const options: Array<() => StrExpr> = [
+            () => ({ kind: 'str', value: randomLetters(randomInt(1, 2)) }),
+            () => ({ kind: 'charAt', text: PARAMS.text, index: this.numExpr(scope, 1) }),
+            () => ({ kind: 'toString', value: this.numExpr(scope, 0) }),
+        ];
+
+        if (this.difficulty === 'hard') {
+            options.push(() => ({ kind: 'upper', value: { kind: 'charAt', text: PARAMS.text, index: this.numExpr(scope, 1) } }));
+        }
+
+        return randomElement(options)();
+    }
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a program as JavaScript source
+ */
+function render(program: Program): string {
+    const lines = [`function ${program.name}(${PARAMS.number}, ${PARAMS.array}, ${PARAMS.text}) {`];
+
+    for (const statement of program.statements) {
+        renderStatement(statement, 1, lines);
+    }
+
+    const result = program.result.kind === 'string' ? program.result.name : renderNum(program.result.value);
+    lines.push(`  return ${result};`, '}');
+
+    return lines.join('\n');
+}
+
+function renderStatement(statement: Statement, level: number, lines: string[]): void {
+    const pad = '  '.repeat(level);
+
+    switch (statement.kind) {
+        case 'declareNumber':
+            lines.push(`${pad}let ${statement.name} = ${renderNum(statement.init)};`);
+            break;
+        case 'declareString':
+            lines.push(`${pad}let ${statement.name} = ${renderStr(statement.init)};`);
+            break;
+        case 'assign':
+            lines.push(`${pad}${statement.name} ${statement.op} ${renderNum(statement.value)};`);
+            break;
+        case 'append':
+            lines.push(`${pad}${statement.name} += ${renderStr(statement.value)};`);
+            break;
+        case 'push':
+            lines.push(`${pad}${statement.array}.push(${renderNum(statement.value)});`);
+            break;
+        case 'for':
+            lines.push(`${pad}for (let ${statement.counter} = 0; ${statement.counter} < ${statement.count}; ${statement.counter}++) {`);
+            statement.body.forEach(inner => renderStatement(inner, level + 1, lines));
+            lines.push(`${pad}}`);
+            break;
+        case 'if':
+            lines.push(`${pad}if (${renderBool(statement.test)}) {`);
+            statement.then.forEach(inner => renderStatement(inner, level + 1, lines));
+            if (statement.otherwise.length > 0) {
+                lines.push(`${pad}} else {`);
+                statement.otherwise.forEach(inner => renderStatement(inner, level + 1, lines));
+            }
+            lines.push(`${pad}}`);
+            break;
+    }
+}
+
+function renderNum(expr: NumExpr): string {
+    switch (expr.kind) {
+        case 'num':
+            return String(expr.value);
+        case 'var':
+            return expr.name;
+        case 'binary':
+            return `(${renderNum(expr.left)} ${expr.op} ${renderNum(expr.right)})`;
+        case 'multiply':
+            return `((${renderNum(expr.left)} * ${renderNum(expr.right)}) % ${expr.modulus})`;
+        case 'divide':
+            return `Math.floor(${renderNum(expr.left)} / ${expr.divisor})`;
+        case 'modulo':
+            return `(${renderNum(expr.left)} % ${expr.modulus})`;
+        case 'length':
+            return `${expr.target}.length`;
+        case 'element':
+            return `${expr.array}[Math.abs(${renderNum(expr.index)}) % ${expr.array}.length]`;
+        case 'charCode':
+            return `${expr.text}.charCodeAt(Math.abs(${renderNum(expr.index)}) % ${expr.text}.length)`;
+        case 'conditional':
+            return `(${renderBool(expr.test)} ? ${renderNum(expr.then)} : ${renderNum(expr.otherwise)})`;
+    }
+}
+
+function renderBool(expr: BoolExpr): string {
+    if (expr.kind === 'even') {
+        return `${renderNum(expr.value)} % 2 === 0`;
+    }
+
+    return `${renderNum(expr.left)} ${expr.op} ${renderNum(expr.right)}`;
+}
+
+function renderStr(expr: StrExpr): string {
+    switch (expr.kind) {
+        case 'str':
+            return `'${expr.value}'`;
+        case 'charAt':
+            return `${expr.text}.charAt(Math.abs(${renderNum(expr.index)}) % ${expr.text}.length)`;
+        case 'toString':
+            return `String(${renderNum(expr.value)})`;
+        case 'upper':
+            return `${renderStr(expr.value)}.toUpperCase()`;
+    }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Variable values while evaluating
+ */
+type Env = Map<string, number | string | number[]>;
+
+/**
+ * Evaluate a program with JavaScript semantics
+ */
+function evaluate(program: Program, parameters: [number, number[], string]): number | string {
+    const env: Env = new Map<string, number | string | number[]>([
+        [PARAMS.number, parameters[0]],
+        [PARAMS.array, [...parameters[1]]],
+        [PARAMS.text, parameters[2]],
+    ]);
+
+    for (const statement of program.statements) {
+        execute(statement, env);
+    }
+
+    return program.result.kind === 'string'
+        ? (env.get(program.result.name) as string)
+        : evalNum(program.result.value, env);
+}
+
+function execute(statement: Statement, env: Env): void {
+    switch (statement.kind) {
+        case 'declareNumber':
+            env.set(statement.name, evalNum(statement.init, env));
+            break;
+        case 'declareString':
+            env.set(statement.name, evalStr(statement.init, env));
+            break;
+        case 'assign': {
+            const value = evalNum(statement.value, env);
+            const current = env.get(statement.name) as number;
+            env.set(statement.name, statement.op === '=' ? value : statement.op === '+=' ? current + value : current - value);
+            break;
+        }
+        case 'append':
+            env.set(statement.name, (env.get(statement.name) as string) + evalStr(statement.value, env));
+            break;
+        case 'push':
+            (env.get(statement.array) as number[]).push(evalNum(statement.value, env));
+            break;
+        case 'for':
+            for (let i = 0; i < statement.count; i++) {
+                env.set(statement.counter, i);
+                statement.body.forEach(inner => execute(inner, env));
+            }
+            env.delete(statement.counter);
+            break;
+        case 'if':
+            (evalBool(statement.test, env) ? statement.then : statement.otherwise).forEach(inner => execute(inner, env));
+            break;
+    }
+}
+
+function evalNum(expr: NumExpr, env: Env): number {
+    switch (expr.kind) {
+        case 'num':
+            return expr.value;
+        case 'var':
+            return env.get(expr.name) as number;
+        case 'binary': {
+            const left = evalNum(expr.left, env);
+            const right = evalNum(expr.right, env);
+            return expr.op === '+' ? left + right : left - right;
+        }
+        case 'multiply':
+            return (evalNum(expr.left, env) * evalNum(expr.right, env)) % expr.modulus;
+        case 'divide':
+            return Math.floor(evalNum(expr.left, env) / expr.divisor);
+        case 'modulo':
+            return evalNum(expr.left, env) % expr.modulus;
+        case 'length':
+            return (env.get(expr.target) as string | number[]).length;
+        case 'element': {
+            const array = env.get(expr.array) as number[];
+            return array[Math.abs(evalNum(expr.index, env)) % array.length];
+        }
+        case 'charCode': {
+            const text = env.get(expr.text) as string;
+            return text.charCodeAt(Math.abs(evalNum(expr.index, env)) % text.length);
+        }
+        case 'conditional':
+            return evalBool(expr.test, env) ? evalNum(expr.then, env) : evalNum(expr.otherwise, env);
+    }
+}
+
+function evalBool(expr: BoolExpr, env: Env): boolean {
+    if (expr.kind === 'even') {
+        return evalNum(expr.value, env) % 2 === 0;
+    }
+
+    const left = evalNum(expr.left, env);
+    const right = evalNum(expr.right, env);
+
+    switch (expr.op) {
+        case '<':
+            return left < right;
+        case '>':
+            return left > right;
+        case '===':
+            return left === right;
+        case '!==':
+            return left !== right;
+    }
+}
+
+function evalStr(expr: StrExpr, env: Env): string {
+    switch (expr.kind) {
+        case 'str':
+            return expr.value;
+        case 'charAt': {
+            const text = env.get(expr.text) as string;
+            return text.charAt(Math.abs(evalNum(expr.index, env)) % text.length);
+        }
+        case 'toString':
+            return String(evalNum(expr.value, env));
+        case 'upper':
+            return evalStr(expr.value, env).toUpperCase();
+    }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Random lower-case letters
+ */
+function randomLetters(length: number): string {
+    let letters = '';
+    for (let i = 0; i < length; i++) {
+        letters += 'abcdefghijklmnopqrstuvwxyz'[randomInt(0, 25)];
+    }
+    return letters;
+}
+
+/**
+ * Generate a random terminating program with parameters and its result
+ */
+export function generateProgram(difficulty: ChallengeDifficulty): GeneratedProgram {
+    const program = new ProgramBuilder(difficulty).build();
+
+    const values: number[] = [];
+    const valueCount = randomInt(3, difficulty === 'hard' ? 8 : 5);
+    for (let i = 0; i < valueCount; i++) {
+        values.push(randomInt(1, 50));
+    }
+
+    const parameters: [number, number[], string] = [randomInt(1, 100), values, randomLetters(randomInt(4, 10))];
+
+    return {
+        name: program.name,
+        code: render(program),
+        parameters,
+        result: evaluate(program, parameters),
+    };
+}
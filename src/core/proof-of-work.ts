@@ -0,0 +1,79 @@
+/**
+ * Hashcash-style proof of work for CaptchaLM
+ *
+ * The client searches for a nonce such that SHA-256(prefix + nonce) starts
+ * with `difficultyBits` zero bits, which takes about 2^difficultyBits hashes.
+ * Checking a nonce takes a single hash, and any valid nonce is accepted, so
+ * there is no expected answer to store.
+ */
+
+import type { ChallengeDifficulty, ProofOfWorkPayload } from './types';
+import { generateId } from '../utils/crypto';
+import { utf8ToBytes } from '../utils/bytes';
+
+/**
+ * Leading zero bits required per difficulty
+ */
+const DIFFICULTY_BITS: Record<ChallengeDifficulty, number> = {
+    easy: 12,
+    medium: 16,
+    hard: 18,
+};
+
+/**
+ * Most leading zero bits any difficulty asks for
+ * Clients refuse payloads above this rather than hash for hours.
+ */
+export const MAX_DIFFICULTY_BITS = DIFFICULTY_BITS.hard;
+
+/**
+ * Longest nonce accepted, so verification stays a single short hash
+ */
+const MAX_NONCE_LENGTH = 64;
+
+/**
+ * Answer signed for proof of work challenges, which have no single expected answer
+ */
+export const PROOF_OF_WORK_ANSWER = '';
+
+/**
+ * Create a proof of work payload
+ */
+export function createProofOfWorkPayload(difficulty: ChallengeDifficulty): ProofOfWorkPayload {
+    return {
+        type: 'proof_of_work',
+        algorithm: 'sha256',
+        prefix: generateId(16),
+        difficultyBits: DIFFICULTY_BITS[difficulty],
+    };
+}
+
+/**
+ * Check a nonce against a proof of work payload
+ */
+export async function verifyProofOfWork(payload: ProofOfWorkPayload, nonce: string): Promise<boolean> {
+    if (nonce.length === 0 || nonce.length > MAX_NONCE_LENGTH) {
+        return false;
+    }
+
+    const digest = await crypto.subtle.digest('SHA-256', utf8ToBytes(payload.prefix + nonce));
+    return countLeadingZeroBits(new Uint8Array(digest)) >= payload.difficultyBits;
+}
+
+/**
+ * Count leading zero bits in a digest
+ */
+export function countLeadingZeroBits(digest: Uint8Array): number {
+    let bits = 0;
+
+    for (const byte of digest) {
+        if (byte === 0) {
+            bits += 8;
+            continue;
+        }
+
+        return bits + Math.clz32(byte) - 24;
+    }
+
+    return bits;
+}
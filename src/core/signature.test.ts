@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { buildSignatureData, SIGNATURE_VERSION, type SignedChallengeFields } from './signature';
+import { CaptchaLM } from '../server/standalone';
+import { signChallenge } from '../utils/crypto';
+import { MemoryChallengeStore } from '../storage/memory';
+import type { Challenge } from './types';
+
+const secret = 'test-secret';
+const config = { secret, challengeTypes: ['encoded_instruction' as const] };
+
+const fields: SignedChallengeFields = {
+    id: 'c1',
+    type: 'encoded_instruction',
+    difficulty: 'easy',
+    payload: { type: 'encoded_instruction', instruction: 'x', instructionEncoding: 'base64', responseEncoding: 'plain' },
+    issuedAt: 1000,
+    expiresAt: 31000,
+    expectedAnswer: '42',
+    kid: undefined,
+    binding: undefined,
+};
+
+/**
+ * Re-sign a challenge with an older signature version, as an older release issued it
+ */
+async function resign(challenge: Challenge, expectedAnswer: string, version: 2 | undefined): Promise<Challenge> {
+    const { id, type, difficulty, payload, issuedAt, expiresAt, kid, binding } = challenge;
+    const data = buildSignatureData({ id, type, difficulty, payload, issuedAt, expiresAt, expectedAnswer, kid, binding }, version);
+
+    return { ...challenge, signature: await signChallenge(data, secret), signatureVersion: version };
+}
+
+describe('buildSignatureData', () => {
+    it('signs canonical JSON of every field, and the version, for new challenges', () => {
+        expect(SIGNATURE_VERSION).toBe(3);
+        expect(buildSignatureData(fields, 3)).toBe(
+            '{"difficulty":"easy","expectedAnswer":"42","expiresAt":31000,"id":"c1","issuedAt":1000,' +
+                '"payload":{"instruction":"x","instructionEncoding":"base64","responseEncoding":"plain","type":"encoded_instruction"},' +
+                '"type":"encoded_instruction","v":3}'
+        );
+    });
+
+    it('leaves difficulty and issue time out of version 2', () => {
+        expect(buildSignatureData(fields, 2)).toBe(
+            '{"expectedAnswer":"42","expiresAt":31000,"id":"c1",' +
+                '"payload":{"instruction":"x","instructionEncoding":"base64","responseEncoding":"plain","type":"encoded_instruction"},' +
+                '"type":"encoded_instruction","v":2}'
+        );
+    });
+
+    it('keeps the legacy field order without a version', () => {
+        expect(buildSignatureData(fields, undefined)).toBe(
+            '{"id":"c1","type":"encoded_instruction",' +
+                '"payload":{"type":"encoded_instruction","instruction":"x","instructionEncoding":"base64","responseEncoding":"plain"},' +
+                '"expiresAt":31000,"expectedAnswer":"42"}'
+        );
+    });
+
+    it('gives the same input for payloads whose keys were reordered in transit', () => {
+        const reordered = { ...fields, payload: JSON.parse('{"responseEncoding":"plain","instruction":"x","instructionEncoding":"base64","type":"encoded_instruction"}') };
+
+        expect(buildSignatureData(reordered, 3)).toBe(buildSignatureData(fields, 3));
+        expect(buildSignatureData(reordered, 2)).toBe(buildSignatureData(fields, 2));
+        expect(buildSignatureData(reordered, undefined)).not.toBe(buildSignatureData(fields, undefined));
+    });
+});
+
+describe('older signature versions', () => {
+    it.each([
+        ['version 2', 2 as const],
+        ['legacy', undefined],
+    ])('still verify %s challenges', async (_, version) => {
+        const challengeStore = new MemoryChallengeStore();
+        const captchalm = new CaptchaLM({ ...config, challengeStore });
+        const stateless = await captchalm.generate();
+        const stored = await captchalm.generate();
+
+        const statelessChallenge = await resign(stateless.challenge, stateless.expectedAnswer, version);
+        expect((await captchalm.verifyStateless(statelessChallenge, 'wrong')).errorCode).toBe('INVALID_SOLUTION');
+        expect((await captchalm.verifyStateless(statelessChallenge, stateless.expectedAnswer)).valid).toBe(true);
+
+        const storedChallenge = await resign(stored.challenge, stored.expectedAnswer, version);
+        expect((await captchalm.verify(storedChallenge, stored.expectedAnswer)).valid).toBe(true);
+
+        captchalm.destroy();
+    });
+
+    it.each([
+        ['version 2', 2 as const],
+        ['legacy', undefined],
+    ])('reject %s challenges with tampered signed fields', async (_, version) => {
+        const captchalm = new CaptchaLM(config);
+        const { challenge, expectedAnswer } = await captchalm.generate();
+        const resigned = await resign(challenge, expectedAnswer, version);
+
+        const tampered = { ...resigned, expiresAt: resigned.expiresAt - 1 };
+        expect((await captchalm.verify(tampered, expectedAnswer)).errorCode).toBe('INVALID_SIGNATURE');
+
+        captchalm.destroy();
+    });
+
+    it('refuse a current challenge relabelled with an older version', async () => {
+        const captchalm = new CaptchaLM(config);
+        const { challenge, expectedAnswer } = await captchalm.generate();
+
+        for (const signatureVersion of [2, undefined]) {
+            const result = await captchalm.verify({ ...challenge, signatureVersion }, expectedAnswer);
+            expect(result.errorCode, String(signatureVersion)).toBe('INVALID_SIGNATURE');
+        }
+
+        captchalm.destroy();
+    });
+
+    it('refuse unsupported versions', async () => {
+        const captchalm = new CaptchaLM(config);
+        const { challenge, expectedAnswer } = await captchalm.generate();
+
+        for (const signatureVersion of [1, 4]) {
+            const result = await captchalm.verifyStateless({ ...challenge, signatureVersion }, expectedAnswer);
+            expect(result).toMatchObject({ valid: false, errorCode: 'INVALID_SIGNATURE', error: 'Unsupported signature version' });
+        }
+
+        captchalm.destroy();
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * Challenge signing input for CaptchaLM
+ *
+ * Versions 2 and up sign the RFC 8785 canonical JSON of the challenge
+ * fields, so signatures survive key reordering and re-serialization by other
+ * JSON libraries. Version 3 also covers difficulty and issue time, which
+ * solve-time limits depend on. Challenges without `signatureVersion` were
+ * signed with the legacy `JSON.stringify` encoding and still verify.
+ */
+
+import type { Challenge } from './types';
+import { canonicalize } from '../utils/canonical';
+
+/**
+ * Signature encoding version used for new challenges
+ */
+export const SIGNATURE_VERSION = 3;
+
+/**
+ * Challenge fields covered by the signature
+ * HMAC signatures cover the expected answer, Ed25519 signatures a
+ * commitment to it (see `signedAnswer`).
+ */
+export type SignedChallengeFields = Pick<
+    Challenge,
+    'id' | 'type' | 'difficulty' | 'payload' | 'issuedAt' | 'expiresAt' | 'kid' | 'binding'
+> & (
+    | { expectedAnswer: string; answerCommitment?: undefined }
+    | { expectedAnswer?: undefined; answerCommitment: string | undefined }
+);
+
+/**
+ * Check whether a challenge's signature version can be verified
+ */
+export function isSupportedSignatureVersion(version: number | undefined): boolean {
+    return version === undefined || version === 2 || version === SIGNATURE_VERSION;
+}
+
+/**
+ * Build the string a challenge signature is computed over
+ */
+export function buildSignatureData(fields: SignedChallengeFields, version: number | undefined): string {
+    if (version === undefined) {
+        // Legacy encoding: field order matters and undefined fields are dropped
+        return JSON.stringify({
+            id: fields.id,
+            type: fields.type,
+            payload: fields.payload,
+            expiresAt: fields.expiresAt,
+            expectedAnswer: fields.expectedAnswer,
+            kid: fields.kid,
+            binding: fields.binding,
+        });
+    }
+
+    if (version === 2) {
+        const { difficulty: _difficulty, issuedAt: _issuedAt, ...signed } = fields;
+        return canonicalize({ v: version, ...signed });
+    }
+
+    // The version is signed too, so it can't be stripped to force an older encoding
+    return canonicalize({ v: version, ...fields });
+}
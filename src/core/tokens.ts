@@ -0,0 +1,199 @@
+/**
+ * Access tokens for CaptchaLM
+ *
+ * Compact JWTs (HS256 or EdDSA, matching the active signing key) issued
+ * after a solved challenge, so agents can skip solving for a while.
+ */
+
+import type {
+    AccessTokenClaims,
+    AccessTokenConfig,
+    AccessTokenVerificationResult,
+} from './types';
+import { generateId } from '../utils/crypto';
+import { base64UrlToBytes, bytesToBase64Url, bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '../utils/bytes';
+import { Keyring, signWithKey, verifyWithKey } from '../utils/keyring';
+
+interface TokenHeader {
+    alg: 'HS256' | 'EdDSA';
+    typ: 'JWT';
+    kid?: string;
+}
+
+/**
+ * Encode a JSON value as base64url
+ */
+function encodeSegment(value: unknown): string {
+    return bytesToBase64Url(utf8ToBytes(JSON.stringify(value)));
+}
+
+/**
+ * Decode a base64url JSON segment
+ */
+function decodeSegment(segment: string): unknown {
+    return JSON.parse(bytesToUtf8(base64UrlToBytes(segment)));
+}
+
+/**
+ * Whether a value is a non-null, non-array object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a decoded header has the fields verify() reads
+ */
+function isTokenHeader(value: unknown): value is TokenHeader {
+    return isObject(value) &&
+        typeof value.alg === 'string' &&
+        (value.kid === undefined || typeof value.kid === 'string');
+}
+
+/**
+ * Whether decoded claims have the expected field types
+ */
+function isTokenClaims(value: unknown): value is AccessTokenClaims {
+    return isObject(value) &&
+        typeof value.iss === 'string' &&
+        typeof value.sub === 'string' &&
+        typeof value.scope === 'string' &&
+        typeof value.iat === 'number' &&
+        typeof value.exp === 'number' &&
+        typeof value.jti === 'string';
+}
+
+/**
+ * Issues and checks access tokens
+ */
+export class AccessTokenIssuer {
+    private keyring: Keyring;
+    private config: Required<AccessTokenConfig>;
+
+    constructor(keyring: Keyring, config: AccessTokenConfig) {
+        this.keyring = keyring;
+        this.config = {
+            ttlMs: 300000, // 5 minutes
+            scopes: [],
+            bindToClient: true,
+            ...config,
+        };
+    }
+
+    /**
+     * Issue a token for a client
+     */
+    async issue(clientIdentifier: string): Promise<{ token: string; expiresAt: number }> {
+        const key = this.keyring.getActiveKey();
+        const now = Date.now();
+        const expiresAt = now + this.config.ttlMs;
+
+        const header: TokenHeader = {
+            alg: key.algorithm === 'ed25519' ? 'EdDSA' : 'HS256',
+            typ: 'JWT',
+        };
+        if (key.kid !== undefined) {
+            header.kid = key.kid;
+        }
+
+        const claims: AccessTokenClaims = {
+            iss: 'captchalm',
+            sub: clientIdentifier,
+            scope: this.config.scopes.join(' '),
+            iat: Math.floor(now / 1000),
+            exp: Math.floor(expiresAt / 1000),
+            jti: generateId(16),
+        };
+
+        const signingInput = `${encodeSegment(header)}.${encodeSegment(claims)}`;
+        const signature = bytesToBase64Url(hexToBytes(await signWithKey(key, signingInput)));
+
+        return {
+            token: `${signingInput}.${signature}`,
+            // Report the truncated expiry the token actually carries
+            expiresAt: claims.exp * 1000,
+        };
+    }
+
+    /**
+     * Check a token's signature, expiry, client binding and scopes
+     */
+    async verify(
+        token: string,
+        options?: { clientIdentifier?: string; requiredScopes?: string[] }
+    ): Promise<AccessTokenVerificationResult> {
+        const parts = token.split('.');
+        if (parts.length !== 3) {
+            return invalid('Malformed access token');
+        }
+
+        const [headerSegment, claimsSegment, signatureSegment] = parts;
+
+        let header: unknown;
+        let claims: unknown;
+        let signature: string;
+        try {
+            header = decodeSegment(headerSegment);
+            claims = decodeSegment(claimsSegment);
+            signature = bytesToHex(base64UrlToBytes(signatureSegment));
+        } catch {
+            return invalid('Malformed access token');
+        }
+
+        // Checked before the key lookup, so forged segments can't throw
+        if (!isTokenHeader(header) || !isTokenClaims(claims)) {
+            return invalid('Malformed access token');
+        }
+
+        const key = this.keyring.findKey(header.kid);
+        const expectedAlg = key?.algorithm === 'ed25519' ? 'EdDSA' : 'HS256';
+
+        // Never let the token choose the algorithm
+        if (!key || header.alg !== expectedAlg) {
+            return invalid('Unknown or retired signing key');
+        }
+
+        if (!await verifyWithKey(key, `${headerSegment}.${claimsSegment}`, signature)) {
+            return invalid('Invalid access token signature');
+        }
+
+        if (claims.iss !== 'captchalm') {
+            return invalid('Invalid access token claims');
+        }
+
+        if (Date.now() >= claims.exp * 1000) {
+            return {
+                valid: false,
+                error: 'Access token has expired',
+                errorCode: 'EXPIRED',
+            };
+        }
+
+        if (
+            this.config.bindToClient &&
+            options?.clientIdentifier !== undefined &&
+            claims.sub !== options.clientIdentifier
+        ) {
+            return invalid('Access token was issued to a different client');
+        }
+
+        const granted = new Set(claims.scope ? claims.scope.split(' ') : []);
+        const missing = (options?.requiredScopes ?? []).filter(scope => !granted.has(scope));
+        if (missing.length > 0) {
+            return invalid(`Access token lacks scope: ${missing.join(' ')}`);
+        }
+
+        return { valid: true, claims };
+    }
+}
+
+/**
+ * Build an INVALID_TOKEN result
+ */
+function invalid(error: string): AccessTokenVerificationResult {
+    return {
+        valid: false,
+        error,
+        errorCode: 'INVALID_TOKEN',
+    };
+}
@@ -19,7 +19,8 @@ export type ChallengeType =
     | 'chained_operations'
     | 'encoded_instruction'
     | 'pattern_extraction'
-    | 'code_transform';
+    | 'code_transform'
+    | 'proof_of_work';
 
 // ============================================================================
 // Challenge Payloads
@@ -102,12 +103,27 @@ export interface CodeTransformPayload {
     responseEncoding: EncodingType;
 }
 
+/**
+ * Proof of Work Challenge
+ * Find a nonce whose hash has enough leading zero bits (hashcash-style)
+ */
+export interface ProofOfWorkPayload {
+    type: 'proof_of_work';
+    /** Hash function applied to prefix + nonce */
+    algorithm: 'sha256';
+    /** Random hex string the nonce is appended to */
+    prefix: string;
+    /** Required number of leading zero bits in the digest */
+    difficultyBits: number;
+}
+
 export type ChallengePayload =
     | FunctionExecutionPayload
     | ChainedOperationsPayload
     | EncodedInstructionPayload
     | PatternExtractionPayload
-    | CodeTransformPayload;
+    | CodeTransformPayload
+    | ProofOfWorkPayload;
 
 // ============================================================================
 // Challenge
@@ -122,14 +138,40 @@ export interface Challenge {
     difficulty: ChallengeDifficulty;
     /** Challenge-specific payload */
     payload: ChallengePayload;
+    /** Issue timestamp on the issuing server's clock (Unix ms; absent before signature version 3) */
+    issuedAt?: number;
     /** Expiration timestamp (Unix ms) */
     expiresAt: number;
-    /** HMAC signature for integrity verification */
+    /** HMAC or Ed25519 signature for integrity verification */
     signature: string;
+    /** Signature encoding version (absent for legacy JSON.stringify signatures) */
+    signatureVersion?: number;
+    /** ID of the signing key (absent when signed with `secret`) */
+    kid?: string;
+    /** Digest of the request this challenge is bound to (see request binding) */
+    binding?: string;
+    /** Commitment to the expected answer, signed in its place by Ed25519 keys */
+    answerCommitment?: string;
 }
 
 export type ChallengeDifficulty = 'easy' | 'medium' | 'hard';
 
+/**
+ * Per-challenge generation options
+ */
+export interface ChallengeOverrides {
+    /** Challenge type (chosen from `challengeTypes` if unset) */
+    type?: ChallengeType;
+    /** Difficulty level */
+    difficulty?: ChallengeDifficulty;
+    /** Types to choose from instead of the configured ones */
+    challengeTypes?: ChallengeType[];
+    /** Number of operations in a `chained_operations` challenge */
+    chainLength?: number;
+    /** Request binding from computeRequestBinding */
+    binding?: string;
+}
+
 // ============================================================================
 // Solution & Verification
 // ============================================================================
@@ -148,6 +190,26 @@ export interface VerificationResult {
     error?: string;
     /** Error code for programmatic handling */
     errorCode?: VerificationErrorCode;
+    /** Access token issued on success (when access tokens are enabled) */
+    accessToken?: string;
+    /** Access token expiration timestamp (Unix ms) */
+    accessTokenExpiresAt?: number;
+    /** Client's rate limit state after this attempt */
+    rateLimit?: RateLimitInfo;
+    /** Time from issue to submission, for correct answers (ms) */
+    solveMs?: number;
+}
+
+/**
+ * Rate limit state reported with a verification
+ */
+export interface RateLimitInfo {
+    /** Attempts allowed per window */
+    limit: number;
+    /** Attempts left before the client is limited */
+    remaining: number;
+    /** When the limit resets, or the next attempt is allowed if limited (Unix ms) */
+    resetAt: number;
 }
 
 export type VerificationErrorCode =
@@ -155,15 +217,177 @@ export type VerificationErrorCode =
     | 'INVALID_SIGNATURE'
     | 'INVALID_SOLUTION'
     | 'RATE_LIMITED'
-    | 'CHALLENGE_NOT_FOUND';
+    | 'CHALLENGE_NOT_FOUND'
+    | 'INVALID_TOKEN'
+    | 'BINDING_MISMATCH'
+    | 'ATTEMPTS_EXHAUSTED'
+    | 'TOO_SLOW';
+
+/**
+ * Solve latency of correct answers at one difficulty
+ */
+export interface SolveLatencyStats {
+    /** Correct answers measured */
+    count: number;
+    /** Mean latency (ms, 0 when count is 0) */
+    averageMs: number;
+    /** Slowest latency seen (ms) */
+    maxMs: number;
+    /** Correct answers rejected as TOO_SLOW */
+    tooSlow: number;
+}
+
+export interface SolveTimeConfig {
+    /** Maximum time from issue to submission per difficulty (ms); levels left unset aren't limited */
+    maxSolveMs: Partial<Record<ChallengeDifficulty, number>>;
+    /** Allowance for clock differences between issuing and verifying servers (ms, default 1000) */
+    clockSkewMs?: number;
+}
+
+/**
+ * Request-specific context for verification
+ */
+export interface VerificationContext {
+    /** Binding digest of the request carrying the solution */
+    binding?: string;
+}
+
+// ============================================================================
+// Access Tokens
+// ============================================================================
+
+/**
+ * Claims carried by an access token (JWT payload)
+ */
+export interface AccessTokenClaims {
+    /** Issuer, always 'captchalm' */
+    iss: 'captchalm';
+    /** Client identifier the token was issued to */
+    sub: string;
+    /** Space-separated scopes */
+    scope: string;
+    /** Issued at (Unix seconds) */
+    iat: number;
+    /** Expiration (Unix seconds) */
+    exp: number;
+    /** Unique token ID */
+    jti: string;
+}
+
+/**
+ * Result of checking an access token
+ */
+export interface AccessTokenVerificationResult extends VerificationResult {
+    /** Decoded claims when valid */
+    claims?: AccessTokenClaims;
+}
+
+export interface AccessTokenConfig {
+    /** Token lifetime in milliseconds (default 300000) */
+    ttlMs?: number;
+    /** Scopes granted to issued tokens */
+    scopes?: string[];
+    /** Reject tokens presented by a different client identifier (default true) */
+    bindToClient?: boolean;
+}
+
+// ============================================================================
+// Adaptive Difficulty
+// ============================================================================
+
+/**
+ * Verification history of one client
+ */
+export interface ClientHistory {
+    /** Successful verifications */
+    successes: number;
+    /** Incorrect solutions */
+    failures: number;
+    /** Incorrect solutions since the last success */
+    failureStreak: number;
+    /** Moving average of successful solve times, from issue to verification (ms) */
+    averageSolveMs?: number;
+    /** Last update (Unix ms) */
+    updatedAt: number;
+}
+
+/**
+ * Chooses challenge options for a client from its history
+ */
+export interface DifficultyPolicy {
+    /**
+     * Return overrides for the next challenge; `history` is undefined for new clients
+     */
+    decide(
+        history: ClientHistory | undefined,
+        defaults: { difficulty: ChallengeDifficulty; challengeTypes: ChallengeType[] }
+    ): ChallengeOverrides;
+}
+
+/**
+ * Storage backend for client histories
+ */
+export interface ClientHistoryStoreAdapter {
+    /** Get a client's history, or undefined if unknown or expired */
+    get(clientIdentifier: string): MaybePromise<ClientHistory | undefined>;
+    /** Save a client's history, forgetting it after `ttlMs` without updates */
+    set(clientIdentifier: string, history: ClientHistory, ttlMs: number): MaybePromise<void>;
+    /** Delete a client's history */
+    delete(clientIdentifier: string): MaybePromise<boolean>;
+    /** Remove all histories */
+    clear(): MaybePromise<void>;
+}
+
+export interface AdaptiveDifficultyConfig {
+    /** Policy mapping history to challenge options (default DefaultDifficultyPolicy) */
+    policy?: DifficultyPolicy;
+    /** Storage for client histories (defaults to in-memory) */
+    store?: ClientHistoryStoreAdapter;
+    /** Forget clients after this long without verifications (ms, default 24 hours) */
+    historyTtlMs?: number;
+}
+
+// ============================================================================
+// Client Identification
+// ============================================================================
+
+/**
+ * Framework-neutral view of an incoming request
+ */
+export interface ClientRequestInfo {
+    /** Address of the directly connected peer */
+    remoteAddress?: string;
+    /** Request headers (lower-case names) */
+    headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Custom client identifier function
+ * Return undefined to fall back to the built-in resolution.
+ */
+export type ClientIdentifierFunction = (request: ClientRequestInfo) => string | undefined;
+
+export interface ClientIdentifierConfig {
+    /**
+     * Proxies (IP addresses or CIDR ranges) whose forwarding headers are trusted.
+     * Forwarding headers are ignored unless the peer is listed here (default none).
+     */
+    trustedProxies?: string[];
+    /** Headers identifying the client directly, e.g. an API key or agent ID, checked in order */
+    identityHeaders?: string[];
+    /** Custom resolver, consulted before everything else */
+    resolve?: ClientIdentifierFunction;
+}
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
 export interface CaptchaLMConfig {
-    /** Secret key for HMAC signing */
-    secret: string;
+    /** Secret key for HMAC signing (required unless `keys` is set) */
+    secret?: string;
+    /** Signing keyring for rotation; the first unretired key signs new challenges */
+    keys?: SigningKey[];
     /** Default difficulty level */
     difficulty?: ChallengeDifficulty;
     /** Challenge types to use (defaults to all) */
@@ -172,13 +396,204 @@ export interface CaptchaLMConfig {
     expirationMs?: number;
     /** Rate limiting configuration */
     rateLimit?: RateLimitConfig;
+    /** Attempts allowed per challenge, across all clients, before it is invalidated (default 3) */
+    maxAttemptsPerChallenge?: number;
+    /** Storage for pending challenges (defaults to in-memory) */
+    challengeStore?: ChallengeStoreAdapter;
+    /** Storage for per-challenge attempt counters, kept apart from `rateLimit.store` (defaults to in-memory) */
+    challengeAttemptStore?: RateLimitStoreAdapter;
+    /** Spent challenge ledger enforcing single use in stateless mode (disabled if unset) */
+    replayLedger?: ReplayLedgerAdapter;
+    /** Issue access tokens after successful verification (disabled if unset) */
+    accessTokens?: AccessTokenConfig;
+    /** How rate limit and token client identifiers are derived from requests */
+    clientIdentifier?: ClientIdentifierConfig;
+    /** Adjust challenge difficulty per client from its history (disabled if unset) */
+    adaptiveDifficulty?: AdaptiveDifficultyConfig;
+    /** Reject correct answers that took too long (disabled if unset) */
+    solveTime?: SolveTimeConfig;
+    /** Source of `function_execution` code (default 'registry') */
+    functionSource?: FunctionSource;
+    /** Obfuscate `function_execution` code, scaled by difficulty (default true) */
+    obfuscateFunctions?: boolean;
+}
+
+export type SigningAlgorithm = 'hmac-sha256' | 'ed25519';
+
+/**
+ * HMAC entry in a signing keyring
+ */
+export interface HmacSigningKey {
+    /** Key identifier, recorded on each challenge as `kid` */
+    kid: string;
+    /** Signing algorithm (default 'hmac-sha256') */
+    algorithm?: 'hmac-sha256';
+    /** HMAC secret */
+    secret: string;
+    /** Retirement timestamp (Unix ms); challenges signed with this key are rejected afterwards */
+    notAfter?: number;
+}
+
+/**
+ * Ed25519 entry in a signing keyring
+ * Entries without `privateKey` can only verify.
+ */
+export interface Ed25519SigningKey {
+    /** Key identifier, recorded on each challenge as `kid` */
+    kid: string;
+    /** Signing algorithm */
+    algorithm: 'ed25519';
+    /** PEM-encoded public key */
+    publicKey: string;
+    /** PEM-encoded private key */
+    privateKey?: string;
+    /** Retirement timestamp (Unix ms); challenges signed with this key are rejected afterwards */
+    notAfter?: number;
+}
+
+/**
+ * Entry in a signing keyring
+ */
+export type SigningKey = HmacSigningKey | Ed25519SigningKey;
+
+/**
+ * Public key in JWK format, as published for third-party verification
+ */
+export interface PublicJwk {
+    kty: 'OKP';
+    crv: 'Ed25519';
+    /** Base64url-encoded public key */
+    x: string;
+    kid: string;
+    alg: 'EdDSA';
+    use: 'sig';
+    /** Retirement time (Unix seconds) */
+    exp?: number;
 }
 
+/**
+ * Rate limiting algorithm
+ * - fixed: counter reset every window; allows bursts across a window boundary
+ * - sliding-log: exact, stores a timestamp per allowed attempt
+ * - sliding-window-counter: weights the previous window's count; two counters per client
+ * - token-bucket: `maxAttempts` burst, refilled evenly over `windowMs`
+ */
+export type RateLimitAlgorithm = 'fixed' | 'sliding-log' | 'sliding-window-counter' | 'token-bucket';
+
 export interface RateLimitConfig {
     /** Maximum attempts per window */
     maxAttempts: number;
     /** Window duration in milliseconds */
     windowMs: number;
+    /** Algorithm (default 'fixed') */
+    algorithm?: RateLimitAlgorithm;
+    /** Storage for rate limit counters (defaults to in-memory) */
+    store?: RateLimitStoreAdapter;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Server-side record of a pending challenge
+ */
+export interface StoredChallenge {
+    /** Expected (encoded) answer */
+    expectedAnswer: string;
+    /** Expiration timestamp (Unix ms) */
+    expiresAt: number;
+}
+
+/**
+ * Storage backend for pending challenges
+ * Methods may return plain values or promises. Stores own expiry: an
+ * entry past its `expiresAt` must no longer be returned by `get`.
+ */
+export interface ChallengeStoreAdapter {
+    /** Get a pending challenge, or undefined if unknown or expired */
+    get(challengeId: string): MaybePromise<StoredChallenge | undefined>;
+    /** Store a pending challenge */
+    set(challengeId: string, entry: StoredChallenge): MaybePromise<void>;
+    /** Delete a challenge, returning whether it existed */
+    delete(challengeId: string): MaybePromise<boolean>;
+    /** Remove challenges that expired at or before `now`, returning the count removed */
+    expire(now: number): MaybePromise<number>;
+    /** Number of stored challenges */
+    size(): MaybePromise<number>;
+    /** Remove all challenges */
+    clear(): MaybePromise<void>;
+}
+
+/**
+ * Record of challenges already redeemed in stateless mode
+ * Only IDs are kept, each until its challenge expires.
+ */
+export interface ReplayLedgerAdapter {
+    /**
+     * Mark a challenge as spent until `expiresAt`
+     * Must be atomic: returns false if the challenge was already spent, or
+     * if it can't be recorded (the challenge is then rejected)
+     */
+    markSpent(challengeId: string, expiresAt: number): MaybePromise<boolean>;
+}
+
+/**
+ * Attempt counter for a single rate limit key
+ */
+export interface RateLimitEntry {
+    /** Attempts recorded in the current window */
+    count: number;
+    /** Window reset timestamp (Unix ms) */
+    resetAt: number;
+}
+
+/**
+ * Sliding log state for a key
+ */
+export interface SlidingLogEntry {
+    /** Attempts logged within the window */
+    count: number;
+    /** Timestamp of the oldest logged attempt (Unix ms) */
+    oldest?: number;
+}
+
+/**
+ * Token bucket state for a key
+ */
+export interface TokenBucketEntry {
+    /** Tokens available, possibly fractional */
+    tokens: number;
+}
+
+/**
+ * Storage backend for rate limit counters
+ * Entries whose window has passed are treated as absent. The sliding log
+ * and token bucket methods are only needed for those algorithms.
+ */
+export interface RateLimitStoreAdapter {
+    /** Get the current entry for a key */
+    get(key: string): MaybePromise<RateLimitEntry | undefined>;
+    /** Count an attempt, starting a new window of `windowMs` if none is active */
+    increment(key: string, windowMs: number): MaybePromise<RateLimitEntry>;
+    /** Drop attempts older than `windowMs`, then log one at `now` unless `limit` remain */
+    logAttempt?(key: string, now: number, windowMs: number, limit: number): MaybePromise<SlidingLogEntry & { logged: boolean }>;
+    /** Attempts logged within `windowMs` of `now` */
+    getLog?(key: string, now: number, windowMs: number): MaybePromise<SlidingLogEntry>;
+    /** Refill a bucket of `capacity` (one token per `refillMs`), then take a token if one is whole */
+    takeToken?(key: string, now: number, capacity: number, refillMs: number): MaybePromise<TokenBucketEntry & { taken: boolean }>;
+    /** Bucket level at `now` after refilling, without taking a token */
+    getBucket?(key: string, now: number, capacity: number, refillMs: number): MaybePromise<TokenBucketEntry>;
+    /** Delete the counter, log and bucket for a key */
+    delete(key: string): MaybePromise<boolean>;
+    /** Remove entries whose window ended before `now`, returning the count removed */
+    expire(now: number): MaybePromise<number>;
+    /** Aggregate counts over active entries */
+    stats(): MaybePromise<{ activeKeys: number; totalAttempts: number }>;
+    /** Remove all entries */
+    clear(): MaybePromise<void>;
 }
 
 // ============================================================================
@@ -198,6 +613,28 @@ export interface RegisteredFunction {
     difficulty: ChallengeDifficulty;
 }
 
+/**
+ * A synthesized function with arguments and its reference result
+ */
+export interface GeneratedProgram {
+    /** Function name */
+    name: string;
+    /** JavaScript source of the function */
+    code: string;
+    /** Arguments to call it with */
+    parameters: unknown[];
+    /** Return value for those arguments */
+    result: number | string;
+}
+
+/**
+ * Where `function_execution` code comes from
+ * - registry: the built-in functions
+ * - generated: freshly synthesized programs
+ * - mixed: either, chosen at random per challenge
+ */
+export type FunctionSource = 'registry' | 'generated' | 'mixed';
+
 // ============================================================================
 // Middleware Types
 // ============================================================================
@@ -207,6 +644,64 @@ export interface MiddlewareConfig extends CaptchaLMConfig {
     challengeIdHeader?: string;
     /** Header name for solution */
     solutionHeader?: string;
+    /** Header carrying the challenge (base64url JSON) for requests without a usable body */
+    challengeHeader?: string;
     /** Path to challenge endpoint */
     challengeEndpoint?: string;
+    /** Response header carrying a newly issued access token */
+    accessTokenHeader?: string;
+    /** Bind inline challenges to the method, path and body of the request (default false) */
+    bindToRequest?: boolean;
 }
+
+/**
+ * Fetch handler configuration
+ * A `Request` carries no peer address, so one of `getClientAddress`,
+ * `clientIdentifier.resolve` or `clientIdentifier.identityHeaders` is required.
+ */
+export interface FetchHandlerConfig extends MiddlewareConfig {
+    /** Peer address of a request, e.g. from a platform header or the runtime's connection info */
+    getClientAddress?: (request: Request) => string | undefined;
+}
+
+/**
+ * Verification state attached to a request by the server adapters
+ */
+export interface CaptchaLMContext {
+    verified: boolean;
+    challenge?: Challenge;
+    clientIdentifier: string;
+    /** Claims of the access token used, if the request presented one */
+    accessToken?: AccessTokenClaims;
+}
+
+/**
+ * Framework-neutral view of a request to protect
+ */
+export interface ProtectionRequest extends ClientRequestInfo {
+    method: string;
+    /** Request path without the query string */
+    path: string;
+    /** Parsed request body, if any */
+    body?: unknown;
+    /** The request has a body that nothing parsed, e.g. no body parser is mounted */
+    unparsedBody?: boolean;
+}
+
+/**
+ * Framework-neutral response for an adapter to send
+ */
+export interface ProtectionResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+}
+
+/**
+ * Outcome of protecting a request
+ * Verified requests carry headers to add to the eventual response;
+ * the rest carry the response to send instead.
+ */
+export type ProtectionResult =
+    | { verified: true; context: CaptchaLMContext; headers: Record<string, string> }
+    | { verified: false; context: CaptchaLMContext; response: ProtectionResponse };
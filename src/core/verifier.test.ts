@@ -0,0 +1,383 @@
+import { generateKeyPairSync } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CaptchaLM } from '../server/standalone';
+import { signingKeysFromJwks } from '../utils/keyring';
+import { verifyEd25519 } from '../utils/crypto';
+import { base64ToBytes } from '../utils/bytes';
+import { buildSignatureData } from './signature';
+import { signChallenge } from '../utils/crypto';
+import { MemoryChallengeStore, MemoryRateLimitStore, MemoryReplayLedger } from '../storage/memory';
+import type { Challenge, SigningKey } from './types';
+
+/**
+ * Fresh Ed25519 keyring entry
+ */
+function ed25519Key(kid: string): SigningKey {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    return {
+        kid,
+        algorithm: 'ed25519',
+        publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+        privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    };
+}
+
+const config = { challengeTypes: ['encoded_instruction' as const], difficulty: 'easy' as const };
+
+describe('Ed25519 challenge signatures', () => {
+    it('does not let the public key confirm an answer', async () => {
+        const issuer = new CaptchaLM({ ...config, keys: [ed25519Key('ed-1')] });
+        const { challenge, expectedAnswer } = await issuer.generate();
+        const [jwk] = issuer.getPublicKeys().keys;
+
+        expect(challenge.answerCommitment).toBeDefined();
+
+        // What an offline guesser holding only the JWKS would try
+        const { id, type, difficulty, payload, issuedAt, expiresAt, kid, signatureVersion } = challenge;
+        const fields = { id, type, difficulty, payload, issuedAt, expiresAt, kid };
+        const withAnswer = buildSignatureData({ ...fields, expectedAnswer }, signatureVersion);
+        const withCommitment = buildSignatureData({ ...fields, answerCommitment: challenge.answerCommitment }, signatureVersion);
+
+        expect(await verifyEd25519(withCommitment, challenge.signature, base64ToBytes(jwk.x))).toBe(true);
+        expect(await verifyEd25519(withAnswer, challenge.signature, base64ToBytes(jwk.x))).toBe(false);
+
+        issuer.destroy();
+    });
+
+    it('verifies answers statelessly on instances holding the private key', async () => {
+        const key = ed25519Key('ed-1');
+        const issuer = new CaptchaLM({ ...config, keys: [key] });
+        const other = new CaptchaLM({ ...config, keys: [key] });
+        const { challenge, expectedAnswer } = await issuer.generate();
+
+        expect((await other.verifyStateless(challenge, 'wrong')).errorCode).toBe('INVALID_SOLUTION');
+        expect((await other.verifyStateless(challenge, expectedAnswer)).valid).toBe(true);
+
+        issuer.destroy();
+        other.destroy();
+    });
+
+    it('refuses stateless verification with public keys only', async () => {
+        const issuer = new CaptchaLM({ ...config, keys: [ed25519Key('ed-1')] });
+        const partner = new CaptchaLM({ ...config, keys: signingKeysFromJwks(issuer.getPublicKeys()) });
+        const { challenge, expectedAnswer } = await issuer.generate();
+
+        const result = await partner.verifyStateless(challenge, expectedAnswer);
+        expect(result.valid).toBe(false);
+        expect(result.errorCode).toBe('INVALID_SIGNATURE');
+
+        issuer.destroy();
+        partner.destroy();
+    });
+
+    it('lets public key holders authenticate challenges', async () => {
+        const issuer = new CaptchaLM({ ...config, keys: [ed25519Key('ed-1')] });
+        const partner = new CaptchaLM({ ...config, keys: signingKeysFromJwks(issuer.getPublicKeys()) });
+        const { challenge } = await issuer.generate();
+
+        expect(await partner.verifyChallengeSignature(challenge)).toBe(true);
+        expect(await partner.verifyChallengeSignature({ ...challenge, expiresAt: challenge.expiresAt + 1 })).toBe(false);
+        expect(await partner.verifyChallengeSignature({ ...challenge, answerCommitment: undefined })).toBe(false);
+
+        issuer.destroy();
+        partner.destroy();
+    });
+
+    it('verifies stored answers for Ed25519 challenges', async () => {
+        const issuer = new CaptchaLM({ ...config, keys: [ed25519Key('ed-1')] });
+        const { challenge, expectedAnswer } = await issuer.generate();
+
+        expect((await issuer.verify(challenge, expectedAnswer)).valid).toBe(true);
+
+        issuer.destroy();
+    });
+
+    it('keeps signing the answer itself under HMAC keys', async () => {
+        const issuer = new CaptchaLM({ ...config, secret: 's' });
+        const { challenge, expectedAnswer } = await issuer.generate();
+
+        expect(challenge.answerCommitment).toBeUndefined();
+        expect((await issuer.verifyStateless(challenge, expectedAnswer)).valid).toBe(true);
+
+        issuer.destroy();
+    });
+});
+
+describe('challenge attempt counters', () => {
+    it('are kept out of rate limit stats', async () => {
+        const rateLimitStore = new MemoryRateLimitStore();
+        const attemptStore = new MemoryRateLimitStore();
+        const captchalm = new CaptchaLM({
+            ...config,
+            secret: 's',
+            rateLimit: { maxAttempts: 10, windowMs: 60000, store: rateLimitStore },
+            challengeAttemptStore: attemptStore,
+        });
+
+        const { challenge } = await captchalm.generate();
+        await captchalm.verify(challenge, 'wrong', 'agent');
+        await captchalm.verify(challenge, 'wrong', 'agent');
+
+        expect((await captchalm.getStats()).rateLimitStats).toEqual({ activeKeys: 1, totalAttempts: 2 });
+        expect(attemptStore.stats()).toEqual({ activeKeys: 1, totalAttempts: 2 });
+
+        captchalm.destroy();
+    });
+
+    it('are not created for forged challenges expiring far in the future', async () => {
+        const attemptStore = new MemoryRateLimitStore();
+        const captchalm = new CaptchaLM({ ...config, secret: 's', rateLimit: { maxAttempts: 10000, windowMs: 60000 }, challengeAttemptStore: attemptStore });
+        const { challenge } = await captchalm.generate();
+
+        for (let i = 0; i < 1000; i++) {
+            const forged = { ...challenge, id: `forged-${i}`, expiresAt: Date.UTC(3000, 0, 1) };
+            const result = await captchalm.verifyStateless(forged, 'wrong', 'attacker');
+            expect(result.errorCode).toBe('INVALID_SIGNATURE');
+        }
+
+        expect(attemptStore.stats()).toEqual({ activeKeys: 0, totalAttempts: 0 });
+
+        captchalm.destroy();
+    });
+
+    it('limit attempts across instances sharing the attempt store', async () => {
+        const shared = { ...config, secret: 's', challengeAttemptStore: new MemoryRateLimitStore() };
+        const issuer = new CaptchaLM(shared);
+        const other = new CaptchaLM(shared);
+
+        const { challenge } = await issuer.generate();
+        await issuer.verifyStateless(challenge, 'wrong', 'a');
+        await other.verifyStateless(challenge, 'wrong', 'b');
+        const third = await issuer.verifyStateless(challenge, 'wrong', 'c');
+
+        expect(third.errorCode).toBe('ATTEMPTS_EXHAUSTED');
+
+        issuer.destroy();
+        other.destroy();
+    });
+});
+
+describe('signing key rotation', () => {
+    const oldKey = { kid: 'k1', algorithm: 'hmac-sha256' as const, secret: 'old-secret' };
+    const newKey = { kid: 'k2', algorithm: 'hmac-sha256' as const, secret: 'new-secret' };
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keeps verifying challenges issued under the old key until its notAfter', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(1_700_000_000_000);
+        const issuer = new CaptchaLM({ ...config, keys: [oldKey] });
+        const before = await issuer.generate();
+        const after = await issuer.generate();
+        expect(before.challenge.kid).toBe('k1');
+
+        const rotated = new CaptchaLM({ ...config, keys: [newKey, { ...oldKey, notAfter: Date.now() + 10000 }] });
+        expect((await rotated.generate()).challenge.kid).toBe('k2');
+        expect((await rotated.verifyStateless(before.challenge, before.expectedAnswer)).valid).toBe(true);
+
+        // Retired while the challenge itself is still unexpired
+        vi.setSystemTime(Date.now() + 10001);
+        const result = await rotated.verifyStateless(after.challenge, after.expectedAnswer);
+        expect(result).toMatchObject({ valid: false, errorCode: 'INVALID_SIGNATURE', error: 'Unknown or retired signing key' });
+
+        issuer.destroy();
+        rotated.destroy();
+    });
+
+    it('retires the old key for stored challenges too', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(1_700_000_000_000);
+        const challengeStore = new MemoryChallengeStore();
+        const issuer = new CaptchaLM({ ...config, keys: [oldKey], challengeStore });
+        const { challenge, expectedAnswer } = await issuer.generate();
+
+        const rotated = new CaptchaLM({ ...config, keys: [newKey, { ...oldKey, notAfter: Date.now() + 10000 }], challengeStore });
+        vi.setSystemTime(Date.now() + 10001);
+
+        expect((await rotated.verify(challenge, expectedAnswer)).error).toBe('Unknown or retired signing key');
+
+        issuer.destroy();
+        rotated.destroy();
+    });
+
+    it('rejects challenges naming an unknown key', async () => {
+        const issuer = new CaptchaLM({ ...config, keys: [newKey] });
+        const { challenge, expectedAnswer } = await issuer.generate();
+
+        for (const kid of ['k3', undefined]) {
+            const result = await issuer.verifyStateless({ ...challenge, kid }, expectedAnswer);
+            expect(result, String(kid)).toMatchObject({ valid: false, errorCode: 'INVALID_SIGNATURE', error: 'Unknown or retired signing key' });
+        }
+
+        issuer.destroy();
+    });
+
+    it('rejects challenges signed with another key under a known kid', async () => {
+        const challengeStore = new MemoryChallengeStore();
+        const forger = new CaptchaLM({ ...config, keys: [{ ...newKey, secret: 'guessed-secret' }], challengeStore });
+        const issuer = new CaptchaLM({ ...config, keys: [newKey], challengeStore });
+        const { challenge, expectedAnswer } = await forger.generate();
+
+        expect((await issuer.verify(challenge, expectedAnswer)).error).toBe('Invalid challenge signature');
+
+        forger.destroy();
+        issuer.destroy();
+    });
+});
+
+describe('solve time limits', () => {
+    const start = 1_700_000_000_000;
+    const solveTime = { maxSolveMs: { easy: 2000, hard: 10000 } };
+
+    /**
+     * Re-sign a challenge as version 2, which doesn't cover difficulty or issue time
+     */
+    async function asVersion2(challenge: Challenge, expectedAnswer: string): Promise<Challenge> {
+        const { id, type, payload, expiresAt, kid, binding } = challenge;
+        const data = buildSignatureData({ id, type, difficulty: 'easy', payload, issuedAt: 0, expiresAt, expectedAnswer, kid, binding }, 2);
+        return { ...challenge, signature: await signChallenge(data, 's'), signatureVersion: 2 };
+    }
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('rejects solutions submitted after the limit plus clock skew', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(start);
+        const captchalm = new CaptchaLM({ ...config, secret: 's', solveTime });
+        const { challenge, expectedAnswer } = await captchalm.generate();
+
+        vi.setSystemTime(start + 3000);
+        expect(await captchalm.verifyStateless(challenge, expectedAnswer)).toMatchObject({ valid: true, solveMs: 3000 });
+
+        vi.setSystemTime(start + 3001);
+        expect(await captchalm.verifyStateless(challenge, expectedAnswer)).toMatchObject({
+            valid: false,
+            error: 'Solved too slowly (3001ms, limit 2000ms)',
+            errorCode: 'TOO_SLOW',
+        });
+
+        captchalm.destroy();
+    });
+
+    it('uses the configured clock skew and the limit for the signed difficulty', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(start);
+        const captchalm = new CaptchaLM({ ...config, secret: 's', solveTime: { ...solveTime, clockSkewMs: 0 } });
+        const easy = await captchalm.generate();
+        const hard = await captchalm.generate({ difficulty: 'hard' });
+        const medium = await captchalm.generate({ difficulty: 'medium' });
+
+        vi.setSystemTime(start + 2001);
+        expect((await captchalm.verifyStateless(easy.challenge, easy.expectedAnswer)).errorCode).toBe('TOO_SLOW');
+        expect((await captchalm.verifyStateless(hard.challenge, hard.expectedAnswer)).valid).toBe(true);
+
+        // Levels without a limit aren't limited
+        vi.setSystemTime(start + 20000);
+        expect((await captchalm.verifyStateless(medium.challenge, medium.expectedAnswer)).valid).toBe(true);
+
+        captchalm.destroy();
+    });
+
+    it('uses up a stored challenge that was solved too slowly', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(start);
+        const captchalm = new CaptchaLM({ ...config, secret: 's', solveTime });
+        const { challenge, expectedAnswer } = await captchalm.generate();
+
+        vi.setSystemTime(start + 3001);
+        expect((await captchalm.verify(challenge, expectedAnswer)).errorCode).toBe('TOO_SLOW');
+        expect((await captchalm.verify(challenge, expectedAnswer)).errorCode).toBe('CHALLENGE_NOT_FOUND');
+
+        captchalm.destroy();
+    });
+
+    it('times version 2 challenges from their signed expiry with the strictest limit', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(start);
+        const captchalm = new CaptchaLM({ ...config, secret: 's', expirationMs: 20000, solveTime });
+        const hard = await captchalm.generate({ difficulty: 'hard' });
+        const challenge = await asVersion2(hard.challenge, hard.expectedAnswer);
+
+        vi.setSystemTime(start + 3000);
+        expect(await captchalm.verifyStateless(challenge, hard.expectedAnswer)).toMatchObject({ valid: true, solveMs: 3000 });
+
+        // Neither the unsigned difficulty nor the unsigned issue time can buy more time
+        vi.setSystemTime(start + 3001);
+        const forged = { ...challenge, difficulty: 'hard' as const, issuedAt: Date.now() };
+        expect(await captchalm.verifyStateless(forged, hard.expectedAnswer)).toMatchObject({
+            valid: false,
+            error: 'Solved too slowly (3001ms, limit 2000ms)',
+            errorCode: 'TOO_SLOW',
+        });
+
+        captchalm.destroy();
+    });
+
+    it('does not limit version 2 challenges when no level has a limit', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(start);
+        const captchalm = new CaptchaLM({ ...config, secret: 's', solveTime: { maxSolveMs: {} } });
+        const { challenge, expectedAnswer } = await captchalm.generate();
+
+        vi.setSystemTime(start + 25000);
+        expect((await captchalm.verifyStateless(await asVersion2(challenge, expectedAnswer), expectedAnswer)).valid).toBe(true);
+
+        captchalm.destroy();
+    });
+});
+
+describe('rate limit state in results', () => {
+    const rateLimit = { maxAttempts: 3, windowMs: 60000 };
+
+    it('resets the limit after a stateless success spent in the replay ledger', async () => {
+        const captchalm = new CaptchaLM({ ...config, secret: 's', rateLimit, replayLedger: new MemoryReplayLedger() });
+        let solved: Awaited<ReturnType<CaptchaLM['generate']>> | undefined;
+
+        for (let i = 0; i < 4; i++) {
+            solved = await captchalm.generate();
+            const result = await captchalm.verifyStateless(solved.challenge, solved.expectedAnswer, 'agent');
+            expect(result.valid).toBe(true);
+            expect(result.rateLimit?.remaining).toBe(3);
+        }
+
+        expect(await captchalm.getRateLimitStatus('agent')).toMatchObject({ isLimited: false, remaining: 3 });
+
+        const replayed = await captchalm.verifyStateless(solved!.challenge, solved!.expectedAnswer, 'agent');
+        expect(replayed).toMatchObject({ errorCode: 'CHALLENGE_NOT_FOUND', rateLimit: { remaining: 2 } });
+
+        captchalm.destroy();
+    });
+
+    it('does not refill the limit when a stateless solution is replayed', async () => {
+        const captchalm = new CaptchaLM({ ...config, secret: 's', rateLimit });
+        const { challenge, expectedAnswer } = await captchalm.generate();
+
+        // Without a replay ledger the solution keeps passing, but each pass counts
+        for (const remaining of [2, 1, 0]) {
+            expect(await captchalm.verifyStateless(challenge, expectedAnswer, 'agent')).toMatchObject({ valid: true, rateLimit: { remaining } });
+        }
+
+        expect((await captchalm.verifyStateless(challenge, expectedAnswer, 'agent')).errorCode).toBe('RATE_LIMITED');
+
+        captchalm.destroy();
+    });
+
+    it('counts stateless failures down until a stored challenge is solved', async () => {
+        const captchalm = new CaptchaLM({ ...config, secret: 's', rateLimit });
+        const stateless = await captchalm.generate();
+        const stored = await captchalm.generate();
+
+        expect((await captchalm.verifyStateless(stateless.challenge, 'wrong', 'agent')).rateLimit?.remaining).toBe(2);
+        expect((await captchalm.verify(stored.challenge, 'wrong', 'agent')).rateLimit?.remaining).toBe(1);
+        expect((await captchalm.verify(stored.challenge, stored.expectedAnswer, 'agent')).rateLimit?.remaining).toBe(3);
+
+        const next = await captchalm.verifyStateless(stateless.challenge, 'wrong', 'agent');
+        expect(next).toMatchObject({ errorCode: 'INVALID_SOLUTION', rateLimit: { remaining: 2 } });
+
+        captchalm.destroy();
+    });
+});
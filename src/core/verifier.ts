@@ -7,26 +7,45 @@ import type {
     VerificationResult,
     CaptchaLMConfig,
     ChallengeSolution,
+    ChallengeStoreAdapter,
+    ReplayLedgerAdapter,
+    PublicJwk,
+    AccessTokenVerificationResult,
+    VerificationContext,
+    RateLimitInfo,
+    RateLimitStoreAdapter,
+    ChallengeOverrides,
+    ClientHistory,
+    ChallengeDifficulty,
+    SolveTimeConfig,
+    SolveLatencyStats,
+    ProofOfWorkPayload,
 } from './types';
-import { signChallenge, safeCompare } from '../utils/crypto';
+import { safeCompare } from '../utils/crypto';
+import { buildSignatureData, isSupportedSignatureVersion, SIGNATURE_VERSION } from './signature';
 import { RateLimiter, createRateLimiter } from '../utils/rate-limiter';
-
-/**
- * Store for expected answers (server-side only)
- */
-interface ChallengeStore {
-    expectedAnswer: string;
-    expiresAt: number;
-}
+import { Keyring, createKeyring, verifyWithKey, signedAnswer, type ResolvedKey } from '../utils/keyring';
+import { AccessTokenIssuer } from './tokens';
+import { AdaptiveDifficulty } from './adaptive';
+import { PROOF_OF_WORK_ANSWER, verifyProofOfWork } from './proof-of-work';
+import { MemoryChallengeStore, MemoryRateLimitStore } from '../storage/memory';
 
 /**
  * Challenge verifier class
  */
 export class ChallengeVerifier {
-    private config: Required<CaptchaLMConfig>;
+    private config: Required<Omit<CaptchaLMConfig, 'secret' | 'keys' | 'challengeStore' | 'challengeAttemptStore' | 'replayLedger' | 'accessTokens' | 'clientIdentifier' | 'adaptiveDifficulty' | 'solveTime'>>;
+    private keyring: Keyring;
+    private accessTokens: AccessTokenIssuer | undefined;
     private rateLimiter: RateLimiter;
-    private challengeStore: Map<string, ChallengeStore> = new Map();
-    private cleanupInterval: NodeJS.Timeout | null = null;
+    private challengeStore: ChallengeStoreAdapter;
+    private ownsChallengeStore: boolean;
+    private replayLedger: ReplayLedgerAdapter | undefined;
+    private attemptStore: RateLimitStoreAdapter;
+    private ownsAttemptStore: boolean;
+    private adaptive: AdaptiveDifficulty | undefined;
+    private solveTime: SolveTimeConfig | undefined;
+    private latency: Partial<Record<ChallengeDifficulty, SolveLatencyStats>> = {};
 
     constructor(config: CaptchaLMConfig) {
         this.config = {
@@ -37,40 +56,72 @@ export class ChallengeVerifier {
                 maxAttempts: 10,
                 windowMs: 60000,
             },
+            maxAttemptsPerChallenge: 3,
+            functionSource: 'registry',
+            obfuscateFunctions: true,
             ...config,
         };
 
+        this.keyring = createKeyring(config);
+        this.accessTokens = config.accessTokens
+            ? new AccessTokenIssuer(this.keyring, config.accessTokens)
+            : undefined;
+
+        // Only a store we created ourselves is cleared on destroy; a supplied
+        // store may be shared with other instances
+        this.ownsChallengeStore = !config.challengeStore;
+        this.challengeStore = config.challengeStore ?? new MemoryChallengeStore();
+        this.replayLedger = config.replayLedger;
+
+        // Per-challenge attempt counters have their own store, so they aren't
+        // counted as clients in rate limit stats
+        this.ownsAttemptStore = !config.challengeAttemptStore;
+        this.attemptStore = config.challengeAttemptStore ?? new MemoryRateLimitStore();
+
+        // Expiry is handled by the stores themselves (TTL), so there is
+        // no cleanup timer here
         this.rateLimiter = createRateLimiter(this.config.rateLimit);
-        this.startCleanup();
+
+        this.adaptive = config.adaptiveDifficulty
+            ? new AdaptiveDifficulty(config.adaptiveDifficulty, {
+                difficulty: this.config.difficulty,
+                challengeTypes: this.config.challengeTypes,
+            })
+            : undefined;
+
+        this.solveTime = config.solveTime;
     }
 
     /**
      * Store expected answer for a challenge
      */
-    storeChallenge(challengeId: string, expectedAnswer: string, expiresAt: number): void {
-        this.challengeStore.set(challengeId, { expectedAnswer, expiresAt });
+    async storeChallenge(challengeId: string, expectedAnswer: string, expiresAt: number): Promise<void> {
+        await this.challengeStore.set(challengeId, { expectedAnswer, expiresAt });
     }
 
     /**
      * Verify a challenge solution
      */
-    verify(
+    async verify(
         challenge: Challenge,
         solution: ChallengeSolution,
-        clientIdentifier?: string
-    ): VerificationResult {
+        clientIdentifier?: string,
+        context?: VerificationContext
+    ): Promise<VerificationResult> {
         const clientKey = clientIdentifier || 'anonymous';
 
-        // Check rate limiting
-        const rateLimitResult = this.rateLimiter.recordAttempt(clientKey);
-        if (!rateLimitResult.allowed) {
-            return {
-                valid: false,
-                error: `Rate limited. Try again in ${Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000)} seconds.`,
-                errorCode: 'RATE_LIMITED',
-            };
-        }
+        return this.withRateLimit(clientKey, true, () => this.checkStoredSolution(challenge, solution, clientKey, context));
+    }
 
+    /**
+     * Verify a solution against the stored expected answer
+     */
+    private async checkStoredSolution(
+        challenge: Challenge,
+        solution: ChallengeSolution,
+        clientKey: string,
+        context?: VerificationContext
+    ): Promise<VerificationResult> {
         // Check if challenge ID matches
         if (challenge.id !== solution.challengeId) {
             return {
@@ -90,8 +141,13 @@ export class ChallengeVerifier {
         }
 
         // Get stored expected answer
-        const stored = this.challengeStore.get(challenge.id);
+        const stored = await this.challengeStore.get(challenge.id);
         if (!stored) {
+            // Challenges that ran out of attempts were deleted too
+            if (await this.isChallengeExhausted(challenge)) {
+                return attemptsExhausted();
+            }
+
             return {
                 valid: false,
                 error: 'Challenge not found or already used',
@@ -101,7 +157,7 @@ export class ChallengeVerifier {
 
         // Verify the stored challenge hasn't expired
         if (Date.now() > stored.expiresAt) {
-            this.challengeStore.delete(challenge.id);
+            await this.challengeStore.delete(challenge.id);
             return {
                 valid: false,
                 error: 'Challenge has expired',
@@ -109,18 +165,31 @@ export class ChallengeVerifier {
             };
         }
 
-        // Verify the signature
-        const signatureData = JSON.stringify({
-            id: challenge.id,
-            type: challenge.type,
-            payload: challenge.payload,
-            expiresAt: challenge.expiresAt,
-            expectedAnswer: stored.expectedAnswer,
-        });
+        if (!isSupportedSignatureVersion(challenge.signatureVersion)) {
+            return {
+                valid: false,
+                error: 'Unsupported signature version',
+                errorCode: 'INVALID_SIGNATURE',
+            };
+        }
+
+        // Verify the signature with the key it was issued under
+        const key = this.keyring.findKey(challenge.kid);
+        if (!key) {
+            return {
+                valid: false,
+                error: 'Unknown or retired signing key',
+                errorCode: 'INVALID_SIGNATURE',
+            };
+        }
 
-        const expectedSignature = signChallenge(signatureData, this.config.secret);
+        // The stored answer is checked below; an Ed25519 signature only has
+        // to cover the challenge's own commitment
+        const answer = key.algorithm === 'ed25519'
+            ? { answerCommitment: challenge.answerCommitment }
+            : { expectedAnswer: stored.expectedAnswer };
 
-        if (!safeCompare(challenge.signature, expectedSignature)) {
+        if (!await verifyChallengeWithKey(challenge, key, answer)) {
             return {
                 valid: false,
                 error: 'Invalid challenge signature',
@@ -128,8 +197,25 @@ export class ChallengeVerifier {
             };
         }
 
-        // Verify the solution using timing-safe comparison
-        if (!safeCompare(solution.solution, stored.expectedAnswer)) {
+        const bindingError = this.checkBinding(challenge, context);
+        if (bindingError) {
+            return bindingError;
+        }
+
+        // Only authentic challenges reach here, so forged IDs can't burn attempts
+        const attempts = await this.countChallengeAttempt(challenge);
+        if (attempts > this.config.maxAttemptsPerChallenge) {
+            await this.challengeStore.delete(challenge.id);
+            return attemptsExhausted();
+        }
+
+        // Verify the solution (timing-safe for exact answers)
+        if (!await isCorrectAnswer(challenge, solution.solution, stored.expectedAnswer)) {
+            if (attempts >= this.config.maxAttemptsPerChallenge) {
+                await this.challengeStore.delete(challenge.id);
+                return attemptsExhausted();
+            }
+
             return {
                 valid: false,
                 error: 'Incorrect solution',
@@ -137,38 +223,55 @@ export class ChallengeVerifier {
             };
         }
 
-        // Solution is correct - remove from store (one-time use)
-        this.challengeStore.delete(challenge.id);
+        const timing = this.checkSolveTime(challenge);
+        if (timing.error) {
+            // Time only moves forward, so the challenge can never pass now
+            await this.challengeStore.delete(challenge.id);
+            return timing.error;
+        }
 
-        // Reset rate limit on successful verification
-        this.rateLimiter.reset(clientKey);
+        // Solution is correct - remove from store (one-time use).
+        // If another request consumed it first, this one loses.
+        const consumed = await this.challengeStore.delete(challenge.id);
+        if (!consumed) {
+            return {
+                valid: false,
+                error: 'Challenge not found or already used',
+                errorCode: 'CHALLENGE_NOT_FOUND',
+            };
+        }
 
-        return { valid: true };
+        return this.success(clientKey, timing.solveMs);
     }
 
     /**
      * Verify a solution using only the signature (stateless mode)
      * 
      * In stateless mode, the expected answer is encoded in the signature
-     * This is less secure but allows for distributed deployments
+     * This is less secure but allows for distributed deployments.
+     * Without a replay ledger, a solved challenge stays valid until it expires.
      */
-    verifyStateless(
+    async verifyStateless(
         challenge: Challenge,
         solution: ChallengeSolution,
-        clientIdentifier?: string
-    ): VerificationResult {
+        clientIdentifier?: string,
+        context?: VerificationContext
+    ): Promise<VerificationResult> {
         const clientKey = clientIdentifier || 'anonymous';
 
-        // Check rate limiting
-        const rateLimitResult = this.rateLimiter.recordAttempt(clientKey);
-        if (!rateLimitResult.allowed) {
-            return {
-                valid: false,
-                error: `Rate limited. Try again in ${Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000)} seconds.`,
-                errorCode: 'RATE_LIMITED',
-            };
-        }
+        // Only a replay ledger stops a solved challenge from passing again
+        return this.withRateLimit(clientKey, this.replayLedger !== undefined, () => this.checkSignedSolution(challenge, solution, clientKey, context));
+    }
 
+    /**
+     * Verify a solution against the challenge signature alone
+     */
+    private async checkSignedSolution(
+        challenge: Challenge,
+        solution: ChallengeSolution,
+        clientKey: string,
+        context?: VerificationContext
+    ): Promise<VerificationResult> {
         // Check if challenge ID matches
         if (challenge.id !== solution.challengeId) {
             return {
@@ -187,19 +290,71 @@ export class ChallengeVerifier {
             };
         }
 
+        // No issued challenge lives longer than expirationMs, so a later
+        // expiry is forged and must not reach the attempt counter
+        if (challenge.expiresAt - Date.now() > this.config.expirationMs) {
+            return {
+                valid: false,
+                error: 'Challenge expires later than any issued challenge',
+                errorCode: 'INVALID_SIGNATURE',
+            };
+        }
+
+        if (!isSupportedSignatureVersion(challenge.signatureVersion)) {
+            return {
+                valid: false,
+                error: 'Unsupported signature version',
+                errorCode: 'INVALID_SIGNATURE',
+            };
+        }
+
+        const key = this.keyring.findKey(challenge.kid);
+        if (!key) {
+            return {
+                valid: false,
+                error: 'Unknown or retired signing key',
+                errorCode: 'INVALID_SIGNATURE',
+            };
+        }
+
+        // Answers to Ed25519 challenges can only be checked by recomputing
+        // their commitment, which needs the private key
+        if (key.algorithm === 'ed25519' && !key.privateKey) {
+            return {
+                valid: false,
+                error: 'Stateless verification needs the private key of the signing key',
+                errorCode: 'INVALID_SIGNATURE',
+            };
+        }
+
+        // The signature doubles as the answer check here, so every attempt counts
+        const attempts = await this.countChallengeAttempt(challenge);
+        if (attempts > this.config.maxAttemptsPerChallenge) {
+            return attemptsExhausted();
+        }
+
+        // Proof of work has no single answer to sign, so its signature only
+        // authenticates the target and the nonce is checked separately
+        const proofOfWork = challenge.type === 'proof_of_work';
+
         // In stateless mode, we verify by reconstructing the signature
         // The solution must produce a matching signature when combined with the challenge
-        const signatureData = JSON.stringify({
-            id: challenge.id,
-            type: challenge.type,
-            payload: challenge.payload,
-            expiresAt: challenge.expiresAt,
-            expectedAnswer: solution.solution,
-        });
+        const answer = await signedAnswer(key, challenge.id, proofOfWork ? PROOF_OF_WORK_ANSWER : solution.solution);
+        const signatureValid = await verifyChallengeWithKey(challenge, key, answer);
+
+        if (proofOfWork && !signatureValid) {
+            return {
+                valid: false,
+                error: 'Invalid challenge signature',
+                errorCode: 'INVALID_SIGNATURE',
+            };
+        }
 
-        const computedSignature = signChallenge(signatureData, this.config.secret);
+        if (!signatureValid || (proofOfWork && !await isCorrectAnswer(challenge, solution.solution, PROOF_OF_WORK_ANSWER))) {
+            if (attempts >= this.config.maxAttemptsPerChallenge) {
+                return attemptsExhausted();
+            }
 
-        if (!safeCompare(challenge.signature, computedSignature)) {
             return {
                 valid: false,
                 error: 'Incorrect solution',
@@ -207,74 +362,369 @@ export class ChallengeVerifier {
             };
         }
 
-        return { valid: true };
+        const bindingError = this.checkBinding(challenge, context);
+        if (bindingError) {
+            return bindingError;
+        }
+
+        const timing = this.checkSolveTime(challenge);
+        if (timing.error) {
+            return timing.error;
+        }
+
+        // Enforce single use - only checked after the solution is proven
+        // correct so wrong guesses don't burn the challenge
+        if (this.replayLedger && !(await this.replayLedger.markSpent(challenge.id, challenge.expiresAt))) {
+            return {
+                valid: false,
+                error: 'Challenge not found or already used',
+                errorCode: 'CHALLENGE_NOT_FOUND',
+            };
+        }
+
+        return this.success(clientKey, timing.solveMs);
+    }
+
+    /**
+     * Check an access token issued by a previous successful verification
+     */
+    async verifyAccessToken(
+        token: string,
+        options?: { clientIdentifier?: string; requiredScopes?: string[] }
+    ): Promise<AccessTokenVerificationResult> {
+        if (!this.accessTokens) {
+            return {
+                valid: false,
+                error: 'Access tokens are not enabled',
+                errorCode: 'INVALID_TOKEN',
+            };
+        }
+
+        return this.accessTokens.verify(token, options);
+    }
+
+    /**
+     * Count an attempt against the client's rate limit, then run the check
+     * The result carries the limit state so servers can send rate limit headers.
+     * A success resets the limit only when it consumed the challenge, so
+     * replaying a solved challenge can't refill it.
+     */
+    private async withRateLimit(
+        clientKey: string,
+        consumesChallenge: boolean,
+        check: () => Promise<VerificationResult>
+    ): Promise<VerificationResult> {
+        const attempt = await this.rateLimiter.recordAttempt(clientKey);
+        const rateLimit: RateLimitInfo = {
+            limit: this.config.rateLimit.maxAttempts,
+            remaining: attempt.remaining,
+            resetAt: attempt.resetAt,
+        };
+
+        if (!attempt.allowed) {
+            return {
+                valid: false,
+                error: `Rate limited. Try again in ${Math.ceil((attempt.resetAt - Date.now()) / 1000)} seconds.`,
+                errorCode: 'RATE_LIMITED',
+                rateLimit,
+            };
+        }
+
+        const result = await check();
+        await this.recordOutcome(clientKey, result);
+
+        if (!result.valid || !consumesChallenge) {
+            return { ...result, rateLimit };
+        }
+
+        await this.rateLimiter.reset(clientKey);
+        return { ...result, rateLimit: { ...rateLimit, remaining: rateLimit.limit } };
+    }
+
+    /**
+     * Feed a verification outcome into the client's adaptive difficulty history
+     * Only solution outcomes count; expired or malformed submissions say
+     * nothing about the solver.
+     */
+    private async recordOutcome(clientKey: string, result: VerificationResult): Promise<void> {
+        if (!this.adaptive) {
+            return;
+        }
+
+        if (result.valid) {
+            await this.adaptive.record(clientKey, { success: true, solveMs: result.solveMs });
+        } else if (
+            result.errorCode === 'INVALID_SOLUTION' ||
+            result.errorCode === 'ATTEMPTS_EXHAUSTED' ||
+            result.errorCode === 'TOO_SLOW'
+        ) {
+            await this.adaptive.record(clientKey, { success: false });
+        }
+    }
+
+    /**
+     * Measure how long a correct answer took, rejecting it if over the limit
+     * Latency is recorded in stats either way.
+     */
+    private checkSolveTime(challenge: Challenge): { solveMs: number; error?: VerificationResult } {
+        // Only version 3 signatures cover difficulty and issue time; older
+        // challenges fall back to the signed expiry and the strictest limit
+        const signed = challenge.signatureVersion === SIGNATURE_VERSION && challenge.issuedAt !== undefined;
+        const issuedAt = signed ? challenge.issuedAt! : challenge.expiresAt - this.config.expirationMs;
+        const difficulty = signed ? challenge.difficulty : undefined;
+        const solveMs = Math.max(0, Date.now() - issuedAt);
+
+        const limit = this.getSolveTimeLimit(difficulty);
+        const tooSlow = limit !== undefined && solveMs > limit + (this.solveTime?.clockSkewMs ?? 1000);
+
+        if (difficulty !== undefined) {
+            const stats = (this.latency[difficulty] ??= { count: 0, averageMs: 0, maxMs: 0, tooSlow: 0 });
+
+            if (tooSlow) {
+                stats.tooSlow++;
+            } else {
+                stats.count++;
+                stats.averageMs += (solveMs - stats.averageMs) / stats.count;
+                stats.maxMs = Math.max(stats.maxMs, solveMs);
+            }
+        }
+
+        if (tooSlow) {
+            return {
+                solveMs,
+                error: {
+                    valid: false,
+                    error: `Solved too slowly (${solveMs}ms, limit ${limit}ms)`,
+                    errorCode: 'TOO_SLOW',
+                },
+            };
+        }
+
+        return { solveMs };
+    }
+
+    /**
+     * Solve time limit for a difficulty, or the strictest one if it isn't known
+     */
+    private getSolveTimeLimit(difficulty: ChallengeDifficulty | undefined): number | undefined {
+        const limits = this.solveTime?.maxSolveMs;
+        if (!limits) {
+            return undefined;
+        }
+
+        if (difficulty !== undefined) {
+            return limits[difficulty];
+        }
+
+        const configured = Object.values(limits).filter((limit): limit is number => limit !== undefined);
+        return configured.length > 0 ? Math.min(...configured) : undefined;
+    }
+
+    /**
+     * Count an attempt at a challenge, returning the total so far
+     * Counters expire with the challenge, and never outlive expirationMs
+     * whatever expiry the submitted challenge claims.
+     */
+    private async countChallengeAttempt(challenge: Challenge): Promise<number> {
+        const ttl = Math.max(1, Math.min(challenge.expiresAt - Date.now(), this.config.expirationMs));
+        const entry = await this.attemptStore.increment(challengeAttemptKey(challenge), ttl);
+        return entry.count;
+    }
+
+    /**
+     * Check whether a challenge has used up its attempts
+     */
+    private async isChallengeExhausted(challenge: Challenge): Promise<boolean> {
+        const entry = await this.attemptStore.get(challengeAttemptKey(challenge));
+        return entry !== undefined && entry.count >= this.config.maxAttemptsPerChallenge;
+    }
+
+    /**
+     * Reject a bound challenge submitted with a different request
+     */
+    private checkBinding(challenge: Challenge, context?: VerificationContext): VerificationResult | undefined {
+        if (challenge.binding === undefined) {
+            return undefined;
+        }
+
+        if (context?.binding === undefined || !safeCompare(challenge.binding, context.binding)) {
+            return {
+                valid: false,
+                error: 'Challenge is bound to a different request',
+                errorCode: 'BINDING_MISMATCH',
+            };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Build a successful result, attaching an access token if enabled
+     */
+    private async success(clientKey: string, solveMs: number): Promise<VerificationResult> {
+        if (!this.accessTokens) {
+            return { valid: true, solveMs };
+        }
+
+        const { token, expiresAt } = await this.accessTokens.issue(clientKey);
+
+        return {
+            valid: true,
+            solveMs,
+            accessToken: token,
+            accessTokenExpiresAt: expiresAt,
+        };
     }
 
     /**
      * Get rate limit status for a client
      */
-    getRateLimitStatus(clientIdentifier: string): {
+    async getRateLimitStatus(clientIdentifier: string): Promise<{
         remaining: number;
         isLimited: boolean;
-    } {
+    }> {
         return {
-            remaining: this.rateLimiter.getRemainingAttempts(clientIdentifier),
-            isLimited: this.rateLimiter.isRateLimited(clientIdentifier),
+            remaining: await this.rateLimiter.getRemainingAttempts(clientIdentifier),
+            isLimited: await this.rateLimiter.isRateLimited(clientIdentifier),
         };
     }
 
     /**
-     * Start periodic cleanup of expired challenges
+     * Get challenge options for a client from its history
+     * Returns no overrides when adaptive difficulty is disabled.
      */
-    private startCleanup(): void {
-        this.cleanupInterval = setInterval(() => {
-            this.cleanup();
-        }, 60000); // Every minute
-
-        if (this.cleanupInterval.unref) {
-            this.cleanupInterval.unref();
+    async getChallengeOverrides(clientIdentifier?: string): Promise<ChallengeOverrides> {
+        if (!this.adaptive) {
+            return {};
         }
+
+        return this.adaptive.select(clientIdentifier || 'anonymous');
     }
 
     /**
-     * Clean up expired challenges
+     * Get a client's adaptive difficulty history
      */
-    private cleanup(): void {
-        const now = Date.now();
+    async getClientHistory(clientIdentifier: string): Promise<ClientHistory | undefined> {
+        return this.adaptive?.getHistory(clientIdentifier);
+    }
 
-        for (const [id, stored] of this.challengeStore) {
-            if (now > stored.expiresAt) {
-                this.challengeStore.delete(id);
-            }
+    /**
+     * Check that a challenge was issued under an Ed25519 key in the keyring
+     * Needs only public keys, so partner services can authenticate challenges;
+     * answers can't be checked this way. Expiry is not checked.
+     */
+    async verifyChallengeSignature(challenge: Challenge): Promise<boolean> {
+        const key = this.keyring.findKey(challenge.kid);
+
+        if (
+            key?.algorithm !== 'ed25519' ||
+            challenge.answerCommitment === undefined ||
+            !isSupportedSignatureVersion(challenge.signatureVersion)
+        ) {
+            return false;
         }
+
+        return verifyChallengeWithKey(challenge, key, { answerCommitment: challenge.answerCommitment });
+    }
+
+    /**
+     * Get Ed25519 public keys (JWKS) for third-party signature verification
+     */
+    getPublicKeys(): { keys: PublicJwk[] } {
+        return this.keyring.getPublicJwks();
     }
 
     /**
      * Destroy the verifier and clean up resources
      */
     destroy(): void {
-        if (this.cleanupInterval) {
-            clearInterval(this.cleanupInterval);
-            this.cleanupInterval = null;
-        }
         this.rateLimiter.destroy();
-        this.challengeStore.clear();
+
+        if (this.ownsChallengeStore) {
+            void this.challengeStore.clear();
+        }
+
+        if (this.ownsAttemptStore) {
+            void this.attemptStore.clear();
+        }
+
+        this.adaptive?.destroy();
     }
 
     /**
      * Get stats for monitoring
      */
-    getStats(): {
+    async getStats(): Promise<{
         pendingChallenges: number;
         rateLimitStats: { activeKeys: number; totalAttempts: number };
-    } {
+        solveLatency: Partial<Record<ChallengeDifficulty, SolveLatencyStats>>;
+    }> {
         return {
-            pendingChallenges: this.challengeStore.size,
-            rateLimitStats: this.rateLimiter.getStats(),
+            pendingChallenges: await this.challengeStore.size(),
+            rateLimitStats: await this.rateLimiter.getStats(),
+            solveLatency: Object.fromEntries(
+                Object.entries(this.latency).map(([difficulty, stats]) => [difficulty, { ...stats }])
+            ),
         };
     }
 }
 
+/**
+ * Check a submitted answer against the expected one
+ * Proof of work accepts any nonce meeting the signed target.
+ */
+async function isCorrectAnswer(challenge: Challenge, answer: string, expectedAnswer: string): Promise<boolean> {
+    if (challenge.type === 'proof_of_work') {
+        return verifyProofOfWork(challenge.payload as ProofOfWorkPayload, answer);
+    }
+
+    return safeCompare(answer, expectedAnswer);
+}
+
+/**
+ * Attempt counter key for a challenge
+ */
+function challengeAttemptKey(challenge: Challenge): string {
+    return `challenge-attempts:${challenge.id}`;
+}
+
+/**
+ * Check a challenge signature, given the answer field its key signs
+ */
+async function verifyChallengeWithKey(
+    challenge: Challenge,
+    key: ResolvedKey,
+    answer: { expectedAnswer: string } | { answerCommitment: string | undefined }
+): Promise<boolean> {
+    const signatureData = buildSignatureData(
+        {
+            id: challenge.id,
+            type: challenge.type,
+            difficulty: challenge.difficulty,
+            payload: challenge.payload,
+            issuedAt: challenge.issuedAt,
+            expiresAt: challenge.expiresAt,
+            ...answer,
+            kid: key.kid,
+            binding: challenge.binding,
+        },
+        challenge.signatureVersion
+    );
+
+    return verifyWithKey(key, signatureData, challenge.signature);
+}
+
+/**
+ * Build an ATTEMPTS_EXHAUSTED result
+ */
+function attemptsExhausted(): VerificationResult {
+    return {
+        valid: false,
+        error: 'Too many attempts for this challenge',
+        errorCode: 'ATTEMPTS_EXHAUSTED',
+    };
+}
+
 /**
  * Create a challenge verifier
  */
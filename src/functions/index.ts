@@ -7,12 +7,14 @@ import { mathFunctions } from './math';
 import { stringFunctions } from './string';
 import { arrayFunctions } from './array';
 import { compositeFunctions } from './composite';
+import { getFunctionSource } from './source';
 
 // Export all function modules
 export * from './math';
 export * from './string';
 export * from './array';
 export * from './composite';
+export * from './source';
 
 /**
  * Combined registry of all available functions
@@ -38,6 +40,18 @@ export function getFunctionByName(name: string): RegisteredFunction | undefined
     return allFunctions.find(f => f.name === name);
 }
 
+/**
+ * Find the registered function a challenge's code came from
+ * Matches both name and source, so altered or obfuscated code is not recognized.
+ */
+export function identifyFunction(name: string, code: string): RegisteredFunction | undefined {
+    const func = getFunctionByName(name);
+    if (!func || code !== getFunctionSource(name)) {
+        return undefined;
+    }
+    return func;
+}
+
 /**
  * Get a random function matching the difficulty
  */
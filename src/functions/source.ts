@@ -0,0 +1,374 @@
+/**
+ * Source code shown to agents for registered functions
+ *
+ * Each source computes the same result as the registered implementation for
+ * generated parameters, and sticks to the JavaScript subset that the
+ * obfuscator and the client interpreter understand: no regular expressions,
+ * template literals, object literals, switch, throw or Map/Set.
+ */
+
+/**
+ * Readable source for every registered function
+ */
+const FUNCTION_SOURCES: Record<string, string> = {
+    fibonacci: `function fibonacci(n) {
+  if (n <= 1) return n;
+  let a = 0, b = 1;
+  for (let i = 2; i <= n; i++) {
+    const temp = a + b;
+    a = b;
+    b = temp;
+  }
+  return b;
+}`,
+    isPrime: `function isPrime(n) {
+  if (n < 2) return false;
+  if (n === 2) return true;
+  if (n % 2 === 0) return false;
+  for (let i = 3; i <= Math.sqrt(n); i += 2) {
+    if (n % i === 0) return false;
+  }
+  return true;
+}`,
+    gcd: `function gcd(a, b) {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b !== 0) {
+    const temp = b;
+    b = a % b;
+    a = temp;
+  }
+  return a;
+}`,
+    lcm: `function lcm(a, b) {
+  let x = Math.abs(a);
+  let y = Math.abs(b);
+  while (y !== 0) {
+    const temp = y;
+    y = x % y;
+    x = temp;
+  }
+  return Math.abs(a * b) / x;
+}`,
+    factorial: `function factorial(n) {
+  if (n <= 1) return 1;
+  let result = 1;
+  for (let i = 2; i <= n; i++) {
+    result *= i;
+  }
+  return result;
+}`,
+    modPow: `function modPow(base, exp, mod) {
+  if (mod === 1) return 0;
+  let result = 1;
+  base = base % mod;
+  while (exp > 0) {
+    if (exp % 2 === 1) {
+      result = (result * base) % mod;
+    }
+    exp = Math.floor(exp / 2);
+    base = (base * base) % mod;
+  }
+  return result;
+}`,
+    digitSum: `function digitSum(n) {
+  n = Math.abs(n);
+  let sum = 0;
+  while (n > 0) {
+    sum += n % 10;
+    n = Math.floor(n / 10);
+  }
+  return sum;
+}`,
+    digitCount: `function digitCount(n) {
+  if (n === 0) return 1;
+  return Math.floor(Math.log10(Math.abs(n))) + 1;
+}`,
+    isPerfectSquare: `function isPerfectSquare(n) {
+  if (n < 0) return false;
+  const root = Math.sqrt(n);
+  return root === Math.floor(root);
+}`,
+    triangular: `function triangular(n) {
+  return (n * (n + 1)) / 2;
+}`,
+    sumOfPrimes: `function sumOfPrimes(n) {
+  let count = 0;
+  let sum = 0;
+  let num = 2;
+  while (count < n) {
+    let prime = true;
+    for (let i = 2; i * i <= num; i++) {
+      if (num % i === 0) {
+        prime = false;
+        break;
+      }
+    }
+    if (prime) {
+      sum += num;
+      count++;
+    }
+    num++;
+  }
+  return sum;
+}`,
+    reverseWords: `function reverseWords(str) {
+  return str.split(' ').reverse().join(' ');
+}`,
+    reverseString: `function reverseString(str) {
+  return str.split('').reverse().join('');
+}`,
+    countVowels: `function countVowels(str) {
+  const vowels = 'aeiouAEIOU';
+  let count = 0;
+  for (const char of str) {
+    if (vowels.includes(char)) count++;
+  }
+  return count;
+}`,
+    countConsonants: `function countConsonants(str) {
+  const consonants = 'bcdfghjklmnpqrstvwxyzBCDFGHJKLMNPQRSTVWXYZ';
+  let count = 0;
+  for (const char of str) {
+    if (consonants.includes(char)) count++;
+  }
+  return count;
+}`,
+    caesarCipher: `function caesarCipher(str, shift) {
+  const lower = 'abcdefghijklmnopqrstuvwxyz';
+  const upper = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  shift = ((shift % 26) + 26) % 26;
+  let result = '';
+  for (const char of str) {
+    const lowerIndex = lower.indexOf(char);
+    const upperIndex = upper.indexOf(char);
+    if (lowerIndex !== -1) {
+      result += lower[(lowerIndex + shift) % 26];
+    } else if (upperIndex !== -1) {
+      result += upper[(upperIndex + shift) % 26];
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}`,
+    hammingDistance: `function hammingDistance(a, b) {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance;
+}`,
+    countSubstring: `function countSubstring(str, sub) {
+  if (sub.length === 0) return 0;
+  let count = 0;
+  let pos = str.indexOf(sub);
+  while (pos !== -1) {
+    count++;
+    pos = str.indexOf(sub, pos + 1);
+  }
+  return count;
+}`,
+    charAtWrapped: `function charAtWrapped(str, index) {
+  if (str.length === 0) return '';
+  index = ((index % str.length) + str.length) % str.length;
+  return str[index];
+}`,
+    asciiSum: `function asciiSum(str) {
+  let sum = 0;
+  for (const char of str) {
+    sum += char.charCodeAt(0);
+  }
+  return sum;
+}`,
+    removeVowels: `function removeVowels(str) {
+  const vowels = 'aeiouAEIOU';
+  let result = '';
+  for (const char of str) {
+    if (!vowels.includes(char)) result += char;
+  }
+  return result;
+}`,
+    alternatingCase: `function alternatingCase(str) {
+  return str
+    .split('')
+    .map((char, i) => (i % 2 === 0 ? char.toLowerCase() : char.toUpperCase()))
+    .join('');
+}`,
+    wordCount: `function wordCount(str) {
+  const spaces = ' \\t\\n\\r';
+  let count = 0;
+  let inWord = false;
+  for (const char of str) {
+    if (spaces.includes(char)) {
+      inWord = false;
+    } else if (!inWord) {
+      inWord = true;
+      count++;
+    }
+  }
+  return count;
+}`,
+    longestWord: `function longestWord(str) {
+  const spaces = ' \\t\\n\\r';
+  let longest = '';
+  let current = '';
+  for (const char of str) {
+    if (spaces.includes(char)) {
+      if (current.length > longest.length) longest = current;
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.length > longest.length) longest = current;
+  return longest;
+}`,
+    sumEvens: `function sumEvens(arr) {
+  return arr.filter(n => n % 2 === 0).reduce((a, b) => a + b, 0);
+}`,
+    sumOdds: `function sumOdds(arr) {
+  return arr.filter(n => n % 2 !== 0).reduce((a, b) => a + b, 0);
+}`,
+    product: `function product(arr) {
+  return arr.reduce((a, b) => a * b, 1);
+}`,
+    rotateArray: `function rotateArray(arr, k) {
+  if (arr.length === 0) return [];
+  k = ((k % arr.length) + arr.length) % arr.length;
+  return [...arr.slice(-k), ...arr.slice(0, -k)];
+}`,
+    findMedian: `function findMedian(arr) {
+  const sorted = [...arr].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  if (sorted.length % 2 === 0) {
+    return (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+  return sorted[mid];
+}`,
+    findMode: `function findMode(arr) {
+  let mode = arr[0];
+  let maxCount = 0;
+  for (let i = 0; i < arr.length; i++) {
+    if (arr.indexOf(arr[i]) !== i) continue;
+    let count = 0;
+    for (const n of arr) {
+      if (n === arr[i]) count++;
+    }
+    if (count > maxCount) {
+      maxCount = count;
+      mode = arr[i];
+    }
+  }
+  return mode;
+}`,
+    range: `function range(arr) {
+  if (arr.length === 0) return 0;
+  return Math.max(...arr) - Math.min(...arr);
+}`,
+    countGreaterThan: `function countGreaterThan(arr, threshold) {
+  return arr.filter(n => n > threshold).length;
+}`,
+    countLessThan: `function countLessThan(arr, threshold) {
+  return arr.filter(n => n < threshold).length;
+}`,
+    secondLargest: `function secondLargest(arr) {
+  const sorted = [...arr].sort((a, b) => b - a);
+  for (const n of sorted) {
+    if (n < sorted[0]) return n;
+  }
+  return undefined;
+}`,
+    runningSum: `function runningSum(arr) {
+  const result = [];
+  let sum = 0;
+  for (const n of arr) {
+    sum += n;
+    result.push(sum);
+  }
+  return result;
+}`,
+    elementAtWrapped: `function elementAtWrapped(arr, index) {
+  index = ((index % arr.length) + arr.length) % arr.length;
+  return arr[index];
+}`,
+    dotProduct: `function dotProduct(a, b) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}`,
+    maxIndex: `function maxIndex(arr) {
+  let maxIdx = 0;
+  for (let i = 1; i < arr.length; i++) {
+    if (arr[i] > arr[maxIdx]) {
+      maxIdx = i;
+    }
+  }
+  return maxIdx;
+}`,
+    applyChainedOperations: `function applyChainedOperations(initialValue, operations) {
+  let result = initialValue;
+  for (const op of operations) {
+    const name = op.operation;
+    if (name === 'add') result += op.value ?? 0;
+    else if (name === 'subtract') result -= op.value ?? 0;
+    else if (name === 'multiply') result *= op.value ?? 1;
+    else if (name === 'divide') result /= op.value ?? 1;
+    else if (name === 'modulo') result %= op.value ?? 1;
+    else if (name === 'power') result = Math.pow(result, op.value ?? 1);
+    else if (name === 'floor') result = Math.floor(result);
+    else if (name === 'ceil') result = Math.ceil(result);
+    else if (name === 'abs') result = Math.abs(result);
+    else if (name === 'negate') result = -result;
+  }
+  return result;
+}`,
+    computeAndHash: `function computeAndHash(a, b, c) {
+  const step1 = a * b;
+  const step2 = step1 + c;
+  const step3 = step2 % 1000;
+  const step4 = step3 * (a % 10);
+  return Math.abs(step4).toString(16).padStart(4, '0');
+}`,
+    evaluatePolynomial: `function evaluatePolynomial(a, b, c, x) {
+  return a * x * x + b * x + c;
+}`,
+    weightedSum: `function weightedSum(values, weights) {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i] * weights[i];
+  }
+  return sum;
+}`,
+    checksum: `function checksum(values) {
+  let result = 0;
+  for (let i = 0; i < values.length; i++) {
+    result = ((result << 5) - result + values[i]) | 0;
+  }
+  return Math.abs(result);
+}`,
+    evaluateExpression: `function evaluateExpression(expr) {
+  if (typeof expr === 'number') return expr;
+  const op = expr[0];
+  const left = evaluateExpression(expr[1]);
+  const right = evaluateExpression(expr[2]);
+  if (op === '+') return left + right;
+  if (op === '-') return left - right;
+  if (op === '*') return left * right;
+  if (op === '/') return left / right;
+  if (op === '%') return left % right;
+  return Math.pow(left, right);
+}`,
+};
+
+/**
+ * Get the source sent in challenges for a registered function
+ */
+export function getFunctionSource(functionName: string): string {
+    if (!Object.prototype.hasOwnProperty.call(FUNCTION_SOURCES, functionName)) {
+        throw new Error(`No source for function: ${functionName}`);
+    }
+    return FUNCTION_SOURCES[functionName];
+}
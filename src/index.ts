@@ -9,11 +9,59 @@ export * from './core/types';
 export * from './core/encoding';
 export { ChallengeGenerator, createGenerator } from './core/generator';
 export { ChallengeVerifier, createVerifier } from './core/verifier';
+export { computeRequestBinding, canonicalizeBody } from './core/binding';
+export { AdaptiveDifficulty, DefaultDifficultyPolicy, createAdaptiveDifficulty, createDefaultDifficultyPolicy } from './core/adaptive';
+export type { DefaultDifficultyPolicyOptions } from './core/adaptive';
+export { SIGNATURE_VERSION } from './core/signature';
+export { verifyProofOfWork } from './core/proof-of-work';
+export { generateProgram } from './core/program';
+export { obfuscateCode, OBFUSCATION_PRESETS } from './core/obfuscator';
+export type { ObfuscationOptions } from './core/obfuscator';
 
 // Server exports
 export { CaptchaLM, createCaptchaLM } from './server/standalone';
 export { createExpressMiddleware, createVerificationEndpoint } from './server/middleware';
 export type { CaptchaLMRequest } from './server/middleware';
+export { createFastifyPlugin } from './server/fastify';
+export { createKoaMiddleware } from './server/koa';
+export { createHonoMiddleware } from './server/hono';
+export { CaptchaLMProtection, createProtection } from './server/protection';
+export { createFetchHandler, withCaptchaLM } from './server/fetch';
+export type { FetchHandler, ProtectedFetchHandler } from './server/fetch';
+
+// Signing keys
+export { Keyring, createKeyring, signingKeysFromJwks } from './utils/keyring';
+export { canonicalize } from './utils/canonical';
+
+// Client identification
+export { ClientIdentifierResolver, createClientIdentifierResolver } from './utils/client-identifier';
+export type { ResolvedKey } from './utils/keyring';
+
+// Storage adapters (Redis lives in captchalm/storage, which needs Node's net module)
+export {
+    MemoryChallengeStore,
+    MemoryRateLimitStore,
+    MemoryReplayLedger,
+    createMemoryChallengeStore,
+    createMemoryRateLimitStore,
+    createMemoryReplayLedger,
+    MemoryClientHistoryStore,
+    createMemoryClientHistoryStore,
+    SqliteChallengeStore,
+    SqliteRateLimitStore,
+    SqliteReplayLedger,
+    createSqliteChallengeStore,
+    createSqliteRateLimitStore,
+    createSqliteReplayLedger,
+    SqliteClientHistoryStore,
+    createSqliteClientHistoryStore,
+} from './storage';
+export type {
+    MemoryReplayLedgerOptions,
+    SqliteDatabase,
+    SqliteStatement,
+    SqliteStoreOptions,
+} from './storage';
 
 // Function registry
 export {
@@ -22,6 +70,8 @@ export {
     getFunctionsByDifficulty,
     getFunctionsByCategory,
     getRandomFunction,
+    getFunctionSource,
+    identifyFunction,
     functionCategories,
 } from './functions';
 
@@ -30,13 +80,41 @@ export type {
     Challenge,
     ChallengeType,
     ChallengeDifficulty,
+    ChallengeOverrides,
     ChallengePayload,
     ChallengeSolution,
     VerificationResult,
     VerificationErrorCode,
+    VerificationContext,
     CaptchaLMConfig,
+    AdaptiveDifficultyConfig,
+    ClientHistory,
+    ClientHistoryStoreAdapter,
+    DifficultyPolicy,
+    ClientIdentifierConfig,
+    ClientIdentifierFunction,
+    ClientRequestInfo,
+    SigningKey,
+    SigningAlgorithm,
+    HmacSigningKey,
+    Ed25519SigningKey,
+    PublicJwk,
     RateLimitConfig,
+    RateLimitAlgorithm,
+    RateLimitInfo,
+    ChallengeStoreAdapter,
+    StoredChallenge,
+    RateLimitStoreAdapter,
+    RateLimitEntry,
+    SlidingLogEntry,
+    TokenBucketEntry,
+    ReplayLedgerAdapter,
     MiddlewareConfig,
+    FetchHandlerConfig,
+    CaptchaLMContext,
+    ProtectionRequest,
+    ProtectionResponse,
+    ProtectionResult,
     RegisteredFunction,
     EncodingType,
 } from './core/types';
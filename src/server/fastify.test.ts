@@ -0,0 +1,152 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createFastifyPlugin } from './fastify';
+import { createExpressMiddleware } from './middleware';
+import { CaptchaLMSolver } from '../client/solver';
+import type { CaptchaLMContext, Challenge, MiddlewareConfig } from '../core/types';
+
+const config: MiddlewareConfig = { secret: 'test-secret', challengeTypes: ['encoded_instruction'], accessTokens: {} };
+
+const closers: (() => Promise<unknown>)[] = [];
+
+afterEach(async () => {
+    await Promise.all(closers.splice(0).map(close => close()));
+});
+
+/**
+ * Fastify app with one protected route echoing its verification state
+ */
+async function fastifyApp(): Promise<FastifyInstance> {
+    const { plugin, protect } = createFastifyPlugin(config);
+    const app = Fastify();
+    closers.push(() => app.close());
+
+    await app.register(plugin);
+    app.post('/api/data', { preHandler: protect }, async request => ({ captchalm: request.captchalm }));
+    await app.ready();
+    return app;
+}
+
+/**
+ * Express app on a free port with the same protected route
+ */
+async function expressUrl(): Promise<string> {
+    const { protect } = createExpressMiddleware(config);
+    const app = express();
+    app.use(express.json());
+    app.use(protect);
+    app.post('/api/data', (_req, res) => {
+        res.json({ ok: true });
+    });
+
+    const server: Server = await new Promise(resolve => {
+        const listening = app.listen(0, () => resolve(listening));
+    });
+    closers.push(() => new Promise(resolve => server.close(resolve)));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Solution headers and body for a challenge
+ */
+function submission(challenge: Challenge) {
+    const { solution } = new CaptchaLMSolver().solve(challenge);
+    return {
+        headers: { 'x-captchalm-id': challenge.id, 'x-captchalm-solution': solution },
+        payload: { data: 'hello', _CaptchaLMChallenge: challenge },
+    };
+}
+
+/**
+ * Replace values that differ per challenge, keeping the shape of a 401 body
+ */
+function shape(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(shape);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, shape(entry)]));
+    }
+    return typeof value;
+}
+
+describe('createFastifyPlugin', () => {
+    it('serves challenges from the challenge route', async () => {
+        const app = await fastifyApp();
+
+        const response = await app.inject({ method: 'GET', url: '/_captchalm/challenge' });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toMatchObject({ success: true, challenge: { type: 'encoded_instruction' } });
+    });
+
+    it('answers unsolved and wrongly solved requests with the same 401 bodies as Express', async () => {
+        const app = await fastifyApp();
+        const url = await expressUrl();
+
+        const fromFastify = await app.inject({ method: 'POST', url: '/api/data', payload: {} });
+        const fromExpress = await fetch(`${url}/api/data`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{}' });
+        const inline = fromFastify.json() as { error: string; captchalm: { challenge: Challenge } };
+
+        expect(fromFastify.statusCode).toBe(401);
+        expect(fromExpress.status).toBe(401);
+        const expressInline = (await fromExpress.json()) as { captchalm: { challenge: Challenge } };
+        expect(shape(inline)).toEqual(shape(expressInline));
+        expect(inline.error).toBe('AI verification required');
+
+        const wrongly = (challenge: Challenge) => {
+            const { headers, payload } = submission(challenge);
+            return { headers: { ...headers, 'x-captchalm-solution': 'wrong' }, payload };
+        };
+        const wrongFromFastify = await app.inject({ method: 'POST', url: '/api/data', ...wrongly(inline.captchalm.challenge) });
+        const expressSubmission = wrongly(expressInline.captchalm.challenge);
+        const wrongFromExpress = await fetch(`${url}/api/data`, {
+            method: 'POST',
+            headers: { ...expressSubmission.headers, 'content-type': 'application/json' },
+            body: JSON.stringify(expressSubmission.payload),
+        });
+
+        expect(wrongFromFastify.statusCode).toBe(401);
+        expect(wrongFromExpress.status).toBe(401);
+        expect(wrongFromFastify.json()).toEqual(await wrongFromExpress.json());
+    });
+
+    it('populates request.captchalm for a solved request', async () => {
+        const app = await fastifyApp();
+        const inline = (await app.inject({ method: 'POST', url: '/api/data', payload: {} })).json() as { captchalm: { challenge: Challenge } };
+
+        const response = await app.inject({ method: 'POST', url: '/api/data', ...submission(inline.captchalm.challenge) });
+
+        expect(response.statusCode).toBe(200);
+        const { captchalm } = response.json() as { captchalm: CaptchaLMContext };
+        expect(captchalm.verified).toBe(true);
+        expect(captchalm.clientIdentifier).toBe('127.0.0.1');
+        expect(captchalm.challenge?.id).toBe(inline.captchalm.challenge.id);
+    });
+
+    it('accepts the access token issued for a solve', async () => {
+        const app = await fastifyApp();
+        const inline = (await app.inject({ method: 'POST', url: '/api/data', payload: {} })).json() as { captchalm: { challenge: Challenge } };
+        const solved = await app.inject({ method: 'POST', url: '/api/data', ...submission(inline.captchalm.challenge) });
+        const token = solved.headers['x-captchalm-token'];
+        expect(token).toEqual(expect.any(String));
+
+        const reused = await app.inject({ method: 'POST', url: '/api/data', headers: { authorization: `CaptchaLM ${token}` }, payload: {} });
+
+        expect(reused.statusCode).toBe(200);
+        const { captchalm } = reused.json() as { captchalm: CaptchaLMContext };
+        expect(captchalm.verified).toBe(true);
+        expect(captchalm.accessToken?.sub).toBe('127.0.0.1');
+        expect(captchalm.challenge).toBeUndefined();
+    });
+
+    it('skips encapsulation, so its decorator reaches routes outside the plugin', async () => {
+        const app = await fastifyApp();
+
+        expect(app.hasRequestDecorator('captchalm')).toBe(true);
+        expect((await app.inject({ method: 'GET', url: '/_captchalm/challenge' })).statusCode).toBe(200);
+    });
+});
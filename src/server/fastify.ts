@@ -0,0 +1,112 @@
+/**
+ * Fastify plugin for CaptchaLM
+ */
+
+import type {
+    FastifyPluginAsync,
+    FastifyReply,
+    FastifyRequest,
+    preHandlerAsyncHookHandler,
+    RouteHandlerMethod,
+} from 'fastify';
+import type {
+    MiddlewareConfig,
+    CaptchaLMContext,
+    ProtectionRequest,
+    ProtectionResponse,
+} from '../core/types';
+import type { ChallengeGenerator } from '../core/generator';
+import type { ChallengeVerifier } from '../core/verifier';
+import { CaptchaLMProtection } from './protection';
+
+declare module 'fastify' {
+    interface FastifyRequest {
+        /** CaptchaLM verification state, set by the protect hook */
+        captchalm?: CaptchaLMContext;
+    }
+}
+
+/**
+ * Framework-neutral view of a Fastify request
+ */
+function toProtectionRequest(request: FastifyRequest): ProtectionRequest {
+    return {
+        method: request.method,
+        path: request.url.split('?')[0],
+        headers: request.headers,
+        body: request.body,
+        remoteAddress: request.socket.remoteAddress,
+    };
+}
+
+/**
+ * Send a framework-neutral response
+ */
+function sendResponse(reply: FastifyReply, response: ProtectionResponse): FastifyReply {
+    return reply.code(response.status).headers(response.headers).send(response.body);
+}
+
+/**
+ * Create a Fastify plugin for CaptchaLM protection
+ * Registering `plugin` adds the challenge route and the `request.captchalm`
+ * decorator; add `protect` as a `preHandler` on the routes to protect.
+ */
+export function createFastifyPlugin(config: MiddlewareConfig): {
+    plugin: FastifyPluginAsync;
+    protect: preHandlerAsyncHookHandler;
+    challenge: RouteHandlerMethod;
+    publicKeys: RouteHandlerMethod;
+    generator: ChallengeGenerator;
+    verifier: ChallengeVerifier;
+} {
+    const protection = new CaptchaLMProtection(config);
+
+    /**
+     * Challenge route handler
+     * Returns a new challenge for clients to solve
+     */
+    const challenge: RouteHandlerMethod = async (request, reply) => {
+        return sendResponse(reply, await protection.issueChallenge(toProtectionRequest(request)));
+    };
+
+    /**
+     * Public key route handler
+     * Publishes Ed25519 keys (JWKS) so other services can check challenge signatures
+     */
+    const publicKeys: RouteHandlerMethod = async () => {
+        return protection.getPublicKeys();
+    };
+
+    /**
+     * Protection hook
+     * Verifies that the request contains a valid challenge solution
+     */
+    const protect: preHandlerAsyncHookHandler = async (request, reply) => {
+        const result = await protection.protect(toProtectionRequest(request));
+        request.captchalm = result.context;
+
+        if (!result.verified) {
+            return sendResponse(reply, result.response);
+        }
+
+        reply.headers(result.headers);
+    };
+
+    const plugin: FastifyPluginAsync = async (fastify) => {
+        fastify.decorateRequest('captchalm', undefined);
+        fastify.get(protection.config.challengeEndpoint, challenge);
+    };
+
+    // As fastify-plugin does: keep the decorator visible outside the plugin scope
+    Object.defineProperty(plugin, Symbol.for('skip-override'), { value: true });
+    Object.defineProperty(plugin, Symbol.for('fastify.display-name'), { value: 'captchalm' });
+
+    return {
+        plugin,
+        protect,
+        challenge,
+        publicKeys,
+        generator: protection.generator,
+        verifier: protection.verifier,
+    };
+}
@@ -0,0 +1,185 @@
+import { generateKeyPairSync } from 'crypto';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import { createFetchHandler, withCaptchaLM } from './fetch';
+import { wrapFetch } from '../client/fetch';
+import { CaptchaLMSolver, getInlineChallenge } from '../client/solver';
+import type { CaptchaLMContext, FetchHandlerConfig, MiddlewareConfig } from '../core/types';
+import { collectImportGraph } from '../test-utils/import-graph';
+
+/**
+ * Fresh Ed25519 keyring entry
+ */
+function ed25519Config(): Partial<MiddlewareConfig> {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    return {
+        keys: [{
+            kid: 'ed-1',
+            algorithm: 'ed25519',
+            publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+            privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        }],
+    };
+}
+
+const fetchConfig: FetchHandlerConfig = { challengeTypes: ['encoded_instruction'], getClientAddress: () => '203.0.113.7' };
+
+const signing: [string, () => Partial<MiddlewareConfig>][] = [
+    ['HMAC', () => ({ secret: 'test-secret' })],
+    ['Ed25519', ed25519Config],
+];
+
+const bodies: [string, RequestInit][] = [
+    ['GET without a body', { method: 'GET' }],
+    ['empty POST', { method: 'POST' }],
+    ['JSON', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ data: 'hello' }) }],
+    ['urlencoded', { method: 'POST', headers: { 'content-type': 'application/x-www-form-urlencoded' }, body: 'data=hello' }],
+    ['multipart', { method: 'POST', body: (() => { const form = new FormData(); form.set('data', 'hello'); return form; })() }],
+    ['plain text', { method: 'PUT', headers: { 'content-type': 'text/plain' }, body: 'hello' }],
+];
+
+/**
+ * Protected handler echoing its verification state, as a fetch function
+ */
+function protectedApp(config: Partial<MiddlewareConfig>) {
+    const contexts: CaptchaLMContext[] = [];
+    const handler = withCaptchaLM(async (request, captchalm) => {
+        contexts.push(captchalm);
+        return Response.json({ method: request.method, body: await request.text() });
+    }, { challengeTypes: ['encoded_instruction'], getClientAddress: () => '203.0.113.7', ...config } as FetchHandlerConfig);
+
+    const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => handler(new Request(input, init))) as typeof fetch;
+    return { handler, fetchImpl, contexts };
+}
+
+describe.each(signing)('withCaptchaLM with %s signing', (_, signingConfig) => {
+    describe.each([false, true])('bindToRequest: %s', (bindToRequest) => {
+        it.each(bodies)('verifies a solved %s request', async (_, init) => {
+            const { fetchImpl, contexts } = protectedApp({ ...signingConfig(), bindToRequest });
+            const agentFetch = wrapFetch(fetchImpl, { solver: new CaptchaLMSolver() });
+
+            const response = await agentFetch('https://api.example.com/data', init);
+
+            expect(response.status).toBe(200);
+            expect(contexts).toHaveLength(1);
+            expect(contexts[0].verified).toBe(true);
+            expect(((await response.json()) as { method: string }).method).toBe(init.method);
+        });
+    });
+
+    it('answers unsolved requests with an inline challenge', async () => {
+        const { handler, contexts } = protectedApp(signingConfig());
+
+        const response = await handler(new Request('https://api.example.com/data', { method: 'POST' }));
+
+        expect(response.status).toBe(401);
+        expect(response.headers.get('content-type')).toContain('application/json');
+        expect(await getInlineChallenge(response)).toBeDefined();
+        expect(contexts).toHaveLength(0);
+    });
+
+    it('rejects a wrong solution', async () => {
+        const { handler } = protectedApp(signingConfig());
+        const challenge = await getInlineChallenge(await handler(new Request('https://api.example.com/data')));
+
+        const response = await handler(new Request('https://api.example.com/data', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json', 'x-captchalm-id': challenge!.id, 'x-captchalm-solution': 'wrong' },
+            body: JSON.stringify({ _CaptchaLMChallenge: challenge }),
+        }));
+
+        expect(response.status).toBe(401);
+        expect(((await response.json()) as { errorCode: string }).errorCode).toBe('INVALID_SOLUTION');
+    });
+});
+
+describe('createFetchHandler', () => {
+    it('serves challenges from the endpoint and through the wrapped handler', async () => {
+        const { challenge, withCaptchaLM: protect } = createFetchHandler({ ...fetchConfig, secret: 'test-secret' });
+        const handler = protect(() => new Response('protected'));
+
+        for (const response of [
+            await challenge(new Request('https://api.example.com/_captchalm/challenge')),
+            await handler(new Request('https://api.example.com/_captchalm/challenge')),
+        ]) {
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { challenge: { type: string } };
+            expect(body.challenge.type).toBe('encoded_instruction');
+        }
+    });
+
+    it('publishes Ed25519 public keys', async () => {
+        const { publicKeys } = createFetchHandler({ ...fetchConfig, ...ed25519Config() } as FetchHandlerConfig);
+
+        const jwks = (await (await publicKeys(new Request('https://api.example.com/.well-known/jwks.json'))).json()) as { keys: Record<string, unknown>[] };
+
+        expect(jwks.keys).toHaveLength(1);
+        expect(jwks.keys[0]).toMatchObject({ kty: 'OKP', crv: 'Ed25519', kid: 'ed-1' });
+        expect(jwks.keys[0].d).toBeUndefined();
+    });
+
+    it('adds token headers to responses with immutable headers', async () => {
+        const handler = withCaptchaLM(
+            () => Response.redirect('https://api.example.com/next', 302),
+            { ...fetchConfig, secret: 'test-secret', accessTokens: {} }
+        );
+        const agentFetch = wrapFetch((async (input: string | URL | Request, init?: RequestInit) =>
+            handler(new Request(input, init))) as typeof fetch);
+
+        const response = await agentFetch('https://api.example.com/data');
+
+        expect(response.status).toBe(302);
+        expect(response.headers.get('location')).toBe('https://api.example.com/next');
+        expect(response.headers.get('x-captchalm-token')).toBeTruthy();
+    });
+});
+
+describe('createFetchHandler client identification', () => {
+    it('refuses a config that cannot tell clients apart', () => {
+        expect(() => createFetchHandler({ secret: 'test-secret' })).toThrow(/cannot identify clients/);
+        expect(() => withCaptchaLM(() => new Response(), { secret: 'test-secret', clientIdentifier: { trustedProxies: ['10.0.0.0/8'] } }))
+            .toThrow(/cannot identify clients/);
+    });
+
+    it.each<[string, FetchHandlerConfig]>([
+        ['getClientAddress', { getClientAddress: request => request.headers.get('x-test-peer') ?? undefined }],
+        ['a custom resolver', { clientIdentifier: { resolve: request => request.headers['x-test-peer'] as string | undefined } }],
+        ['identity headers', { clientIdentifier: { identityHeaders: ['x-test-peer'] } }],
+    ])('identifies clients with %s', async (_, identification) => {
+        const contexts: CaptchaLMContext[] = [];
+        const handler = withCaptchaLM((_request, captchalm) => {
+            contexts.push(captchalm);
+            return new Response('ok');
+        }, { secret: 'test-secret', challengeTypes: ['encoded_instruction'], accessTokens: {}, ...identification });
+        const fetchFrom = (peer: string) => (async (input: string | URL | Request, init?: RequestInit) => {
+            const request = new Request(input, init);
+            request.headers.set('x-test-peer', peer);
+            return handler(request);
+        }) as typeof fetch;
+
+        const solver = new CaptchaLMSolver();
+        const first = await wrapFetch(fetchFrom('198.51.100.1'), { solver })('https://api.example.com/data');
+        expect(first.status).toBe(200);
+
+        // The token was issued to the first client, so the second has to solve for itself
+        const replayed = await fetchFrom('198.51.100.2')('https://api.example.com/data', {
+            headers: { authorization: `CaptchaLM ${solver.getAccessToken('https://api.example.com/data')}` },
+        });
+        expect(replayed.status).toBe(401);
+
+        expect(contexts).toHaveLength(1);
+        expect(contexts[0].clientIdentifier).not.toBe('unknown');
+    });
+});
+
+describe('captchalm/fetch entry', () => {
+    it('imports no Node built-ins, directly or through its dependencies', () => {
+        const { files, bareImports } = collectImportGraph(resolve(__dirname, 'fetch.ts'));
+
+        expect(bareImports).toEqual([]);
+        for (const [file, source] of files) {
+            expect(source, file).not.toMatch(/\bBuffer\.|\brequire\(/);
+        }
+        expect(files.size).toBeGreaterThan(5);
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * Web-standard fetch handler for CaptchaLM
+ * Works wherever WHATWG Request and Response exist: edge and serverless
+ * runtimes, Deno, Bun and Node.
+ */
+
+import type { FetchHandlerConfig, CaptchaLMContext, ProtectionRequest } from '../core/types';
+import type { ChallengeGenerator } from '../core/generator';
+import type { ChallengeVerifier } from '../core/verifier';
+import { CaptchaLMProtection } from './protection';
+import { toProtectionRequest, toResponse } from './web';
+
+/**
+ * Fetch-style request handler
+ */
+export type FetchHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Handler protected by withCaptchaLM, given the request's verification state
+ */
+export type ProtectedFetchHandler = (request: Request, captchalm: CaptchaLMContext) => Response | Promise<Response>;
+
+/**
+ * Add headers to a handler's response
+ * Responses from fetch() have immutable headers, so the response is copied.
+ */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+    if (Object.keys(headers).length === 0) {
+        return response;
+    }
+
+    const copy = new Response(response.body, response);
+    for (const [name, value] of Object.entries(headers)) {
+        copy.headers.set(name, value);
+    }
+    return copy;
+}
+
+/**
+ * Create fetch handlers for CaptchaLM protection
+ * Throws if the config gives no way to tell clients apart, since they would
+ * all share one rate limit and access tokens would work for anyone.
+ */
+export function createFetchHandler(config: FetchHandlerConfig): {
+    withCaptchaLM: (handler: ProtectedFetchHandler) => FetchHandler;
+    challenge: FetchHandler;
+    publicKeys: FetchHandler;
+    generator: ChallengeGenerator;
+    verifier: ChallengeVerifier;
+} {
+    const { getClientAddress, ...middlewareConfig } = config;
+    if (!getClientAddress && !config.clientIdentifier?.resolve && !config.clientIdentifier?.identityHeaders?.length) {
+        throw new Error(
+            'createFetchHandler cannot identify clients: set getClientAddress, clientIdentifier.resolve or clientIdentifier.identityHeaders'
+        );
+    }
+
+    const protection = new CaptchaLMProtection(middlewareConfig);
+
+    /**
+     * Framework-neutral view of a request, with the peer address if configured
+     */
+    const toRequest = async (request: Request): Promise<ProtectionRequest> => ({
+        ...(await toProtectionRequest(request)),
+        remoteAddress: getClientAddress?.(request),
+    });
+
+    /**
+     * Challenge endpoint handler
+     * Returns a new challenge for clients to solve
+     */
+    const challenge: FetchHandler = async (request) => {
+        return toResponse(await protection.issueChallenge(await toRequest(request)));
+    };
+
+    /**
+     * Public key endpoint handler
+     * Publishes Ed25519 keys (JWKS) so other services can check challenge signatures
+     */
+    const publicKeys: FetchHandler = async () => {
+        return toResponse({ status: 200, headers: {}, body: protection.getPublicKeys() });
+    };
+
+    /**
+     * Wrap a handler so it only runs for verified requests
+     * The wrapped handler also answers GET requests to the challenge endpoint.
+     */
+    const withCaptchaLM = (handler: ProtectedFetchHandler): FetchHandler => async (request) => {
+        const protectionRequest = await toRequest(request);
+
+        if (request.method === 'GET' && protectionRequest.path === protection.config.challengeEndpoint) {
+            return toResponse(await protection.issueChallenge(protectionRequest));
+        }
+
+        const result = await protection.protect(protectionRequest);
+
+        if (!result.verified) {
+            return toResponse(result.response);
+        }
+
+        return withHeaders(await handler(request, result.context), result.headers);
+    };
+
+    return {
+        withCaptchaLM,
+        challenge,
+        publicKeys,
+        generator: protection.generator,
+        verifier: protection.verifier,
+    };
+}
+
+/**
+ * Wrap a single fetch handler with CaptchaLM protection
+ */
+export function withCaptchaLM(handler: ProtectedFetchHandler, config: FetchHandlerConfig): FetchHandler {
+    return createFetchHandler(config).withCaptchaLM(handler);
+}
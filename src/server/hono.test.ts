@@ -0,0 +1,87 @@
+import type { AddressInfo } from 'net';
+import { Hono } from 'hono';
+import { serve, type ServerType } from '@hono/node-server';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createHonoMiddleware } from './hono';
+import { wrapFetch } from '../client/fetch';
+import { CaptchaLMSolver } from '../client/solver';
+import type { CaptchaLMContext } from '../core/types';
+
+const servers: ServerType[] = [];
+
+afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+/**
+ * Start a protected Hono app on a free port, echoing the body it was sent
+ */
+async function startApp() {
+    const contexts: CaptchaLMContext[] = [];
+    const { protect } = createHonoMiddleware({ secret: 'test-secret', challengeTypes: ['encoded_instruction'] });
+
+    const app = new Hono();
+    app.use('/api/*', protect);
+    app.use('/_captchalm/*', protect);
+    app.all('/api/data', async (c) => {
+        contexts.push(c.get('captchalm'));
+        return c.json({ method: c.req.method, body: await c.req.text() });
+    });
+
+    const server = serve({ fetch: app.fetch, port: 0 });
+    servers.push(server);
+    await new Promise(resolve => server.once('listening', resolve));
+
+    return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, contexts };
+}
+
+const bodies: [string, RequestInit][] = [
+    ['GET', { method: 'GET' }],
+    ['JSON', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ data: 'hello' }) }],
+    ['urlencoded', { method: 'POST', headers: { 'content-type': 'application/x-www-form-urlencoded' }, body: 'data=hello' }],
+];
+
+describe('createHonoMiddleware on @hono/node-server', () => {
+    it('serves challenges from the endpoint', async () => {
+        const { url } = await startApp();
+
+        const response = await fetch(`${url}/_captchalm/challenge`);
+
+        expect(response.status).toBe(200);
+        expect(((await response.json()) as { challenge: { type: string } }).challenge.type).toBe('encoded_instruction');
+    });
+
+    it.each(bodies)('verifies a solved %s request', async (_, init) => {
+        const { url, contexts } = await startApp();
+
+        const response = await wrapFetch(fetch, { solver: new CaptchaLMSolver() })(`${url}/api/data`, init);
+
+        expect(response.status).toBe(200);
+        expect(contexts).toHaveLength(1);
+        expect(contexts[0].verified).toBe(true);
+
+        // The handler can still read the body after the middleware did
+        const echoed = (await response.json()) as { method: string; body: string };
+        expect(echoed.method).toBe(init.method);
+        if (init.body !== undefined) {
+            expect(echoed.body).toContain('hello');
+        }
+    });
+
+    it('identifies clients by their peer address', async () => {
+        const { url, contexts } = await startApp();
+
+        await wrapFetch(fetch, { solver: new CaptchaLMSolver() })(`${url}/api/data`);
+
+        expect(contexts[0].clientIdentifier).toMatch(/127\.0\.0\.1/);
+    });
+
+    it('answers unsolved requests with a challenge', async () => {
+        const { url, contexts } = await startApp();
+
+        const response = await fetch(`${url}/api/data`, { method: 'POST' });
+
+        expect(response.status).toBe(401);
+        expect(contexts).toHaveLength(0);
+    });
+});
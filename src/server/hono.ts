@@ -0,0 +1,98 @@
+/**
+ * Hono middleware for CaptchaLM
+ */
+
+import type { Context, Handler, MiddlewareHandler } from 'hono';
+import type { MiddlewareConfig, CaptchaLMContext, ProtectionRequest } from '../core/types';
+import type { ChallengeGenerator } from '../core/generator';
+import type { ChallengeVerifier } from '../core/verifier';
+import { CaptchaLMProtection } from './protection';
+import { toProtectionRequest as toWebProtectionRequest, toResponse } from './web';
+
+declare module 'hono' {
+    interface ContextVariableMap {
+        /** CaptchaLM verification state, set by the protect middleware */
+        captchalm: CaptchaLMContext;
+    }
+}
+
+/**
+ * Framework-neutral view of a Hono request
+ * On @hono/node-server the peer address is read from the incoming message;
+ * elsewhere clients are identified by the `clientIdentifier` rules alone.
+ */
+async function toProtectionRequest(c: Context): Promise<ProtectionRequest> {
+    const env = c.env as { incoming?: { socket?: { remoteAddress?: string } } } | undefined;
+
+    return {
+        ...(await toWebProtectionRequest(c.req.raw)),
+        remoteAddress: env?.incoming?.socket?.remoteAddress,
+    };
+}
+
+/**
+ * Create Hono middleware for CaptchaLM protection
+ * `protect` also answers GET requests to the challenge endpoint, so it can be
+ * mounted with `app.use()` ahead of the routes.
+ */
+export function createHonoMiddleware(config: MiddlewareConfig): {
+    protect: MiddlewareHandler;
+    challenge: Handler;
+    publicKeys: Handler;
+    generator: ChallengeGenerator;
+    verifier: ChallengeVerifier;
+} {
+    const protection = new CaptchaLMProtection(config);
+
+    /**
+     * Challenge endpoint handler
+     * Returns a new challenge for clients to solve
+     */
+    const challenge: Handler = async (c) => {
+        return toResponse(await protection.issueChallenge(await toProtectionRequest(c)));
+    };
+
+    /**
+     * Public key endpoint handler
+     * Publishes Ed25519 keys (JWKS) so other services can check challenge signatures
+     */
+    const publicKeys: Handler = (c) => {
+        return c.json(protection.getPublicKeys());
+    };
+
+    /**
+     * Protection middleware
+     * Verifies that the request contains a valid challenge solution
+     */
+    const protect: MiddlewareHandler = async (c, next) => {
+        const protectionRequest = await toProtectionRequest(c);
+
+        if (c.req.method === 'GET' && protectionRequest.path === protection.config.challengeEndpoint) {
+            c.res = toResponse(await protection.issueChallenge(protectionRequest));
+            return;
+        }
+
+        const result = await protection.protect(protectionRequest);
+        c.set('captchalm', result.context);
+
+        if (!result.verified) {
+            c.res = toResponse(result.response);
+            return;
+        }
+
+        await next();
+
+        // Set after the handler: c.header() copies finalized responses, whose headers may be immutable
+        for (const [name, value] of Object.entries(result.headers)) {
+            c.header(name, value);
+        }
+    };
+
+    return {
+        protect,
+        challenge,
+        publicKeys,
+        generator: protection.generator,
+        verifier: protection.verifier,
+    };
+}
@@ -0,0 +1,138 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import Koa from 'koa';
+import { bodyParser } from '@koa/bodyparser';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createKoaMiddleware } from './koa';
+import { wrapFetch } from '../client/fetch';
+import { CaptchaLMSolver } from '../client/solver';
+import type { CaptchaLMContext, Challenge } from '../core/types';
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+/**
+ * Start a protected Koa app on a free port, echoing the parsed body
+ */
+async function startApp(options: { bodyParser: boolean }) {
+    const contexts: CaptchaLMContext[] = [];
+    const { protect } = createKoaMiddleware({ secret: 'test-secret', challengeTypes: ['encoded_instruction'] });
+
+    const app = new Koa();
+    if (options.bodyParser) {
+        app.use(bodyParser());
+    }
+    app.use(protect);
+    app.use((ctx) => {
+        contexts.push(ctx.state.captchalm as CaptchaLMContext);
+        ctx.body = { method: ctx.method, body: (ctx.request as { body?: unknown }).body ?? null };
+    });
+
+    const server = app.listen(0);
+    servers.push(server);
+    await new Promise(resolve => server.once('listening', resolve));
+
+    return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, contexts };
+}
+
+/**
+ * Fetch a challenge and solve it, for submitting in the request body
+ */
+async function solvedChallenge(url: string) {
+    const { challenge } = (await (await fetch(`${url}/_captchalm/challenge`)).json()) as { challenge: Challenge };
+    const { solution } = new CaptchaLMSolver().solve(challenge);
+    return { challenge, headers: { 'x-captchalm-id': challenge.id, 'x-captchalm-solution': solution } };
+}
+
+const bodies: [string, RequestInit][] = [
+    ['GET', { method: 'GET' }],
+    ['JSON', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ data: 'hello' }) }],
+    ['urlencoded', { method: 'POST', headers: { 'content-type': 'application/x-www-form-urlencoded' }, body: 'data=hello' }],
+];
+
+describe('createKoaMiddleware with a body parser', () => {
+    it.each(bodies)('verifies a solved %s request', async (_, init) => {
+        const { url, contexts } = await startApp({ bodyParser: true });
+
+        const response = await wrapFetch(fetch, { solver: new CaptchaLMSolver() })(`${url}/data`, init);
+
+        expect(response.status).toBe(200);
+        expect(contexts).toHaveLength(1);
+        expect(contexts[0].verified).toBe(true);
+        expect(contexts[0].clientIdentifier).toBeTruthy();
+    });
+
+    it('reads the challenge from a JSON body', async () => {
+        const { url, contexts } = await startApp({ bodyParser: true });
+        const { challenge, headers } = await solvedChallenge(url);
+
+        const response = await fetch(`${url}/data`, {
+            method: 'POST',
+            headers: { ...headers, 'content-type': 'application/json' },
+            body: JSON.stringify({ data: 'hello', _CaptchaLMChallenge: challenge }),
+        });
+
+        expect(response.status).toBe(200);
+        expect(contexts[0].verified).toBe(true);
+    });
+
+    it('reads the challenge from a urlencoded body', async () => {
+        const { url, contexts } = await startApp({ bodyParser: true });
+        const { challenge, headers } = await solvedChallenge(url);
+
+        const response = await fetch(`${url}/data`, {
+            method: 'POST',
+            headers: { ...headers, 'content-type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({ data: 'hello', _CaptchaLMChallenge: JSON.stringify(challenge) }).toString(),
+        });
+
+        expect(response.status).toBe(200);
+        expect(contexts[0].verified).toBe(true);
+    });
+});
+
+describe('createKoaMiddleware without a body parser', () => {
+    it.each([
+        ['JSON', 'application/json', (challenge: unknown) => JSON.stringify({ _CaptchaLMChallenge: challenge })],
+        ['urlencoded', 'application/x-www-form-urlencoded', (challenge: unknown) => new URLSearchParams({ _CaptchaLMChallenge: JSON.stringify(challenge) }).toString()],
+    ])('explains that a %s body was not parsed', async (_, contentType, encode) => {
+        const { url, contexts } = await startApp({ bodyParser: false });
+        const { challenge, headers } = await solvedChallenge(url);
+
+        const response = await fetch(`${url}/data`, {
+            method: 'POST',
+            headers: { ...headers, 'content-type': contentType },
+            body: encode(challenge),
+        });
+
+        expect(response.status).toBe(401);
+        expect(((await response.json()) as { error: string }).error).toMatch(/^Request body was not parsed/);
+        expect(contexts).toHaveLength(0);
+    });
+
+    it('gives wrapFetch the same error for a JSON POST', async () => {
+        const { url } = await startApp({ bodyParser: false });
+
+        const response = await wrapFetch(fetch, { solver: new CaptchaLMSolver() })(`${url}/data`, bodies[1][1]);
+
+        expect(response.status).toBe(401);
+        expect(((await response.json()) as { error: string }).error).toMatch(/^Request body was not parsed/);
+    });
+
+    it('still verifies requests that send the challenge in a header', async () => {
+        const { url, contexts } = await startApp({ bodyParser: false });
+        const { challenge, headers } = await solvedChallenge(url);
+
+        const response = await fetch(`${url}/data`, {
+            method: 'POST',
+            headers: { ...headers, 'content-type': 'application/json', 'x-captchalm-challenge': btoa(JSON.stringify(challenge)) },
+            body: JSON.stringify({ data: 'hello' }),
+        });
+
+        expect(response.status).toBe(200);
+        expect(contexts[0].verified).toBe(true);
+    });
+});
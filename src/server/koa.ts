@@ -0,0 +1,109 @@
+/**
+ * Koa middleware for CaptchaLM
+ */
+
+import type { Context, Middleware } from 'koa';
+import type {
+    MiddlewareConfig,
+    CaptchaLMContext,
+    ProtectionRequest,
+    ProtectionResponse,
+} from '../core/types';
+import type { ChallengeGenerator } from '../core/generator';
+import type { ChallengeVerifier } from '../core/verifier';
+import { CaptchaLMProtection, hasBody } from './protection';
+
+declare module 'koa' {
+    interface DefaultState {
+        /** CaptchaLM verification state, set by the protect middleware */
+        captchalm?: CaptchaLMContext;
+    }
+}
+
+/**
+ * Framework-neutral view of a Koa request
+ * The body is read from `ctx.request.body`, as set by koa-bodyparser and similar.
+ */
+function toProtectionRequest(ctx: Context): ProtectionRequest {
+    const request: ProtectionRequest = {
+        method: ctx.method,
+        path: ctx.originalUrl.split('?')[0],
+        headers: ctx.headers,
+        body: (ctx.request as { body?: unknown }).body,
+        remoteAddress: ctx.req.socket.remoteAddress,
+    };
+    request.unparsedBody = request.body === undefined && hasBody(request);
+    return request;
+}
+
+/**
+ * Send a framework-neutral response
+ */
+function sendResponse(ctx: Context, response: ProtectionResponse): void {
+    ctx.status = response.status;
+    ctx.set(response.headers);
+    ctx.body = response.body;
+}
+
+/**
+ * Create Koa middleware for CaptchaLM protection
+ * `protect` also answers GET requests to the challenge endpoint, so it can be
+ * mounted with `app.use()` in front of a router.
+ */
+export function createKoaMiddleware(config: MiddlewareConfig): {
+    protect: Middleware;
+    challenge: Middleware;
+    publicKeys: Middleware;
+    generator: ChallengeGenerator;
+    verifier: ChallengeVerifier;
+} {
+    const protection = new CaptchaLMProtection(config);
+
+    /**
+     * Challenge endpoint handler
+     * Returns a new challenge for clients to solve
+     */
+    const challenge: Middleware = async (ctx) => {
+        sendResponse(ctx, await protection.issueChallenge(toProtectionRequest(ctx)));
+    };
+
+    /**
+     * Public key endpoint handler
+     * Publishes Ed25519 keys (JWKS) so other services can check challenge signatures
+     */
+    const publicKeys: Middleware = async (ctx) => {
+        ctx.body = protection.getPublicKeys();
+    };
+
+    /**
+     * Protection middleware
+     * Verifies that the request contains a valid challenge solution
+     */
+    const protect: Middleware = async (ctx, next) => {
+        const protectionRequest = toProtectionRequest(ctx);
+
+        if (ctx.method === 'GET' && protectionRequest.path === protection.config.challengeEndpoint) {
+            sendResponse(ctx, await protection.issueChallenge(protectionRequest));
+            return;
+        }
+
+        const result = await protection.protect(protectionRequest);
+        ctx.state.captchalm = result.context;
+
+        if (!result.verified) {
+            sendResponse(ctx, result.response);
+            return;
+        }
+
+        ctx.set(result.headers);
+        await next();
+    };
+
+    return {
+        protect,
+        challenge,
+        publicKeys,
+        generator: protection.generator,
+        verifier: protection.verifier,
+    };
+}
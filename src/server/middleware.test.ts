@@ -0,0 +1,64 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express, { type NextFunction, type Request, type Response } from 'express';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createVerificationEndpoint } from './middleware';
+import type { MiddlewareConfig } from '../core/types';
+
+const config: MiddlewareConfig = { secret: 'test-secret', challengeTypes: ['encoded_instruction'] };
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+/**
+ * Start an app serving the verification endpoint on a free port
+ */
+async function startApp(options: { bodyParser: boolean }): Promise<string> {
+    const app = express();
+    if (options.bodyParser) {
+        app.use(express.json());
+    }
+    app.post('/verify', createVerificationEndpoint(config));
+
+    const server: Server = await new Promise(resolve => {
+        const listening = app.listen(0, () => resolve(listening));
+    });
+    servers.push(server);
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/verify`;
+}
+
+describe('createVerificationEndpoint', () => {
+    it.each([
+        ['without a body parser', false],
+        ['with a body parser', true],
+    ])('answers 400 to a request with no body %s', async (_, bodyParser) => {
+        const response = await fetch(await startApp({ bodyParser }), { method: 'POST' });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ success: false, error: 'Missing challenge or solution in request body' });
+    });
+
+    it('settles its promise without a body, as Express 4 never catches a rejection', async () => {
+        const json = vi.fn();
+        const res = { status: vi.fn(() => ({ json })) } as unknown as Response;
+        const next = vi.fn<Parameters<NextFunction>, void>();
+
+        await createVerificationEndpoint(config)({} as Request, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('passes other failures to next', async () => {
+        const req = { body: { challenge: { id: 'c' }, solution: 's' } } as Request;
+        const next = vi.fn<Parameters<NextFunction>, void>();
+
+        // A request without socket details can't be resolved to a client
+        await createVerificationEndpoint(config)(req, {} as Response, next);
+
+        expect(next).toHaveBeenCalledWith(expect.any(TypeError));
+    });
+});
@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CaptchaLMProtection, getRateLimitHeaders } from './protection';
+import { bytesToBase64Url, utf8ToBytes } from '../utils/bytes';
+import type { Challenge, MiddlewareConfig, ProtectionRequest, ProtectionResponse, ProtectionResult } from '../core/types';
+
+const config: MiddlewareConfig = { secret: 'test-secret', challengeTypes: ['encoded_instruction'], accessTokens: {} };
+
+/**
+ * POST request from a fixed peer with extra headers
+ */
+function request(headers: Record<string, string> = {}, body?: unknown): ProtectionRequest {
+    return { method: 'POST', path: '/api/data', headers, body, remoteAddress: '203.0.113.7' };
+}
+
+/**
+ * Response of a request that was not let through
+ */
+function rejection(result: ProtectionResult): ProtectionResponse {
+    if (result.verified) {
+        throw new Error('Request was let through');
+    }
+    return result.response;
+}
+
+/**
+ * base64url JSON segment, as in a JWT
+ */
+function segment(value: unknown): string {
+    return bytesToBase64Url(utf8ToBytes(JSON.stringify(value)));
+}
+
+describe('CaptchaLMProtection access tokens', () => {
+    it.each([
+        ['null.null.AA', 'null.null.AA'],
+        ['JSON null segments', `${segment(null)}.${segment(null)}.AA`],
+        ['a number header', `${segment(42)}.${segment({})}.AA`],
+        ['an array header', `${segment([])}.${segment({})}.AA`],
+        ['a non-string kid', `${segment({ alg: 'HS256', kid: {} })}.${segment({})}.AA`],
+        ['null claims', `${segment({ alg: 'HS256', typ: 'JWT' })}.${segment(null)}.AA`],
+        ['a string exp', `${segment({ alg: 'HS256', typ: 'JWT' })}.${segment({ iss: 'captchalm', sub: 'x', scope: '', iat: 0, exp: '9999999999', jti: 'j' })}.AA`],
+    ])('falls back to a challenge for a forged token with %s', async (_, token) => {
+        const protection = new CaptchaLMProtection(config);
+
+        const result = await protection.protect(request({ authorization: `CaptchaLM ${token}` }));
+
+        expect(result.verified).toBe(false);
+        expect(!result.verified && result.response.status).toBe(401);
+    });
+
+    it('accepts only the canonical spelling of a token', async () => {
+        const protection = new CaptchaLMProtection(config);
+        const { challenge, expectedAnswer } = await protection.generator.generate();
+        await protection.verifier.storeChallenge(challenge.id, expectedAnswer, challenge.expiresAt);
+        const { accessToken } = await protection.verifier.verify(challenge, { challengeId: challenge.id, solution: expectedAnswer }, 'agent');
+        const [header, claims, signature] = accessToken!.split('.');
+
+        expect((await protection.verifier.verifyAccessToken(accessToken!)).valid).toBe(true);
+
+        // A 32-byte signature leaves two unused bits in its last character
+        const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+        const flipped = signature.slice(0, -1) + alphabet[alphabet.indexOf(signature.at(-1)!) ^ 1];
+
+        for (const variant of [
+            `${header}.${claims}.${signature}=`,
+            `${header}.${claims}.${signature}A`,
+            `${header}.${claims}.${signature.slice(0, 10)}!${signature.slice(10)}`,
+            `${header}.${claims}.${flipped}`,
+            `${header}=.${claims}.${signature}`,
+            `${header}.${claims} .${signature}`,
+        ]) {
+            expect(await protection.verifier.verifyAccessToken(variant), variant).toMatchObject({ valid: false, errorCode: 'INVALID_TOKEN' });
+        }
+    });
+
+    it('reports malformed tokens without throwing', async () => {
+        const protection = new CaptchaLMProtection(config);
+
+        const result = await protection.verifier.verifyAccessToken(`${segment(null)}.${segment(null)}.AA`);
+
+        expect(result).toMatchObject({ valid: false, errorCode: 'INVALID_TOKEN', error: 'Malformed access token' });
+    });
+});
+
+describe('getRateLimitHeaders', () => {
+    const now = 1_700_000_000_000;
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('rounds the reset up to whole seconds and adds Retry-After only when limited', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(now);
+
+        expect(getRateLimitHeaders({ limit: 5, remaining: 2, resetAt: now + 1500 }, false)).toEqual({
+            'RateLimit-Limit': '5',
+            'RateLimit-Remaining': '2',
+            'RateLimit-Reset': '2',
+        });
+        expect(getRateLimitHeaders({ limit: 5, remaining: 0, resetAt: now + 2000 }, true)).toEqual({
+            'RateLimit-Limit': '5',
+            'RateLimit-Remaining': '0',
+            'RateLimit-Reset': '2',
+            'Retry-After': '2',
+        });
+    });
+
+    it('never asks a limited client to retry immediately', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(now);
+
+        for (const resetAt of [now, now - 5000]) {
+            expect(getRateLimitHeaders({ limit: 5, remaining: 0, resetAt }, true)).toMatchObject({
+                'RateLimit-Reset': '0',
+                'Retry-After': '1',
+            });
+        }
+    });
+});
+
+describe('CaptchaLMProtection rate limiting', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('reports the limit on failed attempts and answers 429 with Retry-After once exceeded', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(1_700_000_000_000);
+        const protection = new CaptchaLMProtection({ ...config, rateLimit: { maxAttempts: 2, windowMs: 60000 } });
+        const challenge = (rejection(await protection.protect(request())).body as { captchalm: { challenge: Challenge } }).captchalm.challenge;
+        const submit = async () => rejection(await protection.protect(
+            request({ 'x-captchalm-id': challenge.id, 'x-captchalm-solution': 'wrong' }, { _CaptchaLMChallenge: challenge })
+        ));
+
+        const first = await submit();
+        expect(first.status).toBe(401);
+        expect(first.headers).toEqual({ 'RateLimit-Limit': '2', 'RateLimit-Remaining': '1', 'RateLimit-Reset': '60' });
+        expect((await submit()).status).toBe(401);
+
+        const limited = await submit();
+        expect(limited.status).toBe(429);
+        expect(limited.headers).toEqual({
+            'RateLimit-Limit': '2',
+            'RateLimit-Remaining': '0',
+            'RateLimit-Reset': '60',
+            'Retry-After': '60',
+        });
+        expect(limited.body).toMatchObject({ errorCode: 'RATE_LIMITED' });
+    });
+});
+
+describe('CaptchaLMProtection adaptive difficulty', () => {
+    it('issues harder challenges after repeated incorrect solutions', async () => {
+        const protection = new CaptchaLMProtection({ ...config, difficulty: 'easy', adaptiveDifficulty: {} });
+        const issue = async () => ((await protection.issueChallenge(request())).body as { challenge: Challenge }).challenge;
+
+        expect((await issue()).difficulty).toBe('easy');
+
+        for (let i = 0; i < 2; i++) {
+            const challenge = await issue();
+            const response = rejection(await protection.protect(
+                request({ 'x-captchalm-id': challenge.id, 'x-captchalm-solution': 'wrong' }, { _CaptchaLMChallenge: challenge })
+            ));
+            expect(response.body).toMatchObject({ errorCode: 'INVALID_SOLUTION' });
+        }
+
+        expect((await issue()).difficulty).toBe('medium');
+
+        // Inline challenges in 401 responses follow the same history
+        const inline = (rejection(await protection.protect(request())).body as { captchalm: { challenge: Challenge } }).captchalm.challenge;
+        expect(inline.difficulty).toBe('medium');
+
+        // Other clients are unaffected
+        const other = await protection.issueChallenge({ ...request(), remoteAddress: '203.0.113.8' });
+        expect((other.body as { challenge: Challenge }).challenge.difficulty).toBe('easy');
+    });
+});
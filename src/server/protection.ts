@@ -0,0 +1,438 @@
+/**
+ * Request-agnostic protection flow shared by the server adapters
+ */
+
+import type {
+    MiddlewareConfig,
+    Challenge,
+    VerificationErrorCode,
+    ClientRequestInfo,
+    RateLimitInfo,
+    PublicJwk,
+    CaptchaLMContext,
+    ProtectionRequest,
+    ProtectionResponse,
+    ProtectionResult,
+} from '../core/types';
+import { ChallengeGenerator } from '../core/generator';
+import { ChallengeVerifier } from '../core/verifier';
+import { computeRequestBinding } from '../core/binding';
+import { ClientIdentifierResolver } from '../utils/client-identifier';
+import { base64ToBytes, bytesToUtf8 } from '../utils/bytes';
+
+/**
+ * Default middleware configuration
+ */
+const DEFAULT_MIDDLEWARE_CONFIG: Partial<MiddlewareConfig> = {
+    challengeIdHeader: 'x-captchalm-id',
+    solutionHeader: 'x-captchalm-solution',
+    challengeHeader: 'x-captchalm-challenge',
+    challengeEndpoint: '/_captchalm/challenge',
+    accessTokenHeader: 'x-captchalm-token',
+};
+
+/**
+ * Read a single header value
+ */
+function getHeader(request: ClientRequestInfo, name: string): string | undefined {
+    const value = request.headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Whether the request headers announce a body
+ */
+export function hasBody(request: ClientRequestInfo): boolean {
+    return Number(getHeader(request, 'content-length')) > 0 || getHeader(request, 'transfer-encoding') !== undefined;
+}
+
+/**
+ * Extract a CaptchaLM access token from an Authorization header
+ */
+function getAccessToken(request: ClientRequestInfo): string | undefined {
+    const authorization = getHeader(request, 'authorization');
+    const match = authorization?.match(/^CaptchaLM\s+(\S+)$/i);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Read the submitted challenge from the request body or challenge header
+ * Form bodies carry it as a JSON string; requests without a usable body
+ * send it base64url-encoded in the header.
+ */
+function getSubmittedChallenge(request: ProtectionRequest, challengeHeader: string): Challenge | undefined {
+    const body = request.body as Record<string, unknown> | undefined;
+    const field: unknown = body?._CaptchaLMChallenge;
+    const header = getHeader(request, challengeHeader);
+
+    try {
+        if (field && typeof field === 'object') {
+            return field as Challenge;
+        }
+        if (typeof field === 'string') {
+            return JSON.parse(field) as Challenge;
+        }
+        if (typeof header === 'string') {
+            return JSON.parse(bytesToUtf8(base64ToBytes(header))) as Challenge;
+        }
+    } catch {
+        // Malformed challenge data is treated as missing
+    }
+
+    return undefined;
+}
+
+/**
+ * IETF draft RateLimit-* headers, plus Retry-After when limited
+ */
+export function getRateLimitHeaders(rateLimit: RateLimitInfo, limited: boolean): Record<string, string> {
+    const resetSeconds = Math.max(0, Math.ceil((rateLimit.resetAt - Date.now()) / 1000));
+
+    const headers: Record<string, string> = {
+        'RateLimit-Limit': String(rateLimit.limit),
+        'RateLimit-Remaining': String(rateLimit.remaining),
+        'RateLimit-Reset': String(resetSeconds),
+    };
+
+    if (limited) {
+        headers['Retry-After'] = String(Math.max(1, resetSeconds));
+    }
+
+    return headers;
+}
+
+/**
+ * Build human/LLM-readable instructions for solving a challenge
+ */
+function buildSolvingInstructions(challenge: Challenge): string {
+    const payload = challenge.payload as unknown as Record<string, unknown>;
+    const responseEncoding = (payload.responseEncoding as string) || 'plain';
+
+    let instructions = '';
+
+    switch (challenge.type) {
+        case 'function_execution':
+            instructions = `TASK: Execute the following function with the given parameters.
+
+FUNCTION:
+${payload.functionCode}
+
+PARAMETERS: ${JSON.stringify(payload.parameters)}
+
+STEPS:
+1. Execute ${payload.functionName}(${(payload.parameters as unknown[]).join(', ')})
+2. Take the result and encode it as: ${responseEncoding}
+3. Submit the encoded result as your answer`;
+            break;
+
+        case 'chained_operations':
+            const ops = payload.operations as Array<{ operation: string; value?: number }>;
+            const opList = ops.map((op, i) =>
+                `   ${i + 1}. ${op.operation}${op.value !== undefined ? ` ${op.value}` : ''}`
+            ).join('\n');
+            instructions = `TASK: Apply these operations to the initial value in order.
+
+INITIAL VALUE: ${payload.initialValue}
+
+OPERATIONS:
+${opList}
+
+STEPS:
+1. Start with ${payload.initialValue}
+2. Apply each operation in sequence
+3. Encode the final result as: ${responseEncoding}
+4. Submit the encoded result as your answer`;
+            break;
+
+        case 'encoded_instruction':
+            instructions = `TASK: Decode the instruction, compute the result, and encode your answer.
+
+ENCODED INSTRUCTION: ${payload.instruction}
+INSTRUCTION ENCODING: ${payload.instructionEncoding}
+
+STEPS:
+1. Decode the instruction from ${payload.instructionEncoding}
+2. The decoded text will be a math expression like "Calculate: X + Y"
+3. Compute the result
+4. Encode your answer as: ${responseEncoding}
+5. Submit the encoded result`;
+            break;
+
+        case 'pattern_extraction':
+            instructions = `TASK: Query the data and compute the result.
+
+DATA:
+${JSON.stringify(payload.data, null, 2)}
+
+QUERY: ${payload.query}
+
+STEPS:
+1. Parse the query (e.g., "sum(items[*].value)" means sum all 'value' fields in 'items' array)
+2. Execute the query on the data
+3. Encode the result as: ${responseEncoding}
+4. Submit the encoded result`;
+            break;
+
+        case 'code_transform':
+            instructions = `TASK: Execute the code and return the result.
+
+CODE:
+${payload.code}
+
+TRANSFORM: ${payload.transform}
+
+STEPS:
+1. Execute the JavaScript code (it uses 'return' to return a value)
+2. Apply transform: ${payload.transform === 'execute' ? 'just use the result' : payload.transform}
+3. Encode the result as: ${responseEncoding}
+4. Submit the encoded result`;
+            break;
+
+        case 'proof_of_work':
+            instructions = `TASK: Find a nonce so that the SHA-256 hash of the prefix followed by the nonce starts with enough zero bits.
+
+PREFIX: ${payload.prefix}
+REQUIRED LEADING ZERO BITS: ${payload.difficultyBits}
+
+STEPS:
+1. For nonce = 0, 1, 2, ... compute SHA-256 of the string "${payload.prefix}" + nonce (decimal, UTF-8)
+2. Stop at the first digest whose leading ${payload.difficultyBits} bits are all zero
+3. Submit the nonce itself as your answer (no encoding)
+4. This takes about ${2 ** (payload.difficultyBits as number)} hashes; write and run code rather than computing by hand`;
+            break;
+
+        default:
+            instructions = `TASK: Solve the challenge of type "${challenge.type}" using the payload data.`;
+    }
+
+    // Add encoding help
+    instructions += `
+
+ENCODING REFERENCE:
+- plain: Return the value as a string (e.g., 42 → "42")
+- base64: Base64 encode (e.g., 42 → "NDI=")
+- hex: Hex encode each character (e.g., 42 → "3432")
+- rot13: Shift each letter by 13 (e.g., "abc" → "nop")`;
+
+    return instructions;
+}
+
+/**
+ * Challenge issuing and request verification, independent of any framework
+ * Adapters translate their request into a ProtectionRequest and send the
+ * ProtectionResponse they get back, so every framework behaves the same.
+ */
+export class CaptchaLMProtection {
+    readonly generator: ChallengeGenerator;
+    readonly verifier: ChallengeVerifier;
+    readonly config: Required<MiddlewareConfig>;
+    private clientIdentifiers: ClientIdentifierResolver;
+
+    constructor(config: MiddlewareConfig) {
+        this.config = { ...DEFAULT_MIDDLEWARE_CONFIG, ...config } as Required<MiddlewareConfig>;
+        this.generator = new ChallengeGenerator(this.config);
+        this.verifier = new ChallengeVerifier(this.config);
+        this.clientIdentifiers = new ClientIdentifierResolver(this.config.clientIdentifier);
+    }
+
+    /**
+     * Resolve the client identifier for a request
+     */
+    resolveClientIdentifier(request: ClientRequestInfo): Promise<string> {
+        return this.clientIdentifiers.resolve(request);
+    }
+
+    /**
+     * Response for the challenge endpoint: a new challenge for clients to solve
+     */
+    async issueChallenge(request: ClientRequestInfo): Promise<ProtectionResponse> {
+        try {
+            const clientIdentifier = await this.resolveClientIdentifier(request);
+            const overrides = await this.verifier.getChallengeOverrides(clientIdentifier);
+            const { challenge, expectedAnswer } = await this.generator.generate(overrides);
+
+            // Store the expected answer for verification
+            await this.verifier.storeChallenge(challenge.id, expectedAnswer, challenge.expiresAt);
+
+            return {
+                status: 200,
+                headers: {},
+                body: {
+                    success: true,
+                    challenge: {
+                        id: challenge.id,
+                        type: challenge.type,
+                        difficulty: challenge.difficulty,
+                        payload: challenge.payload,
+                        issuedAt: challenge.issuedAt,
+                        expiresAt: challenge.expiresAt,
+                        signature: challenge.signature,
+                        signatureVersion: challenge.signatureVersion,
+                        kid: challenge.kid,
+                        answerCommitment: challenge.answerCommitment,
+                    },
+                },
+            };
+        } catch (error) {
+            return {
+                status: 500,
+                headers: {},
+                body: {
+                    success: false,
+                    error: 'Failed to generate challenge',
+                },
+            };
+        }
+    }
+
+    /**
+     * Ed25519 public keys (JWKS) so other services can check challenge signatures
+     */
+    getPublicKeys(): { keys: PublicJwk[] } {
+        return this.verifier.getPublicKeys();
+    }
+
+    /**
+     * Verify that a request carries a valid access token or challenge solution
+     */
+    async protect(request: ProtectionRequest): Promise<ProtectionResult> {
+        const clientIdentifier = await this.resolveClientIdentifier(request);
+        const context: CaptchaLMContext = {
+            verified: false,
+            clientIdentifier,
+        };
+
+        // A valid access token from an earlier solve skips the challenge;
+        // an invalid one falls through to the challenge flow
+        const accessToken = getAccessToken(request);
+        if (accessToken) {
+            const tokenResult = await this.verifier.verifyAccessToken(accessToken, { clientIdentifier });
+
+            if (tokenResult.valid) {
+                context.verified = true;
+                context.accessToken = tokenResult.claims;
+                return { verified: true, context, headers: {} };
+            }
+        }
+
+        // Get challenge ID and solution from headers
+        const challengeId = getHeader(request, this.config.challengeIdHeader);
+        const solution = getHeader(request, this.config.solutionHeader);
+
+        // Digest of this request, when binding is enabled
+        const binding = this.config.bindToRequest
+            ? await computeRequestBinding(request.method, request.path, request.body)
+            : undefined;
+
+        if (!challengeId || !solution) {
+            const response = await this.challengeResponse(clientIdentifier, binding, 'AI verification required');
+            return { verified: false, context, response };
+        }
+
+        // The challenge itself travels with the request
+        const challengeData = getSubmittedChallenge(request, this.config.challengeHeader);
+
+        if (!challengeData) {
+            const error = request.unparsedBody
+                ? `Request body was not parsed, so _CaptchaLMChallenge could not be read. Mount a body parser before CaptchaLM or send the challenge in the ${this.config.challengeHeader} header.`
+                : `Challenge data required. Include _CaptchaLMChallenge in body or the ${this.config.challengeHeader} header.`;
+            const response: ProtectionResponse = {
+                status: 401,
+                headers: {},
+                body: { success: false, error },
+            };
+            return { verified: false, context, response };
+        }
+
+        // In binding mode, unbound challenges (e.g. from the challenge
+        // endpoint) are swapped for one bound to this request
+        if (binding !== undefined && challengeData.binding === undefined) {
+            const response = await this.challengeResponse(
+                clientIdentifier, binding, 'Challenge must be bound to this request', 'BINDING_MISMATCH'
+            );
+            return { verified: false, context, response };
+        }
+
+        // Verify the solution
+        const result = await this.verifier.verify(challengeData, { challengeId, solution }, clientIdentifier, { binding });
+
+        const headers = result.rateLimit
+            ? getRateLimitHeaders(result.rateLimit, result.errorCode === 'RATE_LIMITED')
+            : {};
+
+        // A challenge bound to another request is replaced rather than rejected
+        if (result.errorCode === 'BINDING_MISMATCH') {
+            const response = await this.challengeResponse(clientIdentifier, binding, result.error!, result.errorCode);
+            Object.assign(response.headers, headers);
+            return { verified: false, context, response };
+        }
+
+        if (!result.valid) {
+            const response: ProtectionResponse = {
+                status: result.errorCode === 'RATE_LIMITED' ? 429 : 401,
+                headers,
+                body: {
+                    success: false,
+                    error: result.error,
+                    errorCode: result.errorCode,
+                },
+            };
+            return { verified: false, context, response };
+        }
+
+        // Mark as verified
+        context.verified = true;
+        context.challenge = challengeData;
+
+        if (result.accessToken) {
+            headers[this.config.accessTokenHeader] = result.accessToken;
+        }
+
+        return { verified: true, context, headers };
+    }
+
+    /**
+     * 401 response with a new inline challenge and solving instructions
+     */
+    private async challengeResponse(
+        clientIdentifier: string,
+        binding: string | undefined,
+        error: string,
+        errorCode?: VerificationErrorCode
+    ): Promise<ProtectionResponse> {
+        const overrides = await this.verifier.getChallengeOverrides(clientIdentifier);
+        const { challenge, expectedAnswer } = await this.generator.generate({ ...overrides, binding });
+        await this.verifier.storeChallenge(challenge.id, expectedAnswer, challenge.expiresAt);
+
+        return {
+            status: 401,
+            headers: {},
+            body: {
+                success: false,
+                error,
+                errorCode,
+                captchalm: {
+                    challenge: challenge,
+                    instructions: buildSolvingInstructions(challenge),
+                    howToSubmit: {
+                        headers: {
+                            [this.config.challengeIdHeader]: challenge.id,
+                            [this.config.solutionHeader]: '<your_computed_answer>'
+                        },
+                        body: {
+                            _CaptchaLMChallenge: challenge
+                        },
+                        note: 'Retry your original request with these headers and body field added'
+                    }
+                }
+            },
+        };
+    }
+}
+
+/**
+ * Create the request-agnostic protection flow
+ */
+export function createProtection(config: MiddlewareConfig): CaptchaLMProtection {
+    return new CaptchaLMProtection(config);
+}
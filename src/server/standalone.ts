@@ -10,9 +10,16 @@ import type {
     CaptchaLMConfig,
     ChallengeDifficulty,
     ChallengeType,
+    PublicJwk,
+    AccessTokenVerificationResult,
+    VerificationContext,
+    ClientRequestInfo,
+    ClientHistory,
+    SolveLatencyStats,
 } from '../core/types';
 import { ChallengeGenerator } from '../core/generator';
 import { ChallengeVerifier } from '../core/verifier';
+import { ClientIdentifierResolver } from '../utils/client-identifier';
 
 /**
  * Main CaptchaLM class for standalone usage
@@ -20,28 +27,38 @@ import { ChallengeVerifier } from '../core/verifier';
 export class CaptchaLM {
     private generator: ChallengeGenerator;
     private verifier: ChallengeVerifier;
+    private clientIdentifiers: ClientIdentifierResolver;
     private config: CaptchaLMConfig;
 
     constructor(config: CaptchaLMConfig) {
         this.config = config;
         this.generator = new ChallengeGenerator(config);
         this.verifier = new ChallengeVerifier(config);
+        this.clientIdentifiers = new ClientIdentifierResolver(config.clientIdentifier);
     }
 
     /**
      * Generate a new challenge
+     * With adaptive difficulty enabled, the client's history picks the
+     * options; explicit options take precedence.
      */
-    generate(options?: {
+    async generate(options?: {
         type?: ChallengeType;
         difficulty?: ChallengeDifficulty;
-    }): {
+        /** Request binding from computeRequestBinding */
+        binding?: string;
+        /** Client identifier, or request details to resolve one from */
+        client?: string | ClientRequestInfo;
+    }): Promise<{
         challenge: Challenge;
         expectedAnswer: string;
-    } {
-        const result = this.generator.generate(options);
+    }> {
+        const { client, ...explicit } = options ?? {};
+        const overrides = await this.verifier.getChallengeOverrides(await this.toClientIdentifier(client));
+        const result = await this.generator.generate({ ...overrides, ...withoutUndefined(explicit) });
 
         // Store for verification
-        this.verifier.storeChallenge(
+        await this.verifier.storeChallenge(
             result.challenge.id,
             result.expectedAnswer,
             result.challenge.expiresAt
@@ -52,57 +69,100 @@ export class CaptchaLM {
 
     /**
      * Verify a challenge solution
+     * `client` is an identifier, or request details to resolve one from
      */
-    verify(
+    async verify(
         challenge: Challenge,
         solution: string,
-        clientIdentifier?: string
-    ): VerificationResult {
+        client?: string | ClientRequestInfo,
+        context?: VerificationContext
+    ): Promise<VerificationResult> {
         const challengeSolution: ChallengeSolution = {
             challengeId: challenge.id,
             solution,
         };
 
-        return this.verifier.verify(challenge, challengeSolution, clientIdentifier);
+        return this.verifier.verify(challenge, challengeSolution, await this.toClientIdentifier(client), context);
     }
 
     /**
      * Verify a challenge solution in stateless mode
      * (no server-side storage required)
      */
-    verifyStateless(
+    async verifyStateless(
         challenge: Challenge,
         solution: string,
-        clientIdentifier?: string
-    ): VerificationResult {
+        client?: string | ClientRequestInfo,
+        context?: VerificationContext
+    ): Promise<VerificationResult> {
         const challengeSolution: ChallengeSolution = {
             challengeId: challenge.id,
             solution,
         };
 
-        return this.verifier.verifyStateless(challenge, challengeSolution, clientIdentifier);
+        return this.verifier.verifyStateless(challenge, challengeSolution, await this.toClientIdentifier(client), context);
+    }
+
+    /**
+     * Check that a challenge was signed by an Ed25519 key in the keyring,
+     * without checking an answer (works with public keys only)
+     */
+    verifyChallengeSignature(challenge: Challenge): Promise<boolean> {
+        return this.verifier.verifyChallengeSignature(challenge);
+    }
+
+    /**
+     * Resolve the client identifier for a request using the configured rules
+     */
+    resolveClientIdentifier(request: ClientRequestInfo): Promise<string> {
+        return this.clientIdentifiers.resolve(request);
+    }
+
+    /**
+     * Check an access token issued by a previous successful verification
+     */
+    verifyAccessToken(
+        token: string,
+        options?: { clientIdentifier?: string; requiredScopes?: string[] }
+    ): Promise<AccessTokenVerificationResult> {
+        return this.verifier.verifyAccessToken(token, options);
     }
 
     /**
      * Get rate limit status for a client
      */
-    getRateLimitStatus(clientIdentifier: string): {
+    getRateLimitStatus(clientIdentifier: string): Promise<{
         remaining: number;
         isLimited: boolean;
-    } {
+    }> {
         return this.verifier.getRateLimitStatus(clientIdentifier);
     }
 
+    /**
+     * Get a client's adaptive difficulty history
+     */
+    getClientHistory(clientIdentifier: string): Promise<ClientHistory | undefined> {
+        return this.verifier.getClientHistory(clientIdentifier);
+    }
+
     /**
      * Get stats for monitoring
      */
-    getStats(): {
+    getStats(): Promise<{
         pendingChallenges: number;
         rateLimitStats: { activeKeys: number; totalAttempts: number };
-    } {
+        solveLatency: Partial<Record<ChallengeDifficulty, SolveLatencyStats>>;
+    }> {
         return this.verifier.getStats();
     }
 
+    /**
+     * Get Ed25519 public keys (JWKS) for third-party signature verification
+     */
+    getPublicKeys(): { keys: PublicJwk[] } {
+        return this.verifier.getPublicKeys();
+    }
+
     /**
      * Get the current configuration
      */
@@ -116,6 +176,20 @@ export class CaptchaLM {
     destroy(): void {
         this.verifier.destroy();
     }
+
+    /**
+     * Resolve request details to an identifier, passing strings through
+     */
+    private async toClientIdentifier(client: string | ClientRequestInfo | undefined): Promise<string | undefined> {
+        return typeof client === 'object' ? this.clientIdentifiers.resolve(client) : client;
+    }
+}
+
+/**
+ * Drop undefined properties so they don't mask other values when spread
+ */
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
 }
 
 /**
@@ -0,0 +1,60 @@
+/**
+ * WHATWG Request and Response conversions for the fetch and Hono adapters
+ */
+
+import type { ProtectionRequest, ProtectionResponse } from '../core/types';
+
+/**
+ * Parse a JSON, urlencoded or multipart body without consuming the request
+ * Unparseable bodies are treated as absent; multipart files are left out.
+ */
+async function readBody(request: Request): Promise<unknown> {
+    if (request.body === null) {
+        return undefined;
+    }
+
+    const contentType = request.headers.get('content-type') ?? '';
+
+    try {
+        if (contentType.includes('application/json')) {
+            const text = await request.clone().text();
+            return text === '' ? undefined : JSON.parse(text);
+        }
+
+        if (contentType.includes('application/x-www-form-urlencoded')) {
+            return Object.fromEntries(new URLSearchParams(await request.clone().text()));
+        }
+
+        if (contentType.includes('multipart/form-data')) {
+            const form = await request.clone().formData();
+            return Object.fromEntries([...form].filter(([, value]) => typeof value === 'string'));
+        }
+    } catch {
+        // Fall through to no body
+    }
+
+    return undefined;
+}
+
+/**
+ * Framework-neutral view of a fetch request
+ * Requests carry no peer address; adapters add one where the runtime has it.
+ */
+export async function toProtectionRequest(request: Request): Promise<ProtectionRequest> {
+    return {
+        method: request.method,
+        path: new URL(request.url).pathname,
+        headers: Object.fromEntries(request.headers),
+        body: await readBody(request),
+    };
+}
+
+/**
+ * Build a JSON Response from a framework-neutral response
+ */
+export function toResponse(response: ProtectionResponse): Response {
+    return new Response(JSON.stringify(response.body), {
+        status: response.status,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...response.headers },
+    });
+}
@@ -0,0 +1,8 @@
+/**
+ * Storage adapter exports
+ */
+
+export * from './memory';
+export * from './sqlite';
+export * from './resp';
+export * from './redis';
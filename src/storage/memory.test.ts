@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryReplayLedger } from './memory';
+
+describe('MemoryReplayLedger', () => {
+    it('marks a challenge spent once until it expires', () => {
+        const ledger = new MemoryReplayLedger();
+        const now = Date.now();
+
+        expect(ledger.markSpent('c1', now + 1000)).toBe(true);
+        expect(ledger.markSpent('c1', now + 1000)).toBe(false);
+
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(now + 1001);
+        expect(ledger.markSpent('c1', now + 2000)).toBe(true);
+        vi.useRealTimers();
+    });
+
+    it('rejects new challenges instead of evicting unexpired ones when full', () => {
+        const ledger = new MemoryReplayLedger({ maxEntries: 2 });
+        const expiresAt = Date.now() + 60000;
+
+        expect(ledger.markSpent('c1', expiresAt)).toBe(true);
+        expect(ledger.markSpent('c2', expiresAt)).toBe(true);
+        expect(ledger.markSpent('c3', expiresAt)).toBe(false);
+
+        // The earlier challenges stay spent
+        expect(ledger.markSpent('c1', expiresAt)).toBe(false);
+        expect(ledger.size()).toBe(2);
+    });
+
+    it('makes room by evicting expired entries', () => {
+        const ledger = new MemoryReplayLedger({ maxEntries: 2 });
+        const now = Date.now();
+
+        ledger.markSpent('old', now - 1);
+        ledger.markSpent('c1', now + 60000);
+
+        expect(ledger.markSpent('c2', now + 60000)).toBe(true);
+        expect(ledger.markSpent('c1', now + 60000)).toBe(false);
+    });
+});
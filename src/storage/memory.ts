@@ -0,0 +1,409 @@
+/**
+ * In-memory storage for CaptchaLM
+ */
+
+import type {
+    ChallengeStoreAdapter,
+    StoredChallenge,
+    RateLimitStoreAdapter,
+    RateLimitEntry,
+    SlidingLogEntry,
+    TokenBucketEntry,
+    ReplayLedgerAdapter,
+    ClientHistory,
+    ClientHistoryStoreAdapter,
+} from '../core/types';
+
+/**
+ * Minimum time between sweeps of expired entries
+ */
+const SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * In-memory challenge store (default)
+ *
+ * Expired entries are dropped when read and swept on write,
+ * so no background timer is needed.
+ */
+export class MemoryChallengeStore implements ChallengeStoreAdapter {
+    private entries: Map<string, StoredChallenge> = new Map();
+    private lastSweep = 0;
+
+    get(challengeId: string): StoredChallenge | undefined {
+        const entry = this.entries.get(challengeId);
+
+        if (entry && Date.now() > entry.expiresAt) {
+            this.entries.delete(challengeId);
+            return undefined;
+        }
+
+        return entry;
+    }
+
+    set(challengeId: string, entry: StoredChallenge): void {
+        this.sweep(Date.now());
+        this.entries.set(challengeId, entry);
+    }
+
+    delete(challengeId: string): boolean {
+        return this.entries.delete(challengeId);
+    }
+
+    expire(now: number): number {
+        let removed = 0;
+
+        for (const [id, stored] of this.entries) {
+            if (now > stored.expiresAt) {
+                this.entries.delete(id);
+                removed++;
+            }
+        }
+
+        return removed;
+    }
+
+    size(): number {
+        this.expire(Date.now());
+        return this.entries.size;
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Remove expired entries if the last sweep is old enough
+     */
+    private sweep(now: number): void {
+        if (now - this.lastSweep >= SWEEP_INTERVAL_MS) {
+            this.lastSweep = now;
+            this.expire(now);
+        }
+    }
+}
+
+/**
+ * In-memory rate limit store (default)
+ */
+export class MemoryRateLimitStore implements RateLimitStoreAdapter {
+    private entries: Map<string, RateLimitEntry> = new Map();
+    private logs: Map<string, { attempts: number[]; expiresAt: number }> = new Map();
+    private buckets: Map<string, { tokens: number; updatedAt: number; expiresAt: number }> = new Map();
+    private lastSweep = 0;
+
+    get(key: string): RateLimitEntry | undefined {
+        const entry = this.entries.get(key);
+
+        if (entry && Date.now() > entry.resetAt) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        return entry ? { ...entry } : undefined;
+    }
+
+    increment(key: string, windowMs: number): RateLimitEntry {
+        const now = Date.now();
+        this.sweep(now);
+
+        let entry = this.entries.get(key);
+
+        // Create new entry or reset expired entry
+        if (!entry || now > entry.resetAt) {
+            entry = {
+                count: 0,
+                resetAt: now + windowMs,
+            };
+            this.entries.set(key, entry);
+        }
+
+        entry.count++;
+
+        return { ...entry };
+    }
+
+    logAttempt(key: string, now: number, windowMs: number, limit: number): SlidingLogEntry & { logged: boolean } {
+        this.sweep(now);
+
+        const log = this.logs.get(key) ?? { attempts: [], expiresAt: 0 };
+        log.attempts = log.attempts.filter(at => at > now - windowMs);
+
+        const logged = log.attempts.length < limit;
+        if (logged) {
+            log.attempts.push(now);
+            log.expiresAt = now + windowMs;
+        }
+
+        if (log.attempts.length > 0) {
+            this.logs.set(key, log);
+        } else {
+            this.logs.delete(key);
+        }
+
+        return { count: log.attempts.length, oldest: log.attempts[0], logged };
+    }
+
+    getLog(key: string, now: number, windowMs: number): SlidingLogEntry {
+        const attempts = (this.logs.get(key)?.attempts ?? []).filter(at => at > now - windowMs);
+        return { count: attempts.length, oldest: attempts[0] };
+    }
+
+    takeToken(key: string, now: number, capacity: number, refillMs: number): TokenBucketEntry & { taken: boolean } {
+        this.sweep(now);
+
+        let tokens = this.getBucket(key, now, capacity, refillMs).tokens;
+        const taken = tokens >= 1;
+        if (taken) {
+            tokens -= 1;
+        }
+
+        // Forget the bucket once it would have refilled completely
+        this.buckets.set(key, { tokens, updatedAt: now, expiresAt: now + (capacity - tokens) * refillMs });
+
+        return { tokens, taken };
+    }
+
+    getBucket(key: string, now: number, capacity: number, refillMs: number): TokenBucketEntry {
+        const bucket = this.buckets.get(key);
+
+        if (!bucket) {
+            return { tokens: capacity };
+        }
+
+        return { tokens: Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) / refillMs) };
+    }
+
+    delete(key: string): boolean {
+        const deleted = [this.entries.delete(key), this.logs.delete(key), this.buckets.delete(key)];
+        return deleted.includes(true);
+    }
+
+    expire(now: number): number {
+        let removed = 0;
+
+        for (const [key, entry] of this.entries) {
+            if (now > entry.resetAt) {
+                this.entries.delete(key);
+                removed++;
+            }
+        }
+
+        for (const store of [this.logs, this.buckets]) {
+            for (const [key, entry] of store) {
+                if (now > entry.expiresAt) {
+                    store.delete(key);
+                    removed++;
+                }
+            }
+        }
+
+        return removed;
+    }
+
+    stats(): { activeKeys: number; totalAttempts: number } {
+        this.expire(Date.now());
+
+        let totalAttempts = 0;
+
+        for (const entry of this.entries.values()) {
+            totalAttempts += entry.count;
+        }
+
+        for (const log of this.logs.values()) {
+            totalAttempts += log.attempts.length;
+        }
+
+        return {
+            activeKeys: this.entries.size + this.logs.size + this.buckets.size,
+            totalAttempts,
+        };
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.logs.clear();
+        this.buckets.clear();
+    }
+
+    /**
+     * Remove expired entries if the last sweep is old enough
+     */
+    private sweep(now: number): void {
+        if (now - this.lastSweep >= SWEEP_INTERVAL_MS) {
+            this.lastSweep = now;
+            this.expire(now);
+        }
+    }
+}
+
+/**
+ * In-memory replay ledger options
+ */
+export interface MemoryReplayLedgerOptions {
+    /** Maximum spent challenges tracked at once; further challenges are rejected (default 100000) */
+    maxEntries?: number;
+}
+
+/**
+ * Bounded in-memory replay ledger
+ *
+ * Only expired entries are evicted. When full of unexpired entries it fails
+ * closed, rejecting new challenges until some expire; size `maxEntries`
+ * above the number of stateless verifications expected within one
+ * expiration window.
+ */
+export class MemoryReplayLedger implements ReplayLedgerAdapter {
+    private entries: Map<string, number> = new Map();
+    private maxEntries: number;
+
+    constructor(options?: MemoryReplayLedgerOptions) {
+        this.maxEntries = options?.maxEntries ?? 100000;
+    }
+
+    markSpent(challengeId: string, expiresAt: number): boolean {
+        const now = Date.now();
+        const spentUntil = this.entries.get(challengeId);
+
+        if (spentUntil !== undefined && now <= spentUntil) {
+            return false;
+        }
+
+        if (this.entries.size >= this.maxEntries) {
+            this.expire(now);
+
+            // Evicting an unexpired entry would make its challenge replayable
+            if (this.entries.size >= this.maxEntries) {
+                return false;
+            }
+        }
+
+        this.entries.set(challengeId, expiresAt);
+        return true;
+    }
+
+    /**
+     * Remove entries that expired before `now`, returning the count removed
+     */
+    expire(now: number): number {
+        let removed = 0;
+
+        for (const [id, spentUntil] of this.entries) {
+            if (now > spentUntil) {
+                this.entries.delete(id);
+                removed++;
+            }
+        }
+
+        return removed;
+    }
+
+    /**
+     * Number of spent challenges tracked
+     */
+    size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Remove all entries
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+/**
+ * In-memory client history store (default for adaptive difficulty)
+ */
+export class MemoryClientHistoryStore implements ClientHistoryStoreAdapter {
+    private entries: Map<string, { history: ClientHistory; expiresAt: number }> = new Map();
+    private lastSweep = 0;
+
+    get(clientIdentifier: string): ClientHistory | undefined {
+        const entry = this.entries.get(clientIdentifier);
+
+        if (entry && Date.now() > entry.expiresAt) {
+            this.entries.delete(clientIdentifier);
+            return undefined;
+        }
+
+        // Copy so callers can't mutate stored state
+        return entry ? { ...entry.history } : undefined;
+    }
+
+    set(clientIdentifier: string, history: ClientHistory, ttlMs: number): void {
+        const now = Date.now();
+        this.sweep(now);
+        this.entries.set(clientIdentifier, { history: { ...history }, expiresAt: now + ttlMs });
+    }
+
+    delete(clientIdentifier: string): boolean {
+        return this.entries.delete(clientIdentifier);
+    }
+
+    /**
+     * Remove histories that expired before `now`, returning the count removed
+     */
+    expire(now: number): number {
+        let removed = 0;
+
+        for (const [id, entry] of this.entries) {
+            if (now > entry.expiresAt) {
+                this.entries.delete(id);
+                removed++;
+            }
+        }
+
+        return removed;
+    }
+
+    /**
+     * Number of clients tracked
+     */
+    size(): number {
+        this.expire(Date.now());
+        return this.entries.size;
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Remove expired entries if the last sweep is old enough
+     */
+    private sweep(now: number): void {
+        if (now - this.lastSweep >= SWEEP_INTERVAL_MS) {
+            this.lastSweep = now;
+            this.expire(now);
+        }
+    }
+}
+
+/**
+ * Create an in-memory challenge store
+ */
+export function createMemoryChallengeStore(): MemoryChallengeStore {
+    return new MemoryChallengeStore();
+}
+
+/**
+ * Create an in-memory rate limit store
+ */
+export function createMemoryRateLimitStore(): MemoryRateLimitStore {
+    return new MemoryRateLimitStore();
+}
+
+/**
+ * Create an in-memory replay ledger
+ */
+export function createMemoryReplayLedger(options?: MemoryReplayLedgerOptions): MemoryReplayLedger {
+    return new MemoryReplayLedger(options);
+}
+
+/**
+ * Create an in-memory client history store
+ */
+export function createMemoryClientHistoryStore(): MemoryClientHistoryStore {
+    return new MemoryClientHistoryStore();
+}
@@ -0,0 +1,245 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startRespServer, type RespServer } from '../test-utils/resp-server';
+import { RespClient, RespError } from './resp';
+import { RedisChallengeStore, RedisRateLimitStore, RedisReplayLedger } from './redis';
+import { CaptchaLM } from '../server/standalone';
+
+let server: RespServer;
+let client: RespClient;
+
+beforeAll(async () => {
+    server = await startRespServer();
+    client = new RespClient({ port: server.port });
+});
+
+afterAll(async () => {
+    await client.close();
+    await server.close();
+});
+
+beforeEach(() => {
+    server.flushAll();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1_700_000_000_000);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+/**
+ * Move the clock forward for both the stores and the stand-in server
+ */
+function advance(ms: number): void {
+    vi.setSystemTime(Date.now() + ms);
+}
+
+describe('RespClient', () => {
+    it('pipelines commands and matches replies in order', async () => {
+        const replies = await Promise.all([
+            client.command(['SET', 'a', '1']),
+            client.command(['INCR', 'a']),
+            client.command(['GET', 'a']),
+            client.command(['GET', 'missing']),
+        ]);
+
+        expect(replies).toEqual(['OK', 2, '2', null]);
+    });
+
+    it('rejects error replies with RespError', async () => {
+        await client.command(['SET', 'text', 'abc']);
+        await expect(client.command(['INCR', 'text'])).rejects.toBeInstanceOf(RespError);
+    });
+
+    it('authenticates and selects a database before the first command', async () => {
+        const secured = await startRespServer({ password: 'pw' });
+
+        const authed = new RespClient({ port: secured.port, password: 'pw', database: 2 });
+        await authed.command(['SET', 'k', 'v']);
+        expect(secured.commands.slice(0, 2)).toEqual([['AUTH', 'pw'], ['SELECT', '2']]);
+
+        const other = new RespClient({ port: secured.port, password: 'pw' });
+        expect(await other.command(['GET', 'k'])).toBeNull();
+
+        const anonymous = new RespClient({ port: secured.port });
+        await expect(anonymous.command(['GET', 'k'])).rejects.toThrow(/NOAUTH/);
+
+        await Promise.all([authed.close(), other.close(), anonymous.close()]);
+        await secured.close();
+    });
+});
+
+describe('RedisChallengeStore', () => {
+    it('stores challenges until they expire', async () => {
+        const store = new RedisChallengeStore(client);
+        await store.set('c1', { expectedAnswer: '42', expiresAt: Date.now() + 1000 });
+
+        expect(await store.get('c1')).toEqual({ expectedAnswer: '42', expiresAt: Date.now() + 1000 });
+        expect(await store.size()).toBe(1);
+
+        advance(1001);
+        expect(await store.get('c1')).toBeUndefined();
+        expect(await store.size()).toBe(0);
+    });
+
+    it('lets only one caller delete a challenge', async () => {
+        const store = new RedisChallengeStore(client);
+        await store.set('c1', { expectedAnswer: '42', expiresAt: Date.now() + 1000 });
+
+        const deleted = await Promise.all([store.delete('c1'), store.delete('c1')]);
+        expect(deleted.sort()).toEqual([false, true]);
+        expect(server.commands.filter(args => args[0] === 'GETDEL')).toHaveLength(2);
+    });
+
+    it('clears only its own prefix', async () => {
+        const store = new RedisChallengeStore(client, { keyPrefix: 'a:' });
+        await store.set('c1', { expectedAnswer: '1', expiresAt: Date.now() + 1000 });
+        await client.command(['SET', 'b:c1', 'x']);
+
+        await store.clear();
+        expect(await store.size()).toBe(0);
+        expect(await client.command(['GET', 'b:c1'])).toBe('x');
+    });
+
+    it('shares challenges between instances', async () => {
+        const config = { secret: 's', challengeTypes: ['encoded_instruction' as const] };
+        const issuer = new CaptchaLM({ ...config, challengeStore: new RedisChallengeStore(client) });
+        const other = new CaptchaLM({ ...config, challengeStore: new RedisChallengeStore(client) });
+
+        const { challenge, expectedAnswer } = await issuer.generate();
+        expect((await other.verify(challenge, expectedAnswer)).valid).toBe(true);
+
+        const replay = await issuer.verify(challenge, expectedAnswer);
+        expect(replay.errorCode).toBe('CHALLENGE_NOT_FOUND');
+
+        issuer.destroy();
+        other.destroy();
+    });
+});
+
+describe('RedisRateLimitStore', () => {
+    it('counts attempts per window with INCR and PEXPIRE', async () => {
+        const store = new RedisRateLimitStore(client);
+
+        expect(await store.increment('client', 1000)).toEqual({ count: 1, resetAt: Date.now() + 1000 });
+        advance(400);
+        expect(await store.increment('client', 1000)).toEqual({ count: 2, resetAt: Date.now() + 600 });
+        expect(await store.get('client')).toEqual({ count: 2, resetAt: Date.now() + 600 });
+
+        advance(600);
+        expect(await store.get('client')).toBeUndefined();
+        expect((await store.increment('client', 1000)).count).toBe(1);
+    });
+
+    it('restores a missing TTL on the next increment', async () => {
+        const store = new RedisRateLimitStore(client);
+        await client.command(['SET', 'captchalm:ratelimit:counter:client', '5']);
+
+        expect(await store.increment('client', 1000)).toEqual({ count: 6, resetAt: Date.now() + 1000 });
+    });
+
+    it('logs attempts in a sliding window', async () => {
+        const store = new RedisRateLimitStore(client);
+        const start = Date.now();
+
+        expect(await store.logAttempt('client', start, 1000, 2)).toEqual({ count: 1, oldest: start, logged: true });
+        expect(await store.logAttempt('client', start + 100, 1000, 2)).toEqual({ count: 2, oldest: start, logged: true });
+        expect(await store.logAttempt('client', start + 200, 1000, 2)).toEqual({ count: 2, oldest: start, logged: false });
+        expect(await store.getLog('client', start + 200, 1000)).toEqual({ count: 2, oldest: start });
+
+        expect(await store.logAttempt('client', start + 1000, 1000, 2)).toEqual({
+            count: 2,
+            oldest: start + 100,
+            logged: true,
+        });
+    });
+
+    it('takes and refills tokens', async () => {
+        const store = new RedisRateLimitStore(client);
+        const start = Date.now();
+
+        expect(await store.takeToken('client', start, 2, 500)).toEqual({ tokens: 1, taken: true });
+        expect(await store.takeToken('client', start, 2, 500)).toEqual({ tokens: 0, taken: true });
+        expect(await store.takeToken('client', start, 2, 500)).toEqual({ tokens: 0, taken: false });
+        expect(await store.getBucket('client', start + 250, 2, 500)).toEqual({ tokens: 0.5 });
+        expect(await store.takeToken('client', start + 500, 2, 500)).toEqual({ tokens: 0, taken: true });
+        expect(await store.getBucket('other', start, 2, 500)).toEqual({ tokens: 2 });
+    });
+
+    it('keeps counters, logs and buckets from colliding across clients', async () => {
+        const store = new RedisRateLimitStore(client);
+        const now = Date.now();
+
+        await store.logAttempt('x', now, 1000, 5);
+        await store.takeToken('y', now, 5, 100);
+        await store.increment('log:x', 1000);
+        await store.increment('bucket:y', 1000);
+        await store.increment('log:x', 1000);
+
+        expect((await store.getLog('x', now, 1000)).count).toBe(1);
+        expect((await store.getBucket('y', now, 5, 100)).tokens).toBe(4);
+        expect((await store.get('log:x'))?.count).toBe(2);
+        expect(await store.stats()).toEqual({ activeKeys: 4, totalAttempts: 2 + 1 + 1 });
+    });
+
+    it('deletes every kind of entry for a client', async () => {
+        const store = new RedisRateLimitStore(client);
+        const now = Date.now();
+        await store.increment('client', 1000);
+        await store.logAttempt('client', now, 1000, 5);
+        await store.takeToken('client', now, 5, 100);
+
+        expect(await store.delete('client')).toBe(true);
+        expect(await store.stats()).toEqual({ activeKeys: 0, totalAttempts: 0 });
+        expect(await store.delete('client')).toBe(false);
+    });
+
+    it('enforces limits through CaptchaLM', async () => {
+        const captchalm = new CaptchaLM({
+            secret: 's',
+            challengeTypes: ['encoded_instruction'],
+            rateLimit: { maxAttempts: 2, windowMs: 60000, store: new RedisRateLimitStore(client) },
+        });
+
+        const { challenge } = await captchalm.generate();
+        await captchalm.verify(challenge, 'wrong', 'agent');
+        await captchalm.verify(challenge, 'wrong', 'agent');
+        const limited = await captchalm.verify(challenge, 'wrong', 'agent');
+
+        expect(limited.errorCode).toBe('RATE_LIMITED');
+        expect(await captchalm.getRateLimitStatus('agent')).toMatchObject({ isLimited: true, remaining: 0 });
+
+        captchalm.destroy();
+    });
+});
+
+describe('RedisReplayLedger', () => {
+    it('marks a challenge spent once until it expires', async () => {
+        const ledger = new RedisReplayLedger(client);
+
+        expect(await ledger.markSpent('c1', Date.now() + 1000)).toBe(true);
+        expect(await ledger.markSpent('c1', Date.now() + 1000)).toBe(false);
+
+        advance(1001);
+        expect(await ledger.markSpent('c1', Date.now() + 1000)).toBe(true);
+    });
+
+    it('rejects replays in stateless verification across instances', async () => {
+        const config = {
+            secret: 's',
+            challengeTypes: ['encoded_instruction' as const],
+            replayLedger: new RedisReplayLedger(client),
+        };
+        const issuer = new CaptchaLM(config);
+        const other = new CaptchaLM(config);
+
+        const { challenge, expectedAnswer } = await issuer.generate();
+        expect((await issuer.verifyStateless(challenge, expectedAnswer)).valid).toBe(true);
+
+        const replay = await other.verifyStateless(challenge, expectedAnswer);
+        expect(replay.errorCode).toBe('CHALLENGE_NOT_FOUND');
+
+        issuer.destroy();
+        other.destroy();
+    });
+});
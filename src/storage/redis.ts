@@ -0,0 +1,462 @@
+/**
+ * Redis storage for CaptchaLM
+ *
+ * Lets several CaptchaLM instances share pending challenges and rate limit
+ * counters. Expiry is delegated to Redis key TTLs.
+ */
+
+import type {
+    ChallengeStoreAdapter,
+    StoredChallenge,
+    RateLimitStoreAdapter,
+    RateLimitEntry,
+    SlidingLogEntry,
+    TokenBucketEntry,
+    ReplayLedgerAdapter,
+    ClientHistory,
+    ClientHistoryStoreAdapter,
+} from '../core/types';
+import type { RedisCommandClient } from './resp';
+import { generateId } from '../utils/crypto';
+
+/**
+ * Redis store options
+ */
+export interface RedisStoreOptions {
+    /** Key prefix (default `captchalm:challenge:` / `captchalm:ratelimit:` / `captchalm:spent:` / `captchalm:history:`) */
+    keyPrefix?: string;
+}
+
+/**
+ * Collect all keys matching a prefix using SCAN
+ */
+async function scanKeys(client: RedisCommandClient, prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+
+    do {
+        const reply = await client.command(['SCAN', cursor, 'MATCH', `${prefix}*`, 'COUNT', '100']) as [string, string[]];
+        cursor = String(reply[0]);
+        keys.push(...reply[1]);
+    } while (cursor !== '0');
+
+    return keys;
+}
+
+/**
+ * Redis-backed challenge store
+ *
+ * Challenges are written with `SET ... PX` and consumed with `GETDEL`, so
+ * only one instance can ever redeem a given challenge.
+ */
+export class RedisChallengeStore implements ChallengeStoreAdapter {
+    private client: RedisCommandClient;
+    private prefix: string;
+
+    constructor(client: RedisCommandClient, options?: RedisStoreOptions) {
+        this.client = client;
+        this.prefix = options?.keyPrefix ?? 'captchalm:challenge:';
+    }
+
+    async get(challengeId: string): Promise<StoredChallenge | undefined> {
+        const value = await this.client.command(['GET', this.prefix + challengeId]);
+
+        if (typeof value !== 'string') {
+            return undefined;
+        }
+
+        return JSON.parse(value) as StoredChallenge;
+    }
+
+    async set(challengeId: string, entry: StoredChallenge): Promise<void> {
+        const ttl = Math.max(1, entry.expiresAt - Date.now());
+
+        await this.client.command([
+            'SET',
+            this.prefix + challengeId,
+            JSON.stringify(entry),
+            'PX',
+            String(ttl),
+        ]);
+    }
+
+    async delete(challengeId: string): Promise<boolean> {
+        const value = await this.client.command(['GETDEL', this.prefix + challengeId]);
+        return value !== null && value !== undefined;
+    }
+
+    expire(): number {
+        // Redis expires keys itself
+        return 0;
+    }
+
+    async size(): Promise<number> {
+        return (await scanKeys(this.client, this.prefix)).length;
+    }
+
+    async clear(): Promise<void> {
+        const keys = await scanKeys(this.client, this.prefix);
+
+        if (keys.length > 0) {
+            await this.client.command(['DEL', ...keys]);
+        }
+    }
+}
+
+/**
+ * Sliding log update, atomic in Redis
+ * KEYS[1] = log key; ARGV = now, windowMs, limit, member
+ */
+const LOG_ATTEMPT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local logged = 0
+if count < tonumber(ARGV[3]) then
+    redis.call('ZADD', KEYS[1], now, ARGV[4])
+    redis.call('PEXPIRE', KEYS[1], window)
+    count = count + 1
+    logged = 1
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')[2]
+return {count, logged, oldest or ''}
+`;
+
+/**
+ * Token bucket refill and take, atomic in Redis
+ * KEYS[1] = bucket key; ARGV = now, capacity, refillMs
+ */
+const TAKE_TOKEN_SCRIPT = `
+local now = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local refill = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = capacity
+if state[1] then
+    tokens = math.min(capacity, tonumber(state[1]) + math.max(0, now - tonumber(state[2])) / refill)
+end
+local taken = 0
+if tokens >= 1 then
+    tokens = tokens - 1
+    taken = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', ARGV[1])
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) * refill))
+return {tostring(tokens), taken}
+`;
+
+/**
+ * Redis-backed rate limit store
+ *
+ * Counters use `INCR`; the first attempt in a window sets the window
+ * length with `PEXPIRE`. Sliding logs are sorted sets and token buckets
+ * hashes, both updated by Lua scripts (`EVAL`). Each kind has its own key
+ * namespace under the prefix, so no client identifier can collide with
+ * another client's keys.
+ */
+export class RedisRateLimitStore implements RateLimitStoreAdapter {
+    private client: RedisCommandClient;
+    private prefix: string;
+
+    constructor(client: RedisCommandClient, options?: RedisStoreOptions) {
+        this.client = client;
+        this.prefix = options?.keyPrefix ?? 'captchalm:ratelimit:';
+    }
+
+    async get(key: string): Promise<RateLimitEntry | undefined> {
+        const redisKey = this.counterKey(key);
+        const [value, ttl] = await Promise.all([
+            this.client.command(['GET', redisKey]),
+            this.client.command(['PTTL', redisKey]),
+        ]);
+
+        if (value === null || value === undefined || Number(ttl) < 0) {
+            return undefined;
+        }
+
+        return {
+            count: Number(value),
+            resetAt: Date.now() + Number(ttl),
+        };
+    }
+
+    async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+        const redisKey = this.counterKey(key);
+        const count = Number(await this.client.command(['INCR', redisKey]));
+        let ttl = Number(await this.client.command(['PTTL', redisKey]));
+
+        // A new window, or a counter left without TTL by an interrupted writer
+        if (count === 1 || ttl < 0) {
+            await this.client.command(['PEXPIRE', redisKey, String(windowMs)]);
+            ttl = windowMs;
+        }
+
+        return {
+            count,
+            resetAt: Date.now() + ttl,
+        };
+    }
+
+    async logAttempt(
+        key: string,
+        now: number,
+        windowMs: number,
+        limit: number
+    ): Promise<SlidingLogEntry & { logged: boolean }> {
+        const [count, logged, oldest] = await this.client.command([
+            'EVAL',
+            LOG_ATTEMPT_SCRIPT,
+            '1',
+            this.logKey(key),
+            String(now),
+            String(windowMs),
+            String(limit),
+            `${now}:${generateId(8)}`,
+        ]) as [number, number, string];
+
+        return {
+            count: Number(count),
+            oldest: oldest === '' ? undefined : Number(oldest),
+            logged: Number(logged) === 1,
+        };
+    }
+
+    async getLog(key: string, now: number, windowMs: number): Promise<SlidingLogEntry> {
+        const logKey = this.logKey(key);
+        const min = `(${now - windowMs}`;
+        const [count, oldest] = await Promise.all([
+            this.client.command(['ZCOUNT', logKey, min, '+inf']),
+            this.client.command(['ZRANGEBYSCORE', logKey, min, '+inf', 'WITHSCORES', 'LIMIT', '0', '1']) as Promise<string[]>,
+        ]);
+
+        return {
+            count: Number(count),
+            oldest: oldest.length > 1 ? Number(oldest[1]) : undefined,
+        };
+    }
+
+    async takeToken(
+        key: string,
+        now: number,
+        capacity: number,
+        refillMs: number
+    ): Promise<TokenBucketEntry & { taken: boolean }> {
+        const [tokens, taken] = await this.client.command([
+            'EVAL',
+            TAKE_TOKEN_SCRIPT,
+            '1',
+            this.bucketKey(key),
+            String(now),
+            String(capacity),
+            String(refillMs),
+        ]) as [string, number];
+
+        return {
+            tokens: Number(tokens),
+            taken: Number(taken) === 1,
+        };
+    }
+
+    async getBucket(key: string, now: number, capacity: number, refillMs: number): Promise<TokenBucketEntry> {
+        const [tokens, updatedAt] = await this.client.command([
+            'HMGET',
+            this.bucketKey(key),
+            'tokens',
+            'updatedAt',
+        ]) as [string | null, string | null];
+
+        if (tokens === null || updatedAt === null) {
+            return { tokens: capacity };
+        }
+
+        return { tokens: Math.min(capacity, Number(tokens) + Math.max(0, now - Number(updatedAt)) / refillMs) };
+    }
+
+    async delete(key: string): Promise<boolean> {
+        const deleted = await this.client.command(['DEL', this.counterKey(key), this.logKey(key), this.bucketKey(key)]);
+        return Number(deleted) > 0;
+    }
+
+    expire(): number {
+        // Redis expires keys itself
+        return 0;
+    }
+
+    async stats(): Promise<{ activeKeys: number; totalAttempts: number }> {
+        const [counterKeys, logKeys, bucketKeys] = await Promise.all([
+            scanKeys(this.client, this.counterKey('')),
+            scanKeys(this.client, this.logKey('')),
+            scanKeys(this.client, this.bucketKey('')),
+        ]);
+
+        let activeKeys = bucketKeys.length;
+        let totalAttempts = 0;
+
+        if (counterKeys.length > 0) {
+            const values = await this.client.command(['MGET', ...counterKeys]) as Array<string | null>;
+
+            for (const value of values) {
+                if (value !== null) {
+                    activeKeys++;
+                    totalAttempts += Number(value);
+                }
+            }
+        }
+
+        for (const logKey of logKeys) {
+            const count = Number(await this.client.command(['ZCARD', logKey]));
+            if (count > 0) {
+                activeKeys++;
+                totalAttempts += count;
+            }
+        }
+
+        return { activeKeys, totalAttempts };
+    }
+
+    async clear(): Promise<void> {
+        const keys = await scanKeys(this.client, this.prefix);
+
+        if (keys.length > 0) {
+            await this.client.command(['DEL', ...keys]);
+        }
+    }
+
+    /**
+     * Redis key of a fixed or sliding window counter
+     */
+    private counterKey(key: string): string {
+        return `${this.prefix}counter:${key}`;
+    }
+
+    /**
+     * Redis key of a sliding log
+     */
+    private logKey(key: string): string {
+        return `${this.prefix}log:${key}`;
+    }
+
+    /**
+     * Redis key of a token bucket
+     */
+    private bucketKey(key: string): string {
+        return `${this.prefix}bucket:${key}`;
+    }
+}
+
+/**
+ * Redis-backed replay ledger
+ *
+ * Uses `SET ... NX PX`, which only succeeds for the first caller.
+ */
+export class RedisReplayLedger implements ReplayLedgerAdapter {
+    private client: RedisCommandClient;
+    private prefix: string;
+
+    constructor(client: RedisCommandClient, options?: RedisStoreOptions) {
+        this.client = client;
+        this.prefix = options?.keyPrefix ?? 'captchalm:spent:';
+    }
+
+    async markSpent(challengeId: string, expiresAt: number): Promise<boolean> {
+        const ttl = Math.max(1, expiresAt - Date.now());
+        const reply = await this.client.command([
+            'SET',
+            this.prefix + challengeId,
+            '1',
+            'NX',
+            'PX',
+            String(ttl),
+        ]);
+
+        return reply === 'OK';
+    }
+}
+
+/**
+ * Redis-backed client history store
+ *
+ * Each write refreshes the key TTL, so idle clients are forgotten.
+ */
+export class RedisClientHistoryStore implements ClientHistoryStoreAdapter {
+    private client: RedisCommandClient;
+    private prefix: string;
+
+    constructor(client: RedisCommandClient, options?: RedisStoreOptions) {
+        this.client = client;
+        this.prefix = options?.keyPrefix ?? 'captchalm:history:';
+    }
+
+    async get(clientIdentifier: string): Promise<ClientHistory | undefined> {
+        const value = await this.client.command(['GET', this.prefix + clientIdentifier]);
+
+        if (typeof value !== 'string') {
+            return undefined;
+        }
+
+        return JSON.parse(value) as ClientHistory;
+    }
+
+    async set(clientIdentifier: string, history: ClientHistory, ttlMs: number): Promise<void> {
+        await this.client.command([
+            'SET',
+            this.prefix + clientIdentifier,
+            JSON.stringify(history),
+            'PX',
+            String(Math.max(1, ttlMs)),
+        ]);
+    }
+
+    async delete(clientIdentifier: string): Promise<boolean> {
+        return Number(await this.client.command(['DEL', this.prefix + clientIdentifier])) > 0;
+    }
+
+    async clear(): Promise<void> {
+        const keys = await scanKeys(this.client, this.prefix);
+
+        if (keys.length > 0) {
+            await this.client.command(['DEL', ...keys]);
+        }
+    }
+}
+
+/**
+ * Create a Redis challenge store
+ */
+export function createRedisChallengeStore(
+    client: RedisCommandClient,
+    options?: RedisStoreOptions
+): RedisChallengeStore {
+    return new RedisChallengeStore(client, options);
+}
+
+/**
+ * Create a Redis rate limit store
+ */
+export function createRedisRateLimitStore(
+    client: RedisCommandClient,
+    options?: RedisStoreOptions
+): RedisRateLimitStore {
+    return new RedisRateLimitStore(client, options);
+}
+
+/**
+ * Create a Redis replay ledger
+ */
+export function createRedisReplayLedger(
+    client: RedisCommandClient,
+    options?: RedisStoreOptions
+): RedisReplayLedger {
+    return new RedisReplayLedger(client, options);
+}
+
+/**
+ * Create a Redis client history store
+ */
+export function createRedisClientHistoryStore(
+    client: RedisCommandClient,
+    options?: RedisStoreOptions
+): RedisClientHistoryStore {
+    return new RedisClientHistoryStore(client, options);
+}
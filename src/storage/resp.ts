@@ -0,0 +1,259 @@
+/**
+ * Minimal RESP2 client for Redis-compatible servers
+ *
+ * Supports the handful of commands the CaptchaLM stores need; replies are
+ * matched to commands in order, so commands may be pipelined freely.
+ */
+
+import { createConnection, type Socket } from 'net';
+
+/**
+ * Decoded RESP reply
+ */
+export type RespValue = string | number | null | RespValue[];
+
+/**
+ * Anything that can send a Redis command and return its reply
+ *
+ * Wrap an existing client to reuse it, e.g. for ioredis:
+ * `{ command: (args) => redis.call(args[0], ...args.slice(1)) }`
+ */
+export interface RedisCommandClient {
+    command(args: string[]): Promise<unknown>;
+}
+
+/**
+ * RESP client connection options
+ */
+export interface RespClientOptions {
+    /** Server host (default 127.0.0.1) */
+    host?: string;
+    /** Server port (default 6379) */
+    port?: number;
+    /** Password for AUTH */
+    password?: string;
+    /** Database index for SELECT */
+    database?: number;
+}
+
+/**
+ * Error reply returned by the server
+ */
+export class RespError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RespError';
+    }
+}
+
+interface PendingReply {
+    resolve: (value: RespValue) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: string[]): string {
+    let out = `*${args.length}\r\n`;
+    for (const arg of args) {
+        out += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+    }
+    return out;
+}
+
+/**
+ * Parse one RESP value from a buffer
+ * Returns null if the buffer does not yet hold a complete value
+ */
+export function parseReply(
+    buffer: Buffer,
+    offset: number = 0
+): { value: RespValue | RespError; offset: number } | null {
+    if (offset >= buffer.length) {
+        return null;
+    }
+
+    const lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) {
+        return null;
+    }
+
+    const prefix = String.fromCharCode(buffer[offset]);
+    const line = buffer.toString('utf-8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (prefix) {
+        case '+':
+            return { value: line, offset: next };
+        case '-':
+            return { value: new RespError(line), offset: next };
+        case ':':
+            return { value: Number(line), offset: next };
+        case '$': {
+            const length = Number(line);
+            if (length === -1) {
+                return { value: null, offset: next };
+            }
+            if (buffer.length < next + length + 2) {
+                return null;
+            }
+            return {
+                value: buffer.toString('utf-8', next, next + length),
+                offset: next + length + 2,
+            };
+        }
+        case '*': {
+            const count = Number(line);
+            if (count === -1) {
+                return { value: null, offset: next };
+            }
+            const items: RespValue[] = [];
+            let position = next;
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buffer, position);
+                if (!item) {
+                    return null;
+                }
+                // Nested errors only occur in MULTI replies; surface them as strings
+                items.push(item.value instanceof RespError ? item.value.message : item.value);
+                position = item.offset;
+            }
+            return { value: items, offset: position };
+        }
+        default:
+            throw new RespError(`Unexpected RESP type: ${prefix}`);
+    }
+}
+
+/**
+ * RESP client over a single TCP connection
+ */
+export class RespClient implements RedisCommandClient {
+    private options: Required<Omit<RespClientOptions, 'password' | 'database'>> &
+        Pick<RespClientOptions, 'password' | 'database'>;
+    private socket: Socket | null = null;
+    private pending: PendingReply[] = [];
+    private buffer: Buffer = Buffer.alloc(0);
+
+    constructor(options?: RespClientOptions) {
+        this.options = {
+            host: options?.host ?? '127.0.0.1',
+            port: options?.port ?? 6379,
+            password: options?.password,
+            database: options?.database,
+        };
+    }
+
+    /**
+     * Send a command and wait for its reply
+     */
+    command(args: string[]): Promise<RespValue> {
+        const socket = this.connect();
+
+        return new Promise<RespValue>((resolve, reject) => {
+            this.pending.push({ resolve, reject });
+            socket.write(encodeCommand(args));
+        });
+    }
+
+    /**
+     * Close the connection
+     */
+    async close(): Promise<void> {
+        const socket = this.socket;
+        if (!socket) {
+            return;
+        }
+
+        await new Promise<void>((resolve) => {
+            socket.once('close', () => resolve());
+            socket.end();
+        });
+    }
+
+    /**
+     * Open the connection on first use
+     */
+    private connect(): Socket {
+        if (this.socket) {
+            return this.socket;
+        }
+
+        const socket = createConnection({ host: this.options.host, port: this.options.port });
+        socket.setNoDelay(true);
+        this.socket = socket;
+
+        socket.on('data', (chunk: Buffer) => this.onData(chunk));
+        socket.on('error', (error) => this.failPending(error));
+        socket.on('close', () => {
+            this.socket = null;
+            this.buffer = Buffer.alloc(0);
+            this.failPending(new Error('Connection closed'));
+        });
+
+        // Handshake commands are written first, ahead of any caller command
+        if (this.options.password !== undefined) {
+            this.handshake(socket, ['AUTH', this.options.password]);
+        }
+        if (this.options.database !== undefined) {
+            this.handshake(socket, ['SELECT', String(this.options.database)]);
+        }
+
+        return socket;
+    }
+
+    /**
+     * Send a handshake command; failure tears down the connection
+     */
+    private handshake(socket: Socket, args: string[]): void {
+        this.pending.push({
+            resolve: () => undefined,
+            reject: (error) => socket.destroy(error),
+        });
+        socket.write(encodeCommand(args));
+    }
+
+    /**
+     * Decode as many replies as the buffer holds
+     */
+    private onData(chunk: Buffer): void {
+        this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+        let parsed: ReturnType<typeof parseReply>;
+        try {
+            while ((parsed = parseReply(this.buffer)) !== null) {
+                this.buffer = this.buffer.subarray(parsed.offset);
+                const reply = this.pending.shift();
+                if (!reply) {
+                    continue;
+                }
+                if (parsed.value instanceof RespError) {
+                    reply.reject(parsed.value);
+                } else {
+                    reply.resolve(parsed.value);
+                }
+            }
+        } catch (error) {
+            this.socket?.destroy(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    /**
+     * Reject all outstanding commands
+     */
+    private failPending(error: Error): void {
+        const pending = this.pending;
+        this.pending = [];
+        for (const reply of pending) {
+            reply.reject(error);
+        }
+    }
+}
+
+/**
+ * Create a RESP client
+ */
+export function createRespClient(options?: RespClientOptions): RespClient {
+    return new RespClient(options);
+}
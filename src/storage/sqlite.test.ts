@@ -0,0 +1,224 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openTestSqliteDatabase, removeTestSqliteDatabases, type TestSqliteDatabase } from '../test-utils/sqlite';
+import { SqliteChallengeStore, SqliteRateLimitStore, SqliteReplayLedger } from './sqlite';
+import { CaptchaLM } from '../server/standalone';
+
+let database: TestSqliteDatabase;
+
+beforeEach(async () => {
+    database = await openTestSqliteDatabase();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1_700_000_000_000);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+afterAll(() => {
+    removeTestSqliteDatabases();
+});
+
+/**
+ * Move the clock the stores read forward
+ */
+function advance(ms: number): void {
+    vi.setSystemTime(Date.now() + ms);
+}
+
+describe('SqliteChallengeStore', () => {
+    it('stores challenges until they expire', () => {
+        const store = new SqliteChallengeStore(database.db);
+        store.set('c1', { expectedAnswer: '42', expiresAt: Date.now() + 1000 });
+
+        expect(store.get('c1')).toEqual({ expectedAnswer: '42', expiresAt: Date.now() + 1000 });
+        expect(store.size()).toBe(1);
+
+        advance(1000);
+        expect(store.get('c1')).toEqual({ expectedAnswer: '42', expiresAt: Date.now() });
+
+        advance(1);
+        expect(store.get('c1')).toBeUndefined();
+        expect(store.size()).toBe(0);
+        expect(store.expire(Date.now())).toBe(1);
+    });
+
+    it('lets only one caller delete a challenge', () => {
+        const store = new SqliteChallengeStore(database.db);
+        store.set('c1', { expectedAnswer: '42', expiresAt: Date.now() + 1000 });
+
+        expect(store.delete('c1')).toBe(true);
+        expect(store.delete('c1')).toBe(false);
+    });
+
+    it('keeps challenges across a reopened database', () => {
+        new SqliteChallengeStore(database.db).set('c1', { expectedAnswer: '42', expiresAt: Date.now() + 1000 });
+
+        const reopened = new SqliteChallengeStore(database.reopen());
+
+        expect(reopened.get('c1')).toEqual({ expectedAnswer: '42', expiresAt: Date.now() + 1000 });
+    });
+
+    it('keeps tables apart by name', () => {
+        const a = new SqliteChallengeStore(database.db, { tableName: 'a' });
+        const b = new SqliteChallengeStore(database.db, { tableName: 'b' });
+        a.set('c1', { expectedAnswer: '1', expiresAt: Date.now() + 1000 });
+
+        b.clear();
+        expect(a.size()).toBe(1);
+        expect(b.get('c1')).toBeUndefined();
+        expect(() => new SqliteChallengeStore(database.db, { tableName: 'x; DROP TABLE a' })).toThrow('Invalid SQLite table name');
+    });
+
+    it('shares challenges between instances', async () => {
+        const config = { secret: 's', challengeTypes: ['encoded_instruction' as const] };
+        const issuer = new CaptchaLM({ ...config, challengeStore: new SqliteChallengeStore(database.db) });
+        const other = new CaptchaLM({ ...config, challengeStore: new SqliteChallengeStore(database.db) });
+
+        const { challenge, expectedAnswer } = await issuer.generate();
+        expect((await other.verify(challenge, expectedAnswer)).valid).toBe(true);
+
+        const replay = await issuer.verify(challenge, expectedAnswer);
+        expect(replay.errorCode).toBe('CHALLENGE_NOT_FOUND');
+
+        issuer.destroy();
+        other.destroy();
+    });
+});
+
+describe('SqliteRateLimitStore', () => {
+    it('counts attempts per window', () => {
+        const store = new SqliteRateLimitStore(database.db);
+
+        expect(store.increment('client', 1000)).toEqual({ count: 1, resetAt: Date.now() + 1000 });
+        advance(400);
+        expect(store.increment('client', 1000)).toEqual({ count: 2, resetAt: Date.now() + 600 });
+        expect(store.get('client')).toEqual({ count: 2, resetAt: Date.now() + 600 });
+
+        advance(601);
+        expect(store.get('client')).toBeUndefined();
+        expect(store.increment('client', 1000)).toEqual({ count: 1, resetAt: Date.now() + 1000 });
+    });
+
+    it('logs attempts in a sliding window', () => {
+        const store = new SqliteRateLimitStore(database.db);
+        const start = Date.now();
+
+        expect(store.logAttempt('client', start, 1000, 2)).toEqual({ count: 1, oldest: start, logged: true });
+        expect(store.logAttempt('client', start + 100, 1000, 2)).toEqual({ count: 2, oldest: start, logged: true });
+        expect(store.logAttempt('client', start + 200, 1000, 2)).toEqual({ count: 2, oldest: start, logged: false });
+        expect(store.getLog('client', start + 200, 1000)).toEqual({ count: 2, oldest: start });
+
+        expect(store.logAttempt('client', start + 1000, 1000, 2)).toEqual({
+            count: 2,
+            oldest: start + 100,
+            logged: true,
+        });
+    });
+
+    it('takes and refills tokens', () => {
+        const store = new SqliteRateLimitStore(database.db);
+        const start = Date.now();
+
+        expect(store.takeToken('client', start, 2, 500)).toEqual({ tokens: 1, taken: true });
+        expect(store.takeToken('client', start, 2, 500)).toEqual({ tokens: 0, taken: true });
+        expect(store.takeToken('client', start, 2, 500)).toEqual({ tokens: 0, taken: false });
+        expect(store.getBucket('client', start + 250, 2, 500)).toEqual({ tokens: 0.5 });
+        expect(store.takeToken('client', start + 500, 2, 500)).toEqual({ tokens: 0, taken: true });
+        expect(store.getBucket('other', start, 2, 500)).toEqual({ tokens: 2 });
+    });
+
+    it('drops counters, logs and buckets once they expire', () => {
+        const store = new SqliteRateLimitStore(database.db);
+        const now = Date.now();
+        store.increment('client', 1000);
+        store.logAttempt('client', now, 1000, 5);
+        store.takeToken('client', now, 5, 100);
+        expect(store.stats()).toEqual({ activeKeys: 3, totalAttempts: 2 });
+
+        advance(1001);
+        expect(store.stats()).toEqual({ activeKeys: 0, totalAttempts: 0 });
+        expect(store.expire(Date.now())).toBe(3);
+    });
+
+    it('deletes every kind of entry for a client', () => {
+        const store = new SqliteRateLimitStore(database.db);
+        const now = Date.now();
+        store.increment('client', 1000);
+        store.logAttempt('client', now, 1000, 5);
+        store.takeToken('client', now, 5, 100);
+
+        expect(store.delete('client')).toBe(true);
+        expect(store.stats()).toEqual({ activeKeys: 0, totalAttempts: 0 });
+        expect(store.delete('client')).toBe(false);
+    });
+
+    it('keeps counts across a reopened database', () => {
+        const store = new SqliteRateLimitStore(database.db);
+        const now = Date.now();
+        store.increment('client', 1000);
+        store.logAttempt('client', now, 1000, 5);
+        store.takeToken('client', now, 5, 100);
+
+        const reopened = new SqliteRateLimitStore(database.reopen());
+
+        expect(reopened.increment('client', 1000).count).toBe(2);
+        expect(reopened.getLog('client', now, 1000)).toEqual({ count: 1, oldest: now });
+        expect(reopened.getBucket('client', now, 5, 100)).toEqual({ tokens: 4 });
+    });
+
+    it('enforces limits through CaptchaLM', async () => {
+        const captchalm = new CaptchaLM({
+            secret: 's',
+            challengeTypes: ['encoded_instruction'],
+            rateLimit: { maxAttempts: 2, windowMs: 60000, store: new SqliteRateLimitStore(database.db) },
+        });
+
+        const { challenge } = await captchalm.generate();
+        await captchalm.verify(challenge, 'wrong', 'agent');
+        await captchalm.verify(challenge, 'wrong', 'agent');
+        const limited = await captchalm.verify(challenge, 'wrong', 'agent');
+
+        expect(limited.errorCode).toBe('RATE_LIMITED');
+        expect(await captchalm.getRateLimitStatus('agent')).toMatchObject({ isLimited: true, remaining: 0 });
+
+        captchalm.destroy();
+    });
+});
+
+describe('SqliteReplayLedger', () => {
+    it('marks a challenge spent once until it expires', () => {
+        const ledger = new SqliteReplayLedger(database.db);
+
+        expect(ledger.markSpent('c1', Date.now() + 1000)).toBe(true);
+        expect(ledger.markSpent('c1', Date.now() + 1000)).toBe(false);
+
+        advance(1001);
+        expect(ledger.markSpent('c1', Date.now() + 1000)).toBe(true);
+    });
+
+    it('remembers spent challenges across a reopened database', () => {
+        new SqliteReplayLedger(database.db).markSpent('c1', Date.now() + 1000);
+
+        expect(new SqliteReplayLedger(database.reopen()).markSpent('c1', Date.now() + 1000)).toBe(false);
+    });
+
+    it('rejects replays in stateless verification across instances', async () => {
+        const config = {
+            secret: 's',
+            challengeTypes: ['encoded_instruction' as const],
+            replayLedger: new SqliteReplayLedger(database.db),
+        };
+        const issuer = new CaptchaLM(config);
+        const other = new CaptchaLM(config);
+
+        const { challenge, expectedAnswer } = await issuer.generate();
+        expect((await issuer.verifyStateless(challenge, expectedAnswer)).valid).toBe(true);
+
+        const replay = await other.verifyStateless(challenge, expectedAnswer);
+        expect(replay.errorCode).toBe('CHALLENGE_NOT_FOUND');
+
+        issuer.destroy();
+        other.destroy();
+    });
+});
@@ -0,0 +1,493 @@
+/**
+ * SQLite storage for CaptchaLM
+ *
+ * Works with any synchronous SQLite binding exposing `exec` and
+ * `prepare(sql).run/get`, such as `better-sqlite3` or `node:sqlite`.
+ * Open the database on a file path to keep state across restarts.
+ */
+
+import type {
+    ChallengeStoreAdapter,
+    StoredChallenge,
+    RateLimitStoreAdapter,
+    RateLimitEntry,
+    SlidingLogEntry,
+    TokenBucketEntry,
+    ReplayLedgerAdapter,
+    ClientHistory,
+    ClientHistoryStoreAdapter,
+} from '../core/types';
+
+/**
+ * Minimal prepared statement interface
+ */
+export interface SqliteStatement {
+    run(...params: unknown[]): { changes: number | bigint };
+    get(...params: unknown[]): unknown;
+}
+
+/**
+ * Minimal database interface
+ */
+export interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * SQLite store options
+ */
+export interface SqliteStoreOptions {
+    /** Table name (letters, digits and underscores only) */
+    tableName?: string;
+}
+
+/**
+ * Validate a table name before interpolating it into SQL
+ */
+function assertTableName(tableName: string): string {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+        throw new Error(`Invalid SQLite table name: ${tableName}`);
+    }
+    return tableName;
+}
+
+/**
+ * SQLite-backed challenge store
+ *
+ * Rows carry their expiry time: expired rows are ignored by reads and
+ * purged on every write.
+ */
+export class SqliteChallengeStore implements ChallengeStoreAdapter {
+    private statements: {
+        get: SqliteStatement;
+        set: SqliteStatement;
+        delete: SqliteStatement;
+        expire: SqliteStatement;
+        size: SqliteStatement;
+        clear: SqliteStatement;
+    };
+
+    constructor(db: SqliteDatabase, options?: SqliteStoreOptions) {
+        const table = assertTableName(options?.tableName ?? 'captchalm_challenges');
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                id TEXT PRIMARY KEY,
+                expected_answer TEXT NOT NULL,
+                expires_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS ${table}_expires_at ON ${table} (expires_at);
+        `);
+
+        this.statements = {
+            get: db.prepare(`SELECT expected_answer, expires_at FROM ${table} WHERE id = ? AND expires_at >= ?`),
+            set: db.prepare(`INSERT OR REPLACE INTO ${table} (id, expected_answer, expires_at) VALUES (?, ?, ?)`),
+            delete: db.prepare(`DELETE FROM ${table} WHERE id = ?`),
+            expire: db.prepare(`DELETE FROM ${table} WHERE expires_at < ?`),
+            size: db.prepare(`SELECT COUNT(*) AS size FROM ${table} WHERE expires_at >= ?`),
+            clear: db.prepare(`DELETE FROM ${table}`),
+        };
+    }
+
+    get(challengeId: string): StoredChallenge | undefined {
+        const row = this.statements.get.get(challengeId, Date.now()) as
+            | { expected_answer: string; expires_at: number }
+            | undefined;
+
+        if (!row) {
+            return undefined;
+        }
+
+        return {
+            expectedAnswer: row.expected_answer,
+            expiresAt: Number(row.expires_at),
+        };
+    }
+
+    set(challengeId: string, entry: StoredChallenge): void {
+        this.expire(Date.now());
+        this.statements.set.run(challengeId, entry.expectedAnswer, entry.expiresAt);
+    }
+
+    delete(challengeId: string): boolean {
+        return Number(this.statements.delete.run(challengeId).changes) > 0;
+    }
+
+    expire(now: number): number {
+        return Number(this.statements.expire.run(now).changes);
+    }
+
+    size(): number {
+        const row = this.statements.size.get(Date.now()) as { size: number };
+        return Number(row.size);
+    }
+
+    clear(): void {
+        this.statements.clear.run();
+    }
+}
+
+/**
+ * SQLite-backed rate limit store
+ *
+ * Sliding logs and token buckets live in `<table>_log` and `<table>_buckets`.
+ */
+export class SqliteRateLimitStore implements RateLimitStoreAdapter {
+    private db: SqliteDatabase;
+    private statements: {
+        get: SqliteStatement;
+        increment: SqliteStatement;
+        delete: SqliteStatement;
+        expire: SqliteStatement;
+        stats: SqliteStatement;
+        clear: SqliteStatement;
+        trimLog: SqliteStatement;
+        readLog: SqliteStatement;
+        appendLog: SqliteStatement;
+        deleteLog: SqliteStatement;
+        expireLog: SqliteStatement;
+        logStats: SqliteStatement;
+        clearLog: SqliteStatement;
+        getBucket: SqliteStatement;
+        setBucket: SqliteStatement;
+        deleteBucket: SqliteStatement;
+        expireBuckets: SqliteStatement;
+        bucketStats: SqliteStatement;
+        clearBuckets: SqliteStatement;
+    };
+
+    constructor(db: SqliteDatabase, options?: SqliteStoreOptions) {
+        const table = assertTableName(options?.tableName ?? 'captchalm_rate_limits');
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                key TEXT PRIMARY KEY,
+                count INTEGER NOT NULL,
+                reset_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS ${table}_reset_at ON ${table} (reset_at);
+            CREATE TABLE IF NOT EXISTS ${table}_log (
+                key TEXT NOT NULL,
+                at INTEGER NOT NULL,
+                expires_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS ${table}_log_key_at ON ${table}_log (key, at);
+            CREATE INDEX IF NOT EXISTS ${table}_log_expires_at ON ${table}_log (expires_at);
+            CREATE TABLE IF NOT EXISTS ${table}_buckets (
+                key TEXT PRIMARY KEY,
+                tokens REAL NOT NULL,
+                updated_at INTEGER NOT NULL,
+                expires_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS ${table}_buckets_expires_at ON ${table}_buckets (expires_at);
+        `);
+
+        this.db = db;
+        this.statements = {
+            get: db.prepare(`SELECT count, reset_at FROM ${table} WHERE key = ? AND reset_at >= ?`),
+            // Single upsert so concurrent processes sharing the file can't lose counts
+            increment: db.prepare(`
+                INSERT INTO ${table} (key, count, reset_at) VALUES (?, 1, ?)
+                ON CONFLICT(key) DO UPDATE SET
+                    count = CASE WHEN reset_at < ? THEN 1 ELSE count + 1 END,
+                    reset_at = CASE WHEN reset_at < ? THEN excluded.reset_at ELSE reset_at END
+                RETURNING count, reset_at
+            `),
+            delete: db.prepare(`DELETE FROM ${table} WHERE key = ?`),
+            expire: db.prepare(`DELETE FROM ${table} WHERE reset_at < ?`),
+            stats: db.prepare(`SELECT COUNT(*) AS active_keys, COALESCE(SUM(count), 0) AS total_attempts FROM ${table} WHERE reset_at >= ?`),
+            clear: db.prepare(`DELETE FROM ${table}`),
+            trimLog: db.prepare(`DELETE FROM ${table}_log WHERE key = ? AND at <= ?`),
+            readLog: db.prepare(`SELECT COUNT(*) AS count, MIN(at) AS oldest FROM ${table}_log WHERE key = ? AND at > ?`),
+            appendLog: db.prepare(`INSERT INTO ${table}_log (key, at, expires_at) VALUES (?, ?, ?)`),
+            deleteLog: db.prepare(`DELETE FROM ${table}_log WHERE key = ?`),
+            expireLog: db.prepare(`DELETE FROM ${table}_log WHERE expires_at < ?`),
+            logStats: db.prepare(`SELECT COUNT(DISTINCT key) AS active_keys, COUNT(*) AS total_attempts FROM ${table}_log WHERE expires_at >= ?`),
+            clearLog: db.prepare(`DELETE FROM ${table}_log`),
+            getBucket: db.prepare(`SELECT tokens, updated_at FROM ${table}_buckets WHERE key = ? AND expires_at >= ?`),
+            setBucket: db.prepare(`INSERT OR REPLACE INTO ${table}_buckets (key, tokens, updated_at, expires_at) VALUES (?, ?, ?, ?)`),
+            deleteBucket: db.prepare(`DELETE FROM ${table}_buckets WHERE key = ?`),
+            expireBuckets: db.prepare(`DELETE FROM ${table}_buckets WHERE expires_at < ?`),
+            bucketStats: db.prepare(`SELECT COUNT(*) AS active_keys FROM ${table}_buckets WHERE expires_at >= ?`),
+            clearBuckets: db.prepare(`DELETE FROM ${table}_buckets`),
+        };
+    }
+
+    get(key: string): RateLimitEntry | undefined {
+        const row = this.statements.get.get(key, Date.now()) as
+            | { count: number; reset_at: number }
+            | undefined;
+
+        if (!row) {
+            return undefined;
+        }
+
+        return {
+            count: Number(row.count),
+            resetAt: Number(row.reset_at),
+        };
+    }
+
+    increment(key: string, windowMs: number): RateLimitEntry {
+        const now = Date.now();
+        this.expire(now);
+
+        const row = this.statements.increment.get(key, now + windowMs, now, now) as {
+            count: number;
+            reset_at: number;
+        };
+
+        return {
+            count: Number(row.count),
+            resetAt: Number(row.reset_at),
+        };
+    }
+
+    logAttempt(key: string, now: number, windowMs: number, limit: number): SlidingLogEntry & { logged: boolean } {
+        return this.transaction(() => {
+            this.expire(now);
+            this.statements.trimLog.run(key, now - windowMs);
+
+            const log = this.getLog(key, now, windowMs);
+            if (log.count >= limit) {
+                return { ...log, logged: false };
+            }
+
+            this.statements.appendLog.run(key, now, now + windowMs);
+            return { count: log.count + 1, oldest: log.oldest ?? now, logged: true };
+        });
+    }
+
+    getLog(key: string, now: number, windowMs: number): SlidingLogEntry {
+        const row = this.statements.readLog.get(key, now - windowMs) as { count: number; oldest: number | null };
+
+        return {
+            count: Number(row.count),
+            oldest: row.oldest === null ? undefined : Number(row.oldest),
+        };
+    }
+
+    takeToken(key: string, now: number, capacity: number, refillMs: number): TokenBucketEntry & { taken: boolean } {
+        return this.transaction(() => {
+            this.expire(now);
+
+            let tokens = this.getBucket(key, now, capacity, refillMs).tokens;
+            const taken = tokens >= 1;
+            if (taken) {
+                tokens -= 1;
+            }
+
+            // Expire the row once the bucket would have refilled completely
+            this.statements.setBucket.run(key, tokens, now, Math.ceil(now + (capacity - tokens) * refillMs));
+
+            return { tokens, taken };
+        });
+    }
+
+    getBucket(key: string, now: number, capacity: number, refillMs: number): TokenBucketEntry {
+        const row = this.statements.getBucket.get(key, now) as { tokens: number; updated_at: number } | undefined;
+
+        if (!row) {
+            return { tokens: capacity };
+        }
+
+        const elapsed = Math.max(0, now - Number(row.updated_at));
+        return { tokens: Math.min(capacity, Number(row.tokens) + elapsed / refillMs) };
+    }
+
+    delete(key: string): boolean {
+        const changes =
+            Number(this.statements.delete.run(key).changes) +
+            Number(this.statements.deleteLog.run(key).changes) +
+            Number(this.statements.deleteBucket.run(key).changes);
+
+        return changes > 0;
+    }
+
+    expire(now: number): number {
+        return (
+            Number(this.statements.expire.run(now).changes) +
+            Number(this.statements.expireLog.run(now).changes) +
+            Number(this.statements.expireBuckets.run(now).changes)
+        );
+    }
+
+    stats(): { activeKeys: number; totalAttempts: number } {
+        const now = Date.now();
+        const counters = this.statements.stats.get(now) as { active_keys: number; total_attempts: number };
+        const logs = this.statements.logStats.get(now) as { active_keys: number; total_attempts: number };
+        const buckets = this.statements.bucketStats.get(now) as { active_keys: number };
+
+        return {
+            activeKeys: Number(counters.active_keys) + Number(logs.active_keys) + Number(buckets.active_keys),
+            totalAttempts: Number(counters.total_attempts) + Number(logs.total_attempts),
+        };
+    }
+
+    clear(): void {
+        this.statements.clear.run();
+        this.statements.clearLog.run();
+        this.statements.clearBuckets.run();
+    }
+
+    /**
+     * Run a read-modify-write under a write lock, so processes sharing the
+     * file can't interleave
+     */
+    private transaction<T>(fn: () => T): T {
+        this.db.exec('BEGIN IMMEDIATE');
+
+        try {
+            const result = fn();
+            this.db.exec('COMMIT');
+            return result;
+        } catch (error) {
+            this.db.exec('ROLLBACK');
+            throw error;
+        }
+    }
+}
+
+/**
+ * SQLite-backed replay ledger
+ */
+export class SqliteReplayLedger implements ReplayLedgerAdapter {
+    private statements: {
+        markSpent: SqliteStatement;
+        expire: SqliteStatement;
+    };
+
+    constructor(db: SqliteDatabase, options?: SqliteStoreOptions) {
+        const table = assertTableName(options?.tableName ?? 'captchalm_spent_challenges');
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                id TEXT PRIMARY KEY,
+                expires_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS ${table}_expires_at ON ${table} (expires_at);
+        `);
+
+        this.statements = {
+            // Ignored on conflict, so `changes` tells whether this call spent it
+            markSpent: db.prepare(`INSERT OR IGNORE INTO ${table} (id, expires_at) VALUES (?, ?)`),
+            expire: db.prepare(`DELETE FROM ${table} WHERE expires_at < ?`),
+        };
+    }
+
+    markSpent(challengeId: string, expiresAt: number): boolean {
+        this.expire(Date.now());
+        return Number(this.statements.markSpent.run(challengeId, expiresAt).changes) > 0;
+    }
+
+    /**
+     * Remove entries that expired before `now`, returning the count removed
+     */
+    expire(now: number): number {
+        return Number(this.statements.expire.run(now).changes);
+    }
+}
+
+/**
+ * SQLite-backed client history store
+ *
+ * Histories are stored as JSON; expired rows are ignored by reads and
+ * purged on every write.
+ */
+export class SqliteClientHistoryStore implements ClientHistoryStoreAdapter {
+    private statements: {
+        get: SqliteStatement;
+        set: SqliteStatement;
+        delete: SqliteStatement;
+        expire: SqliteStatement;
+        clear: SqliteStatement;
+    };
+
+    constructor(db: SqliteDatabase, options?: SqliteStoreOptions) {
+        const table = assertTableName(options?.tableName ?? 'captchalm_client_history');
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                id TEXT PRIMARY KEY,
+                history TEXT NOT NULL,
+                expires_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS ${table}_expires_at ON ${table} (expires_at);
+        `);
+
+        this.statements = {
+            get: db.prepare(`SELECT history FROM ${table} WHERE id = ? AND expires_at >= ?`),
+            set: db.prepare(`INSERT OR REPLACE INTO ${table} (id, history, expires_at) VALUES (?, ?, ?)`),
+            delete: db.prepare(`DELETE FROM ${table} WHERE id = ?`),
+            expire: db.prepare(`DELETE FROM ${table} WHERE expires_at < ?`),
+            clear: db.prepare(`DELETE FROM ${table}`),
+        };
+    }
+
+    get(clientIdentifier: string): ClientHistory | undefined {
+        const row = this.statements.get.get(clientIdentifier, Date.now()) as { history: string } | undefined;
+        return row ? (JSON.parse(row.history) as ClientHistory) : undefined;
+    }
+
+    set(clientIdentifier: string, history: ClientHistory, ttlMs: number): void {
+        const now = Date.now();
+        this.expire(now);
+        this.statements.set.run(clientIdentifier, JSON.stringify(history), now + ttlMs);
+    }
+
+    delete(clientIdentifier: string): boolean {
+        return Number(this.statements.delete.run(clientIdentifier).changes) > 0;
+    }
+
+    /**
+     * Remove histories that expired before `now`, returning the count removed
+     */
+    expire(now: number): number {
+        return Number(this.statements.expire.run(now).changes);
+    }
+
+    clear(): void {
+        this.statements.clear.run();
+    }
+}
+
+/**
+ * Create a SQLite challenge store
+ */
+export function createSqliteChallengeStore(
+    db: SqliteDatabase,
+    options?: SqliteStoreOptions
+): SqliteChallengeStore {
+    return new SqliteChallengeStore(db, options);
+}
+
+/**
+ * Create a SQLite rate limit store
+ */
+export function createSqliteRateLimitStore(
+    db: SqliteDatabase,
+    options?: SqliteStoreOptions
+): SqliteRateLimitStore {
+    return new SqliteRateLimitStore(db, options);
+}
+
+/**
+ * Create a SQLite replay ledger
+ */
+export function createSqliteReplayLedger(
+    db: SqliteDatabase,
+    options?: SqliteStoreOptions
+): SqliteReplayLedger {
+    return new SqliteReplayLedger(db, options);
+}
+
+/**
+ * Create a SQLite client history store
+ */
+export function createSqliteClientHistoryStore(
+    db: SqliteDatabase,
+    options?: SqliteStoreOptions
+): SqliteClientHistoryStore {
+    return new SqliteClientHistoryStore(db, options);
+}
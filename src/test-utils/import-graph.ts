@@ -0,0 +1,51 @@
+/**
+ * Static import graph of a source entry, for checking what a bundle pulls in
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+/**
+ * Files reachable from an entry through value imports and re-exports
+ */
+export interface ImportGraph {
+    /** Source of every reachable file, by absolute path */
+    files: Map<string, string>;
+    /** Non-relative value imports, as `file imports specifier` */
+    bareImports: string[];
+}
+
+/**
+ * Follow the relative imports of an entry file
+ * Type-only imports are erased from the build, so they are skipped.
+ */
+export function collectImportGraph(entry: string): ImportGraph {
+    const files = new Map<string, string>();
+    const bareImports: string[] = [];
+    const pending = [entry];
+
+    while (pending.length > 0) {
+        const file = pending.pop()!;
+        if (files.has(file)) {
+            continue;
+        }
+
+        const source = readFileSync(file, 'utf-8');
+        files.set(file, source);
+
+        for (const [statement, specifier] of source.matchAll(/^(?:import|export)[^'"]*from '([^']+)'/gm)) {
+            if (/^(?:import|export) type\b/.test(statement)) {
+                continue;
+            }
+            if (!specifier.startsWith('.')) {
+                bareImports.push(`${file} imports ${specifier}`);
+                continue;
+            }
+
+            const target = resolve(dirname(file), specifier);
+            pending.push(existsSync(`${target}.ts`) ? `${target}.ts` : resolve(target, 'index.ts'));
+        }
+    }
+
+    return { files, bareImports };
+}
@@ -0,0 +1,459 @@
+/**
+ * In-process RESP server for tests
+ *
+ * Implements the subset of Redis the CaptchaLM stores use, with key expiry
+ * and WRONGTYPE errors. EVAL runs JavaScript translations of the
+ * RedisRateLimitStore scripts, recognised by the commands they call.
+ */
+
+import { createServer, type AddressInfo, type Server, type Socket } from 'net';
+import { encodeCommand, parseReply, RespError, type RespValue } from '../storage/resp';
+
+/**
+ * Stand-in server options
+ */
+export interface RespServerOptions {
+    /** Password clients must send with AUTH before other commands */
+    password?: string;
+}
+
+type Entry =
+    | { type: 'string'; value: string; expiresAt?: number }
+    | { type: 'zset'; value: Map<string, number>; expiresAt?: number }
+    | { type: 'hash'; value: Map<string, string>; expiresAt?: number };
+
+/**
+ * Simple string reply, as opposed to a bulk string
+ */
+class Status {
+    constructor(readonly value: string) {}
+}
+
+type Reply = RespValue | Status | RespError | Reply[];
+
+interface Connection {
+    database: number;
+    authenticated: boolean;
+    buffer: Buffer;
+}
+
+const WRONGTYPE = 'WRONGTYPE Operation against a key holding the wrong kind of value';
+
+/**
+ * Encode a reply in RESP2
+ */
+function encodeReply(reply: Reply): string {
+    if (reply instanceof Status) {
+        return `+${reply.value}\r\n`;
+    }
+    if (reply instanceof RespError) {
+        return `-${reply.message}\r\n`;
+    }
+    if (reply === null) {
+        return '$-1\r\n';
+    }
+    if (typeof reply === 'number') {
+        return `:${reply}\r\n`;
+    }
+    if (Array.isArray(reply)) {
+        return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+    }
+    return encodeCommand([reply]).slice('*1\r\n'.length);
+}
+
+/**
+ * Regular expression for a SCAN MATCH glob (`*` and `?` only)
+ */
+function globToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Parse a sorted set range bound such as `5`, `(5`, `-inf` or `+inf`
+ */
+function parseBound(bound: string): { value: number; exclusive: boolean } {
+    const exclusive = bound.startsWith('(');
+    const raw = exclusive ? bound.slice(1) : bound;
+    const value = raw === '-inf' ? -Infinity : raw === '+inf' || raw === 'inf' ? Infinity : Number(raw);
+    return { value, exclusive };
+}
+
+/**
+ * Whether a score lies within a range
+ */
+function inRange(score: number, min: string, max: string): boolean {
+    const lower = parseBound(min);
+    const upper = parseBound(max);
+    const aboveMin = lower.exclusive ? score > lower.value : score >= lower.value;
+    const belowMax = upper.exclusive ? score < upper.value : score <= upper.value;
+    return aboveMin && belowMax;
+}
+
+/**
+ * Sorted set members in score order, then member order
+ */
+function sortedMembers(zset: Map<string, number>): Array<[string, number]> {
+    return [...zset].sort(([a, sa], [b, sb]) => sa - sb || (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * In-process Redis stand-in listening on a local port
+ */
+export class RespServer {
+    private server: Server;
+    private sockets = new Set<Socket>();
+    private databases = new Map<number, Map<string, Entry>>();
+    private options: RespServerOptions;
+
+    /** Commands received, for assertions */
+    readonly commands: string[][] = [];
+
+    constructor(options?: RespServerOptions) {
+        this.options = options ?? {};
+        this.server = createServer((socket) => this.accept(socket));
+    }
+
+    /**
+     * Port the server listens on
+     */
+    get port(): number {
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    /**
+     * Start listening on a free local port
+     */
+    async listen(): Promise<number> {
+        await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+        return this.port;
+    }
+
+    /**
+     * Drop all keys in all databases
+     */
+    flushAll(): void {
+        this.databases.clear();
+        this.commands.length = 0;
+    }
+
+    /**
+     * Close the server and its connections
+     */
+    async close(): Promise<void> {
+        for (const socket of this.sockets) {
+            socket.destroy();
+        }
+        await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Serve one client connection
+     */
+    private accept(socket: Socket): void {
+        const connection: Connection = {
+            database: 0,
+            authenticated: this.options.password === undefined,
+            buffer: Buffer.alloc(0),
+        };
+
+        this.sockets.add(socket);
+        socket.on('close', () => this.sockets.delete(socket));
+        socket.on('error', () => socket.destroy());
+        socket.on('data', (chunk: Buffer) => {
+            connection.buffer = Buffer.concat([connection.buffer, chunk]);
+
+            let parsed: ReturnType<typeof parseReply>;
+            while ((parsed = parseReply(connection.buffer)) !== null) {
+                connection.buffer = connection.buffer.subarray(parsed.offset);
+                const args = (parsed.value as RespValue[]).map(String);
+                this.commands.push(args);
+                socket.write(encodeReply(this.execute(connection, args)));
+            }
+        });
+    }
+
+    /**
+     * Run a command from a client, handling connection state
+     */
+    private execute(connection: Connection, args: string[]): Reply {
+        const name = args[0].toUpperCase();
+
+        if (name === 'AUTH') {
+            if (args[1] !== this.options.password) {
+                return new RespError('WRONGPASS invalid username-password pair or user is disabled.');
+            }
+            connection.authenticated = true;
+            return new Status('OK');
+        }
+
+        if (!connection.authenticated) {
+            return new RespError('NOAUTH Authentication required.');
+        }
+
+        if (name === 'SELECT') {
+            connection.database = Number(args[1]);
+            return new Status('OK');
+        }
+
+        try {
+            return this.call(this.database(connection.database), args);
+        } catch (error) {
+            return error instanceof RespError ? error : new RespError(`ERR ${String(error)}`);
+        }
+    }
+
+    /**
+     * Keys of one database
+     */
+    private database(index: number): Map<string, Entry> {
+        let database = this.databases.get(index);
+        if (!database) {
+            database = new Map();
+            this.databases.set(index, database);
+        }
+        return database;
+    }
+
+    /**
+     * Look up a live key, expiring it if its TTL has passed
+     */
+    private entry(db: Map<string, Entry>, key: string): Entry | undefined {
+        const entry = db.get(key);
+        if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            db.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    /**
+     * Look up a live key of the given type
+     */
+    private typed<T extends Entry['type']>(
+        db: Map<string, Entry>,
+        key: string,
+        type: T
+    ): Extract<Entry, { type: T }> | undefined {
+        const entry = this.entry(db, key);
+        if (entry && entry.type !== type) {
+            throw new RespError(WRONGTYPE);
+        }
+        return entry as Extract<Entry, { type: T }> | undefined;
+    }
+
+    /**
+     * Execute a data command against a database
+     */
+    private call(db: Map<string, Entry>, args: string[]): Reply {
+        const [command, ...rest] = args;
+
+        switch (command.toUpperCase()) {
+            case 'PING':
+                return new Status('PONG');
+
+            case 'GET':
+                return this.typed(db, rest[0], 'string')?.value ?? null;
+
+            case 'SET': {
+                const [key, value, ...flags] = rest;
+                const upper = flags.map(flag => flag.toUpperCase());
+                if (upper.includes('NX') && this.entry(db, key)) {
+                    return null;
+                }
+                const px = upper.indexOf('PX');
+                db.set(key, {
+                    type: 'string',
+                    value,
+                    expiresAt: px === -1 ? undefined : Date.now() + Number(flags[px + 1]),
+                });
+                return new Status('OK');
+            }
+
+            case 'GETDEL': {
+                const entry = this.typed(db, rest[0], 'string');
+                db.delete(rest[0]);
+                return entry?.value ?? null;
+            }
+
+            case 'DEL':
+                return rest.filter(key => this.entry(db, key) && db.delete(key)).length;
+
+            case 'INCR': {
+                const entry = this.typed(db, rest[0], 'string');
+                const count = Number(entry?.value ?? '0');
+                if (!Number.isInteger(count)) {
+                    throw new RespError('ERR value is not an integer or out of range');
+                }
+                db.set(rest[0], { type: 'string', value: String(count + 1), expiresAt: entry?.expiresAt });
+                return count + 1;
+            }
+
+            case 'PTTL': {
+                const entry = this.entry(db, rest[0]);
+                if (!entry) {
+                    return -2;
+                }
+                return entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now();
+            }
+
+            case 'PEXPIRE': {
+                const entry = this.entry(db, rest[0]);
+                if (!entry) {
+                    return 0;
+                }
+                const ms = Number(rest[1]);
+                if (ms <= 0) {
+                    db.delete(rest[0]);
+                } else {
+                    entry.expiresAt = Date.now() + ms;
+                }
+                return 1;
+            }
+
+            case 'MGET':
+                return rest.map((key) => {
+                    const entry = this.entry(db, key);
+                    return entry?.type === 'string' ? entry.value : null;
+                });
+
+            case 'SCAN': {
+                const match = rest.findIndex(arg => arg.toUpperCase() === 'MATCH');
+                const pattern = globToRegExp(match === -1 ? '*' : rest[match + 1]);
+                const keys = [...db.keys()].filter(key => this.entry(db, key) && pattern.test(key));
+                return ['0', keys];
+            }
+
+            case 'ZADD': {
+                const [key, score, member] = rest;
+                const entry = this.typed(db, key, 'zset') ?? { type: 'zset' as const, value: new Map<string, number>() };
+                const added = entry.value.has(member) ? 0 : 1;
+                entry.value.set(member, Number(score));
+                db.set(key, entry);
+                return added;
+            }
+
+            case 'ZCARD':
+                return this.typed(db, rest[0], 'zset')?.value.size ?? 0;
+
+            case 'ZCOUNT': {
+                const members = sortedMembers(this.typed(db, rest[0], 'zset')?.value ?? new Map());
+                return members.filter(([, score]) => inRange(score, rest[1], rest[2])).length;
+            }
+
+            case 'ZRANGE': {
+                const members = sortedMembers(this.typed(db, rest[0], 'zset')?.value ?? new Map());
+                const stop = Number(rest[2]) < 0 ? members.length + Number(rest[2]) : Number(rest[2]);
+                const slice = members.slice(Number(rest[1]), stop + 1);
+                const withScores = rest.some(arg => arg.toUpperCase() === 'WITHSCORES');
+                return slice.flatMap(([member, score]) => withScores ? [member, String(score)] : [member]);
+            }
+
+            case 'ZRANGEBYSCORE': {
+                const members = sortedMembers(this.typed(db, rest[0], 'zset')?.value ?? new Map());
+                let slice = members.filter(([, score]) => inRange(score, rest[1], rest[2]));
+                const limit = rest.findIndex(arg => arg.toUpperCase() === 'LIMIT');
+                if (limit !== -1) {
+                    const offset = Number(rest[limit + 1]);
+                    slice = slice.slice(offset, offset + Number(rest[limit + 2]));
+                }
+                const withScores = rest.some(arg => arg.toUpperCase() === 'WITHSCORES');
+                return slice.flatMap(([member, score]) => withScores ? [member, String(score)] : [member]);
+            }
+
+            case 'ZREMRANGEBYSCORE': {
+                const entry = this.typed(db, rest[0], 'zset');
+                let removed = 0;
+                for (const [member, score] of entry?.value ?? []) {
+                    if (inRange(score, rest[1], rest[2])) {
+                        entry?.value.delete(member);
+                        removed++;
+                    }
+                }
+                return removed;
+            }
+
+            case 'HSET': {
+                const [key, ...pairs] = rest;
+                const entry = this.typed(db, key, 'hash') ?? { type: 'hash' as const, value: new Map<string, string>() };
+                let added = 0;
+                for (let i = 0; i + 1 < pairs.length; i += 2) {
+                    added += entry.value.has(pairs[i]) ? 0 : 1;
+                    entry.value.set(pairs[i], pairs[i + 1]);
+                }
+                db.set(key, entry);
+                return added;
+            }
+
+            case 'HMGET': {
+                const entry = this.typed(db, rest[0], 'hash');
+                return rest.slice(1).map(field => entry?.value.get(field) ?? null);
+            }
+
+            case 'EVAL': {
+                const [script, numKeys, ...params] = rest;
+                const keys = params.slice(0, Number(numKeys));
+                const argv = params.slice(Number(numKeys));
+                return this.evaluate(db, script, keys, argv);
+            }
+
+            default:
+                throw new RespError(`ERR unknown command '${command}'`);
+        }
+    }
+
+    /**
+     * Run a store script, translated from Lua
+     */
+    private evaluate(db: Map<string, Entry>, script: string, keys: string[], argv: string[]): Reply {
+        const redis = (...args: string[]) => this.call(db, args);
+
+        // Sliding log: LOG_ATTEMPT_SCRIPT
+        if (script.includes('ZREMRANGEBYSCORE')) {
+            const now = Number(argv[0]);
+            const window = Number(argv[1]);
+            redis('ZREMRANGEBYSCORE', keys[0], '-inf', String(now - window));
+            let count = redis('ZCARD', keys[0]) as number;
+            let logged = 0;
+            if (count < Number(argv[2])) {
+                redis('ZADD', keys[0], String(now), argv[3]);
+                redis('PEXPIRE', keys[0], String(window));
+                count++;
+                logged = 1;
+            }
+            const oldest = (redis('ZRANGE', keys[0], '0', '0', 'WITHSCORES') as string[])[1];
+            return [count, logged, oldest ?? ''];
+        }
+
+        // Token bucket: TAKE_TOKEN_SCRIPT
+        if (script.includes('HMGET')) {
+            const now = Number(argv[0]);
+            const capacity = Number(argv[1]);
+            const refill = Number(argv[2]);
+            const state = redis('HMGET', keys[0], 'tokens', 'updatedAt') as Array<string | null>;
+            let tokens = capacity;
+            if (state[0] !== null) {
+                tokens = Math.min(capacity, Number(state[0]) + Math.max(0, now - Number(state[1])) / refill);
+            }
+            let taken = 0;
+            if (tokens >= 1) {
+                tokens -= 1;
+                taken = 1;
+            }
+            redis('HSET', keys[0], 'tokens', String(tokens), 'updatedAt', argv[0]);
+            redis('PEXPIRE', keys[0], String(Math.ceil((capacity - tokens) * refill)));
+            return [String(tokens), taken];
+        }
+
+        throw new RespError('ERR unknown script');
+    }
+}
+
+/**
+ * Start a stand-in server on a free local port
+ */
+export async function startRespServer(options?: RespServerOptions): Promise<RespServer> {
+    const server = new RespServer(options);
+    await server.listen();
+    return server;
+}
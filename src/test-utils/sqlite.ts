@@ -0,0 +1,110 @@
+/**
+ * SQLite databases for store tests
+ *
+ * Uses `node:sqlite` on a temporary file when the runtime has it, and
+ * otherwise wraps sql.js (SQLite compiled to WebAssembly) in the synchronous
+ * `exec`/`prepare(sql).run/get` binding the stores expect.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import initSqlJs, { type Database } from 'sql.js';
+import type { SqliteDatabase } from '../storage/sqlite';
+
+/**
+ * Test database and a way to open it again
+ */
+export interface TestSqliteDatabase {
+    /** Binding the database was opened with */
+    driver: 'node:sqlite' | 'sql.js';
+    db: SqliteDatabase;
+    /** Open the same data on a new connection, as a restarted process would */
+    reopen(): SqliteDatabase;
+}
+
+interface NodeSqlite {
+    DatabaseSync: new (path: string) => SqliteDatabase;
+}
+
+/**
+ * node:sqlite, when this runtime provides it without flags
+ */
+function loadNodeSqlite(): NodeSqlite | undefined {
+    try {
+        return process.getBuiltinModule?.('node:sqlite') as NodeSqlite | undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Temporary directories holding node:sqlite databases
+ */
+const directories: string[] = [];
+
+/**
+ * Expose a sql.js database through the synchronous binding interface
+ */
+function wrapSqlJs(database: Database): SqliteDatabase {
+    return {
+        exec: sql => database.exec(sql),
+        prepare(sql) {
+            const statement = database.prepare(sql);
+
+            return {
+                run(...params) {
+                    statement.run(params as initSqlJs.BindParams);
+                    return { changes: database.getRowsModified() };
+                },
+                get(...params) {
+                    statement.bind(params as initSqlJs.BindParams);
+                    const row = statement.step() ? statement.getAsObject() : undefined;
+                    statement.reset();
+                    return row;
+                },
+            };
+        },
+    };
+}
+
+/**
+ * Open an empty database
+ */
+export async function openTestSqliteDatabase(): Promise<TestSqliteDatabase> {
+    const nodeSqlite = loadNodeSqlite();
+
+    if (nodeSqlite) {
+        const directory = mkdtempSync(join(tmpdir(), 'captchalm-'));
+        const path = join(directory, 'test.db');
+        directories.push(directory);
+
+        return {
+            driver: 'node:sqlite',
+            db: new nodeSqlite.DatabaseSync(path),
+            reopen: () => new nodeSqlite.DatabaseSync(path),
+        };
+    }
+
+    const SQL = await initSqlJs();
+    let database = new SQL.Database();
+
+    return {
+        driver: 'sql.js',
+        db: wrapSqlJs(database),
+        reopen() {
+            // Exporting frees the old connection's statements, so only the new one stays usable
+            database = new SQL.Database(database.export());
+            return wrapSqlJs(database);
+        },
+    };
+}
+
+/**
+ * Delete the files of every database opened so far
+ */
+export function removeTestSqliteDatabases(): void {
+    for (const directory of directories.splice(0)) {
+        rmSync(directory, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { base64ToBytes, base64UrlToBytes, bytesToBase64Url, utf8ToBytes } from './bytes';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+describe('base64UrlToBytes', () => {
+    it('decodes what bytesToBase64Url encodes', () => {
+        for (let length = 0; length < 40; length++) {
+            const bytes = new Uint8Array(length).map((_, i) => (i * 97 + 251) % 256);
+            expect(base64UrlToBytes(bytesToBase64Url(bytes))).toEqual(bytes);
+        }
+    });
+
+    it.each([
+        ['padding', 'YWI='],
+        ['standard base64 characters', 'a+/b'],
+        ['whitespace', 'YW I'],
+        ['a dot', 'YW.I'],
+        ['a lone trailing character', 'YWJjZ'],
+    ])('rejects %s', (_, value) => {
+        expect(() => base64UrlToBytes(value)).toThrow(SyntaxError);
+    });
+
+    it('rejects set bits past the last byte', () => {
+        const encoded = bytesToBase64Url(utf8ToBytes('ab'));
+        const last = ALPHABET.indexOf(encoded.at(-1)!);
+        const flipped = encoded.slice(0, -1) + ALPHABET[last ^ 1];
+
+        // The lenient decoder reads both spellings as the same bytes
+        expect(base64ToBytes(flipped)).toEqual(base64ToBytes(encoded));
+        expect(() => base64UrlToBytes(flipped)).toThrow(SyntaxError);
+    });
+});
+
+describe('base64ToBytes', () => {
+    it('accepts padding, line breaks and either alphabet', () => {
+        expect(base64ToBytes('YWI=\n')).toEqual(utf8ToBytes('ab'));
+        expect(base64ToBytes('-_-_')).toEqual(base64ToBytes('+/+/'));
+    });
+});
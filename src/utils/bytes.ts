@@ -0,0 +1,105 @@
+/**
+ * Byte and string conversions for CaptchaLM
+ * Uses TextEncoder, btoa and atob rather than Buffer, so they work outside Node.
+ */
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder();
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+export function utf8ToBytes(value: string): Uint8Array {
+    return utf8Encoder.encode(value);
+}
+
+/**
+ * Decode UTF-8 bytes, replacing invalid sequences
+ */
+export function bytesToUtf8(bytes: Uint8Array): string {
+    return utf8Decoder.decode(bytes);
+}
+
+/**
+ * Lower-case hex encoding of bytes
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+    let hex = '';
+    for (const byte of bytes) {
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+}
+
+/**
+ * Decode hex, stopping at the first pair that isn't valid hex
+ */
+export function hexToBytes(hex: string): Uint8Array {
+    const bytes: number[] = [];
+
+    for (let i = 0; i + 1 < hex.length; i += 2) {
+        const pair = hex.slice(i, i + 2);
+        if (!/^[0-9a-fA-F]{2}$/.test(pair)) {
+            break;
+        }
+        bytes.push(parseInt(pair, 16));
+    }
+
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Standard base64 encoding of bytes, with padding
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+}
+
+/**
+ * Decode base64 or base64url, ignoring padding and characters outside the alphabet
+ * Lenient, for PEM bodies and challenge text; tokens and keys use base64UrlToBytes.
+ */
+export function base64ToBytes(value: string): Uint8Array {
+    let normalized = value.replace(/-/g, '+').replace(/_/g, '/').replace(/[^A-Za-z0-9+/]/g, '');
+
+    // A lone trailing character carries no whole byte
+    if (normalized.length % 4 === 1) {
+        normalized = normalized.slice(0, -1);
+    }
+
+    const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Decode unpadded base64url, rejecting anything but its canonical form
+ * For tokens and keys, where two spellings of the same bytes must not both
+ * pass: characters outside the alphabet, impossible lengths and unused
+ * trailing bits all throw.
+ */
+export function base64UrlToBytes(value: string): Uint8Array {
+    if (!/^[A-Za-z0-9_-]*$/.test(value) || value.length % 4 === 1) {
+        throw new SyntaxError('Invalid base64url input');
+    }
+
+    const bytes = base64ToBytes(value);
+    if (bytesToBase64Url(bytes) !== value) {
+        throw new SyntaxError('Invalid base64url input');
+    }
+    return bytes;
+}
+
+/**
+ * Unpadded base64url encoding of bytes
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+    return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
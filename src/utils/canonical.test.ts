@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalize } from './canonical';
+
+/**
+ * Number with the given IEEE 754 bit pattern
+ */
+function fromBits(hex: string): number {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setBigUint64(0, BigInt(`0x${hex}`));
+    return view.getFloat64(0);
+}
+
+describe('canonicalize (RFC 8785)', () => {
+    // RFC 8785 Appendix B
+    it.each([
+        ['0000000000000000', '0'],
+        ['8000000000000000', '0'],
+        ['0000000000000001', '5e-324'],
+        ['8000000000000001', '-5e-324'],
+        ['7fefffffffffffff', '1.7976931348623157e+308'],
+        ['ffefffffffffffff', '-1.7976931348623157e+308'],
+        ['4340000000000000', '9007199254740992'],
+        ['c340000000000000', '-9007199254740992'],
+        ['4430000000000000', '295147905179352830000'],
+        ['44b52d02c7e14af5', '9.999999999999997e+22'],
+        ['44b52d02c7e14af6', '1e+23'],
+        ['44b52d02c7e14af7', '1.0000000000000001e+23'],
+        ['444b1ae4d6e2ef4e', '999999999999999700000'],
+        ['444b1ae4d6e2ef4f', '999999999999999900000'],
+        ['444b1ae4d6e2ef50', '1e+21'],
+        ['3eb0c6f7a0b5ed8c', '9.999999999999997e-7'],
+        ['3eb0c6f7a0b5ed8d', '0.000001'],
+        ['41b3de4355555553', '333333333.3333332'],
+        ['41b3de4355555554', '333333333.33333325'],
+        ['41b3de4355555555', '333333333.3333333'],
+        ['41b3de4355555556', '333333333.3333334'],
+        ['41b3de4355555557', '333333333.33333343'],
+        ['becbf647612f3696', '-0.0000033333333333333333'],
+        ['43143ff3c1cb0959', '1424953923781206.2'],
+    ])('serializes the number %s as %s', (bits, expected) => {
+        expect(canonicalize(fromBits(bits))).toBe(expected);
+    });
+
+    it('refuses NaN and infinities', () => {
+        for (const bits of ['7fffffffffffffff', '7ff0000000000000', 'fff0000000000000']) {
+            expect(() => canonicalize(fromBits(bits)), bits).toThrow('non-finite');
+        }
+    });
+
+    // RFC 8785 section 3.2.3
+    it('sorts keys by UTF-16 code units', () => {
+        const input = JSON.parse(String.raw`{
+            "\u20ac": "Euro Sign",
+            "\r": "Carriage Return",
+            "\ufb33": "Hebrew Letter Dalet With Dagesh",
+            "1": "One",
+            "\ud83d\ude00": "Emoji: Grinning Face",
+            "\u0080": "Control",
+            "\u00f6": "Latin Small Letter O With Diaeresis"
+        }`);
+
+        expect(canonicalize(input)).toBe(
+            '{"\\r":"Carriage Return","1":"One","\u0080":"Control","\u00f6":"Latin Small Letter O With Diaeresis",' +
+                '"\u20ac":"Euro Sign","\ud83d\ude00":"Emoji: Grinning Face","\ufb33":"Hebrew Letter Dalet With Dagesh"}'
+        );
+    });
+
+    // RFC 8785 section 3.2.2
+    it('escapes strings and formats the sample document', () => {
+        const input = JSON.parse(String.raw`{
+            "numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001],
+            "string": "\u20ac$\u000F\u000aA'\u0042\u0022\u005c\\\"\/",
+            "literals": [null, true, false]
+        }`);
+
+        expect(canonicalize(input)).toBe(
+            String.raw`{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],"string":"€$\u000f\nA'B\"\\\\\"/"}`
+        );
+    });
+
+    it('escapes control characters with lowercase hex and leaves other characters as they are', () => {
+        expect(canonicalize('\u0000\u0008\t\u001f\u007f ')).toBe(String.raw`"\u0000\b\t\u001f` + '\u007f "');
+    });
+
+    it('drops undefined properties and nulls undefined array items, as JSON.stringify does', () => {
+        expect(canonicalize({ b: undefined, a: [undefined, 1] })).toBe('{"a":[null,1]}');
+    });
+});
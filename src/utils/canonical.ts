@@ -0,0 +1,55 @@
+/**
+ * Canonical JSON for CaptchaLM
+ *
+ * Implements the JSON Canonicalization Scheme (RFC 8785): object keys are
+ * sorted by UTF-16 code units, no whitespace is emitted, and numbers and
+ * strings use the ECMAScript JSON serialization. Any conforming JCS
+ * implementation produces the same bytes for the same JSON value.
+ */
+
+/**
+ * Serialize a JSON value canonically (RFC 8785)
+ * Object properties set to undefined are omitted, as with JSON.stringify
+ */
+export function canonicalize(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+
+    if (typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+        return canonicalize((value as { toJSON: () => unknown }).toJSON());
+    }
+
+    switch (typeof value) {
+        case 'boolean':
+            return value ? 'true' : 'false';
+
+        case 'number':
+            if (!Number.isFinite(value)) {
+                throw new Error('Cannot canonicalize a non-finite number');
+            }
+            // ECMAScript number serialization is what RFC 8785 prescribes
+            return JSON.stringify(value);
+
+        case 'string':
+            return JSON.stringify(value);
+
+        case 'object': {
+            if (Array.isArray(value)) {
+                return `[${value.map(item => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+            }
+
+            const record = value as Record<string, unknown>;
+            // Default sort compares UTF-16 code units, as RFC 8785 requires
+            const entries = Object.keys(record)
+                .filter(key => record[key] !== undefined)
+                .sort()
+                .map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+
+            return `{${entries.join(',')}}`;
+        }
+
+        default:
+            throw new Error(`Cannot canonicalize a value of type ${typeof value}`);
+    }
+}
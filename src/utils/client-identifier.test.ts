@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { ClientIdentifierResolver } from './client-identifier';
+import type { ClientIdentifierConfig } from '../core/types';
+
+/**
+ * Client address resolved for a peer and its forwarding headers
+ */
+function addressOf(
+    config: ClientIdentifierConfig,
+    remoteAddress: string | undefined,
+    headers: Record<string, string> = {}
+): string | undefined {
+    return new ClientIdentifierResolver(config).resolveAddress({ remoteAddress, headers });
+}
+
+const proxies = { trustedProxies: ['10.0.0.0/8', 'fd00::/8'] };
+
+describe('ClientIdentifierResolver forwarding headers', () => {
+    it('ignores X-Forwarded-For from an untrusted peer', () => {
+        expect(addressOf(proxies, '203.0.113.7', { 'x-forwarded-for': '198.51.100.1' })).toBe('203.0.113.7');
+        expect(addressOf({}, '10.0.0.1', { 'x-forwarded-for': '198.51.100.1' })).toBe('10.0.0.1');
+    });
+
+    it('ignores addresses a client prepends to X-Forwarded-For', () => {
+        expect(addressOf(proxies, '10.0.0.1', { 'x-forwarded-for': '198.51.100.66, 203.0.113.7' })).toBe('203.0.113.7');
+    });
+
+    it('walks trusted hops from the nearest one', () => {
+        const headers = { 'x-forwarded-for': '198.51.100.66, 203.0.113.7, 10.0.0.5, fd00::3' };
+
+        expect(addressOf(proxies, '10.0.0.1', headers)).toBe('203.0.113.7');
+    });
+
+    it('takes the furthest hop when every hop is trusted', () => {
+        expect(addressOf(proxies, '10.0.0.1', { 'x-forwarded-for': '10.0.0.9, 10.0.0.5' })).toBe('10.0.0.9');
+    });
+
+    it('joins repeated X-Forwarded-For headers', () => {
+        const resolver = new ClientIdentifierResolver(proxies);
+
+        expect(resolver.resolveAddress({ remoteAddress: '10.0.0.1', headers: { 'x-forwarded-for': ['203.0.113.7', '10.0.0.5'] } }))
+            .toBe('203.0.113.7');
+    });
+
+    it('prefers Forwarded over X-Forwarded-For', () => {
+        const headers = { forwarded: 'for=203.0.113.7', 'x-forwarded-for': '198.51.100.1' };
+
+        expect(addressOf(proxies, '10.0.0.1', headers)).toBe('203.0.113.7');
+    });
+
+    it('reads quoted Forwarded nodes with ports, brackets and other parameters', () => {
+        const headers = { forwarded: 'for="[2001:DB8:cafe::17]:4711";proto=https, for="10.0.0.5:8080";by=10.0.0.1' };
+
+        expect(addressOf(proxies, '10.0.0.1', headers)).toBe('2001:db8:cafe::17');
+        expect(addressOf(proxies, '10.0.0.1', { forwarded: 'for="203.0.113.7:47011"' })).toBe('203.0.113.7');
+    });
+
+    it('keeps delimiters inside quoted Forwarded values', () => {
+        const headers = { forwarded: 'for=203.0.113.7;host="a.example, b;c", for=10.0.0.5' };
+
+        expect(addressOf(proxies, '10.0.0.1', headers)).toBe('203.0.113.7');
+    });
+
+    it('uses obfuscated Forwarded identifiers as the client', () => {
+        expect(addressOf(proxies, '10.0.0.1', { forwarded: 'for=_hidden, for=10.0.0.5' })).toBe('_hidden');
+        expect(addressOf(proxies, '10.0.0.1', { forwarded: 'for="_a.b-c"' })).toBe('_a.b-c');
+    });
+
+    it('stops at the last trusted proxy before an unknown or malformed hop', () => {
+        expect(addressOf(proxies, '10.0.0.1', { forwarded: 'for=203.0.113.7, for=unknown, for=10.0.0.5' })).toBe('10.0.0.5');
+        expect(addressOf(proxies, '10.0.0.1', { forwarded: 'for="_bad!"' })).toBe('10.0.0.1');
+        expect(addressOf(proxies, '10.0.0.1', { 'x-forwarded-for': '203.0.113.7, not-an-ip' })).toBe('10.0.0.1');
+    });
+});
+
+describe('ClientIdentifierResolver addresses', () => {
+    it('strips the IPv4-mapped IPv6 prefix', () => {
+        expect(addressOf({}, '::ffff:203.0.113.7')).toBe('203.0.113.7');
+        expect(addressOf({}, '::FFFF:203.0.113.7')).toBe('203.0.113.7');
+        expect(addressOf(proxies, '::ffff:10.0.0.1', { 'x-forwarded-for': '::ffff:203.0.113.7' })).toBe('203.0.113.7');
+    });
+
+    it('strips ports from forwarded IPv4 nodes', () => {
+        expect(addressOf(proxies, '10.0.0.1', { 'x-forwarded-for': '203.0.113.7:443' })).toBe('203.0.113.7');
+    });
+
+    it('rejects malformed peer addresses', () => {
+        expect(addressOf({}, '256.0.0.1')).toBeUndefined();
+        expect(addressOf({}, '01.2.3.4')).toBeUndefined();
+        expect(addressOf({}, '1::2::3')).toBeUndefined();
+        expect(addressOf({}, '1:2:3:4:5:6:7:8:9')).toBeUndefined();
+        expect(addressOf({}, undefined)).toBeUndefined();
+    });
+
+    it('accepts compressed and zoned IPv6 addresses', () => {
+        expect(addressOf({}, '::1')).toBe('::1');
+        expect(addressOf({}, 'fe80::1%eth0')).toBe('fe80::1%eth0');
+        expect(addressOf({}, '64:ff9b::192.0.2.33')).toBe('64:ff9b::192.0.2.33');
+    });
+});
+
+describe('ClientIdentifierResolver trusted proxy ranges', () => {
+    const forwarded = { 'x-forwarded-for': '203.0.113.7' };
+    const trusts = (trustedProxies: string[], peer: string) =>
+        addressOf({ trustedProxies }, peer, forwarded) === '203.0.113.7';
+
+    it('trusts every address of the family for /0', () => {
+        expect(trusts(['0.0.0.0/0'], '198.51.100.1')).toBe(true);
+        expect(trusts(['0.0.0.0/0'], '2001:db8::1')).toBe(false);
+        expect(trusts(['::/0'], '2001:db8::1')).toBe(true);
+        expect(trusts(['::/0'], '198.51.100.1')).toBe(false);
+    });
+
+    it('trusts a single address for /32, /128 or no prefix', () => {
+        expect(trusts(['10.0.0.1/32'], '10.0.0.1')).toBe(true);
+        expect(trusts(['10.0.0.1/32'], '10.0.0.2')).toBe(false);
+        expect(trusts(['10.0.0.1'], '10.0.0.1')).toBe(true);
+        expect(trusts(['2001:db8::1/128'], '2001:db8::1')).toBe(true);
+        expect(trusts(['2001:db8::1/128'], '2001:db8::2')).toBe(false);
+    });
+
+    it('matches prefixes that end inside a byte', () => {
+        expect(trusts(['10.0.0.0/31'], '10.0.0.1')).toBe(true);
+        expect(trusts(['10.0.0.0/31'], '10.0.0.2')).toBe(false);
+        expect(trusts(['172.16.0.0/12'], '172.31.255.255')).toBe(true);
+        expect(trusts(['172.16.0.0/12'], '172.32.0.0')).toBe(false);
+        expect(trusts(['2001:db8::/33'], '2001:db8:7fff::1')).toBe(true);
+        expect(trusts(['2001:db8::/33'], '2001:db8:8000::1')).toBe(false);
+    });
+
+    it('rejects invalid ranges', () => {
+        for (const entry of ['10.0.0.0/33', '::/129', '10.0.0.0/-1', '10.0.0.0/8.5', 'proxy.internal']) {
+            expect(() => new ClientIdentifierResolver({ trustedProxies: [entry] }), entry).toThrow('Invalid trusted proxy');
+        }
+    });
+});
+
+describe('ClientIdentifierResolver.resolve', () => {
+    it('prefers the custom resolver, then identity headers, then the address', async () => {
+        const request = { remoteAddress: '203.0.113.7', headers: { 'x-api-key': 'secret-key' } };
+
+        expect(await new ClientIdentifierResolver({ resolve: () => 'custom' }).resolve(request)).toBe('custom');
+
+        const byHeader = await new ClientIdentifierResolver({ identityHeaders: ['X-API-Key'] }).resolve(request);
+        expect(byHeader).toMatch(/^x-api-key:[0-9a-f]{32}$/);
+        expect(byHeader).not.toContain('secret-key');
+
+        expect(await new ClientIdentifierResolver({ resolve: () => undefined }).resolve(request)).toBe('203.0.113.7');
+        expect(await new ClientIdentifierResolver().resolve({ headers: {} })).toBe('unknown');
+    });
+});
@@ -0,0 +1,345 @@
+/**
+ * Client identifier resolution for CaptchaLM
+ *
+ * Derives the key used for rate limiting and access token binding.
+ * Forwarding headers (RFC 7239 `Forwarded`, then `X-Forwarded-For`) are only
+ * honoured when the connected peer is a trusted proxy, and the chain is walked
+ * from the nearest hop, so clients can't pick their own key by prepending
+ * addresses.
+ */
+
+import type {
+    ClientIdentifierConfig,
+    ClientIdentifierFunction,
+    ClientRequestInfo,
+} from '../core/types';
+import { sha256 } from './crypto';
+
+/**
+ * Address range of a trusted proxy
+ */
+interface Subnet {
+    /** Network address, 4 bytes for IPv4 or 16 for IPv6 */
+    address: Uint8Array;
+    /** Prefix length in bits */
+    bits: number;
+}
+
+/**
+ * Resolves client identifiers from requests
+ */
+export class ClientIdentifierResolver {
+    private trustedProxies: Subnet[] | undefined;
+    private identityHeaders: string[];
+    private custom: ClientIdentifierFunction | undefined;
+
+    constructor(config: ClientIdentifierConfig = {}) {
+        this.trustedProxies = config.trustedProxies?.length
+            ? parseSubnets(config.trustedProxies)
+            : undefined;
+        this.identityHeaders = (config.identityHeaders ?? []).map(name => name.toLowerCase());
+        this.custom = config.resolve;
+    }
+
+    /**
+     * Resolve the identifier for a request
+     * Order: custom resolver, identity headers, then client address.
+     */
+    async resolve(request: ClientRequestInfo): Promise<string> {
+        const custom = this.custom?.(request);
+        if (custom) {
+            return custom;
+        }
+
+        for (const name of this.identityHeaders) {
+            const value = getHeader(request.headers, name);
+            if (value) {
+                // Hash so credentials never reach stores or token claims
+                return `${name}:${(await sha256(value)).slice(0, 32)}`;
+            }
+        }
+
+        return this.resolveAddress(request) ?? 'unknown';
+    }
+
+    /**
+     * Resolve the client address, following forwarding headers set by trusted proxies
+     */
+    resolveAddress(request: ClientRequestInfo): string | undefined {
+        let client = normalizeNode(request.remoteAddress);
+
+        if (!client || !this.isTrusted(client)) {
+            return client;
+        }
+
+        const chain = getForwardedChain(request.headers);
+
+        // Walk from the nearest hop; the first untrusted one is the client
+        for (let i = chain.length - 1; i >= 0; i--) {
+            const hop = chain[i];
+
+            // An unknown hop ends the chain at the last proxy we trust
+            if (!hop) {
+                return client;
+            }
+
+            client = hop;
+            if (!this.isTrusted(hop)) {
+                return hop;
+            }
+        }
+
+        return client;
+    }
+
+    /**
+     * Check whether an address belongs to a trusted proxy
+     */
+    private isTrusted(address: string): boolean {
+        const bytes = parseAddress(address);
+        if (!this.trustedProxies || !bytes) {
+            return false;
+        }
+
+        return this.trustedProxies.some(subnet => inSubnet(bytes, subnet));
+    }
+}
+
+/**
+ * Parse trusted proxy IP addresses and CIDR ranges
+ */
+function parseSubnets(entries: string[]): Subnet[] {
+    return entries.map(entry => {
+        const [address, prefix] = entry.trim().split('/');
+        const bytes = parseAddress(address);
+        const maxBits = bytes ? bytes.length * 8 : 0;
+        const bits = prefix === undefined ? maxBits : Number(prefix);
+
+        if (!bytes || !(Number.isInteger(bits) && bits >= 0 && bits <= maxBits)) {
+            throw new Error(`Invalid trusted proxy: ${entry}`);
+        }
+
+        return { address: bytes, bits };
+    });
+}
+
+/**
+ * Check whether an address falls within a subnet of the same family
+ */
+function inSubnet(address: Uint8Array, subnet: Subnet): boolean {
+    if (address.length !== subnet.address.length) {
+        return false;
+    }
+
+    for (let bit = 0; bit < subnet.bits; bit += 8) {
+        const mask = (0xff << (8 - Math.min(8, subnet.bits - bit))) & 0xff;
+        if ((address[bit / 8] & mask) !== (subnet.address[bit / 8] & mask)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into bytes
+ */
+function parseAddress(address: string): Uint8Array | undefined {
+    return parseIPv4(address) ?? parseIPv6(address);
+}
+
+/**
+ * Parse a dotted-decimal IPv4 address
+ */
+function parseIPv4(address: string): Uint8Array | undefined {
+    const parts = address.split('.');
+    if (parts.length !== 4 || !parts.every(part => /^(0|[1-9]\d{0,2})$/.test(part) && Number(part) <= 255)) {
+        return undefined;
+    }
+
+    return new Uint8Array(parts.map(Number));
+}
+
+/**
+ * Parse an IPv6 address, with `::` compression, a trailing IPv4 part and a zone ID
+ */
+function parseIPv6(address: string): Uint8Array | undefined {
+    const zone = address.indexOf('%');
+    const halves = (zone === -1 ? address : address.slice(0, zone)).split('::');
+    if (halves.length > 2) {
+        return undefined;
+    }
+
+    const head = parseIPv6Groups(halves[0], halves.length === 1);
+    const tail = halves.length === 2 ? parseIPv6Groups(halves[1], true) : [];
+    if (!head || !tail) {
+        return undefined;
+    }
+
+    const missing = 8 - head.length - tail.length;
+    if (halves.length === 1 ? missing !== 0 : missing < 1) {
+        return undefined;
+    }
+
+    const groups = [...head, ...new Array<number>(halves.length === 2 ? missing : 0).fill(0), ...tail];
+    return new Uint8Array(groups.flatMap(group => [group >> 8, group & 0xff]));
+}
+
+/**
+ * Parse colon-separated IPv6 groups into 16-bit values
+ * An IPv4 address is allowed as the last part when `allowIPv4` is set.
+ */
+function parseIPv6Groups(part: string, allowIPv4: boolean): number[] | undefined {
+    if (part === '') {
+        return [];
+    }
+
+    const pieces = part.split(':');
+    const groups: number[] = [];
+
+    for (let i = 0; i < pieces.length; i++) {
+        const piece = pieces[i];
+
+        if (allowIPv4 && i === pieces.length - 1 && piece.includes('.')) {
+            const ipv4 = parseIPv4(piece);
+            if (!ipv4) {
+                return undefined;
+            }
+            groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+            continue;
+        }
+
+        if (!/^[0-9a-fA-F]{1,4}$/.test(piece)) {
+            return undefined;
+        }
+        groups.push(parseInt(piece, 16));
+    }
+
+    return groups;
+}
+
+/**
+ * Read a header as a single string
+ */
+function getHeader(headers: ClientRequestInfo['headers'], name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value.join(',') : value;
+}
+
+/**
+ * Forwarded-for chain, client first
+ * Entries are undefined where a hop is unknown or unparseable.
+ */
+function getForwardedChain(headers: ClientRequestInfo['headers']): Array<string | undefined> {
+    const forwarded = getHeader(headers, 'forwarded');
+    if (forwarded) {
+        return parseForwarded(forwarded).map(element => normalizeNode(element.for));
+    }
+
+    const xForwardedFor = getHeader(headers, 'x-forwarded-for');
+    if (xForwardedFor) {
+        return xForwardedFor.split(',').map(node => normalizeNode(node));
+    }
+
+    return [];
+}
+
+/**
+ * Parse an RFC 7239 Forwarded header into its elements
+ */
+function parseForwarded(header: string): Array<Record<string, string>> {
+    const elements: Array<Record<string, string>> = [];
+
+    for (const element of splitOutsideQuotes(header, ',')) {
+        const pairs: Record<string, string> = {};
+
+        for (const pair of splitOutsideQuotes(element, ';')) {
+            const separator = pair.indexOf('=');
+            if (separator <= 0) {
+                continue;
+            }
+
+            const name = pair.slice(0, separator).trim().toLowerCase();
+            let value = pair.slice(separator + 1).trim();
+
+            if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+                value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+            }
+
+            pairs[name] = value;
+        }
+
+        elements.push(pairs);
+    }
+
+    return elements;
+}
+
+/**
+ * Split a header value on a delimiter, ignoring delimiters inside quoted strings
+ */
+function splitOutsideQuotes(value: string, delimiter: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < value.length; i++) {
+        const char = value[i];
+
+        if (quoted && char === '\\') {
+            current += char + (value[++i] ?? '');
+            continue;
+        }
+
+        if (char === '"') {
+            quoted = !quoted;
+        } else if (char === delimiter && !quoted) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+
+        current += char;
+    }
+
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(part => part.length > 0);
+}
+
+/**
+ * Normalize a forwarded node or peer address
+ * Strips ports, brackets and IPv4-mapped prefixes. RFC 7239 obfuscated
+ * identifiers (`_token`) are kept; `unknown` and garbage become undefined.
+ */
+function normalizeNode(node: string | undefined): string | undefined {
+    let value = node?.trim();
+    if (!value || value.toLowerCase() === 'unknown') {
+        return undefined;
+    }
+
+    if (value.startsWith('_')) {
+        return /^_[A-Za-z0-9._-]+$/.test(value) ? value : undefined;
+    }
+
+    if (value.startsWith('[')) {
+        // [IPv6] or [IPv6]:port
+        value = value.slice(1, value.indexOf(']') === -1 ? undefined : value.indexOf(']'));
+    } else if (/^[\d.]+:\d+$/.test(value)) {
+        // IPv4:port
+        value = value.slice(0, value.indexOf(':'));
+    }
+
+    value = value.toLowerCase();
+    if (value.startsWith('::ffff:') && parseIPv4(value.slice(7))) {
+        value = value.slice(7);
+    }
+
+    return parseAddress(value) ? value : undefined;
+}
+
+/**
+ * Create a client identifier resolver
+ */
+export function createClientIdentifierResolver(config?: ClientIdentifierConfig): ClientIdentifierResolver {
+    return new ClientIdentifierResolver(config);
+}
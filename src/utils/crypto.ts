@@ -1,37 +1,57 @@
 /**
  * Cryptographic utilities for CaptchaLM
+ * Built on Web Crypto (`globalThis.crypto`), so they run outside Node too.
  */
 
-import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { bytesToHex, hexToBytes, utf8ToBytes } from './bytes';
 
 /**
  * Generate a cryptographically secure random ID
  */
 export function generateId(length: number = 32): string {
-    return randomBytes(length).toString('hex');
+    return bytesToHex(crypto.getRandomValues(new Uint8Array(length)));
 }
 
 /**
  * Create an HMAC signature for a challenge
  */
-export function signChallenge(data: string, secret: string): string {
-    return createHmac('sha256', secret)
-        .update(data)
-        .digest('hex');
+export async function signChallenge(data: string, secret: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        utf8ToBytes(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+
+    return bytesToHex(new Uint8Array(await crypto.subtle.sign('HMAC', key, utf8ToBytes(data))));
 }
 
 /**
  * Verify an HMAC signature
  */
-export function verifySignature(data: string, signature: string, secret: string): boolean {
-    const expected = signChallenge(data, secret);
-
+export async function verifySignature(data: string, signature: string, secret: string): Promise<boolean> {
     // Use timing-safe comparison to prevent timing attacks
+    return safeCompare(signature, await signChallenge(data, secret));
+}
+
+/**
+ * Create an Ed25519 signature for a challenge
+ * `privateKey` is a PKCS#8 DER private key.
+ */
+export async function signEd25519(data: string, privateKey: Uint8Array): Promise<string> {
+    const key = await crypto.subtle.importKey('pkcs8', privateKey, { name: 'Ed25519' }, false, ['sign']);
+    return bytesToHex(new Uint8Array(await crypto.subtle.sign('Ed25519', key, utf8ToBytes(data))));
+}
+
+/**
+ * Verify an Ed25519 signature
+ * `publicKey` is the raw 32-byte public key.
+ */
+export async function verifyEd25519(data: string, signature: string, publicKey: Uint8Array): Promise<boolean> {
     try {
-        return timingSafeEqual(
-            Buffer.from(signature, 'hex'),
-            Buffer.from(expected, 'hex')
-        );
+        const key = await crypto.subtle.importKey('raw', publicKey, { name: 'Ed25519' }, false, ['verify']);
+        return await crypto.subtle.verify('Ed25519', key, hexToBytes(signature), utf8ToBytes(data));
     } catch {
         return false;
     }
@@ -40,17 +60,15 @@ export function verifySignature(data: string, signature: string, secret: string)
 /**
  * Hash a string using SHA-256
  */
-export function sha256(data: string): string {
-    return createHmac('sha256', '')
-        .update(data)
-        .digest('hex');
+export async function sha256(data: string): Promise<string> {
+    return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', utf8ToBytes(data))));
 }
 
 /**
  * Generate a simple hash for encoding purposes (first N characters of SHA-256)
  */
-export function shortHash(data: string, length: number = 8): string {
-    return sha256(data).substring(0, length);
+export async function shortHash(data: string, length: number = 8): Promise<string> {
+    return (await sha256(data)).substring(0, length);
 }
 
 /**
@@ -61,11 +79,12 @@ export function safeCompare(a: string, b: string): boolean {
         return false;
     }
 
-    try {
-        return timingSafeEqual(Buffer.from(a), Buffer.from(b));
-    } catch {
-        return false;
+    let difference = 0;
+    for (let i = 0; i < a.length; i++) {
+        difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
     }
+
+    return difference === 0;
 }
 
 /**
@@ -78,7 +97,7 @@ export function randomInt(min: number, max: number): number {
 
     let randomValue: number;
     do {
-        const bytes = randomBytes(bytesNeeded);
+        const bytes = crypto.getRandomValues(new Uint8Array(bytesNeeded));
         randomValue = bytes.reduce((acc, byte, i) => acc + byte * (256 ** i), 0);
     } while (randomValue > maxValid);
 
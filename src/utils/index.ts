@@ -4,3 +4,6 @@
 
 export * from './crypto';
 export * from './rate-limiter';
+export * from './keyring';
+export * from './canonical';
+export * from './client-identifier';
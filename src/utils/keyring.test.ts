@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Keyring, signingKeysFromJwks } from './keyring';
+
+const now = 1_700_000_000_000;
+const oldKey = { kid: 'k1', algorithm: 'hmac-sha256' as const, secret: 'old-secret', notAfter: now + 10000 };
+const newKey = { kid: 'k2', algorithm: 'hmac-sha256' as const, secret: 'new-secret' };
+
+describe('Keyring', () => {
+    it('signs with the first unretired key', () => {
+        expect(new Keyring([newKey, oldKey]).getActiveKey(now).kid).toBe('k2');
+        expect(new Keyring([oldKey, newKey]).getActiveKey(now).kid).toBe('k1');
+        expect(new Keyring([oldKey, newKey]).getActiveKey(now + 10001).kid).toBe('k2');
+    });
+
+    it('finds a key by kid until its notAfter', () => {
+        const keyring = new Keyring([newKey, oldKey]);
+
+        expect(keyring.findKey('k1', now)).toMatchObject({ kid: 'k1', secret: 'old-secret' });
+        expect(keyring.findKey('k1', now + 10000)).toMatchObject({ kid: 'k1' });
+        expect(keyring.findKey('k1', now + 10001)).toBeUndefined();
+        expect(keyring.findKey('k2', now + 10001)).toMatchObject({ kid: 'k2' });
+    });
+
+    it('finds no key for an unknown kid, or a missing kid without a legacy secret', () => {
+        const keyring = new Keyring([newKey]);
+
+        expect(keyring.findKey('k3', now)).toBeUndefined();
+        expect(keyring.findKey(undefined, now)).toBeUndefined();
+        expect(new Keyring([newKey], 'legacy').findKey(undefined, now)).toEqual({ algorithm: 'hmac-sha256', secret: 'legacy' });
+    });
+
+    it('falls back to the legacy secret once every key is retired', () => {
+        expect(new Keyring([oldKey], 'legacy').getActiveKey(now + 10001)).toEqual({ algorithm: 'hmac-sha256', secret: 'legacy' });
+        expect(() => new Keyring([oldKey]).getActiveKey(now + 10001)).toThrow('No unretired signing key');
+    });
+
+    it('rejects duplicate key IDs', () => {
+        expect(() => new Keyring([newKey, { ...newKey, secret: 'other' }])).toThrow('Duplicate signing key ID: k2');
+    });
+});
+
+describe('signingKeysFromJwks', () => {
+    const x = '11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo';
+
+    it('builds a verify-only key from a JWK', () => {
+        const [key] = signingKeysFromJwks({ keys: [{ kty: 'OKP', crv: 'Ed25519', x, kid: 'ed-1', alg: 'EdDSA', use: 'sig' }] });
+
+        expect(key).toMatchObject({ kid: 'ed-1', algorithm: 'ed25519' });
+        expect(key.publicKey).toMatch(/^-----BEGIN PUBLIC KEY-----/);
+    });
+
+    it.each([`${x}=`, x.replace('_', '/'), `${x.slice(0, 20)} ${x.slice(20)}`])('rejects a non-canonical key %s', (badX) => {
+        expect(() => signingKeysFromJwks({ keys: [{ kty: 'OKP', crv: 'Ed25519', x: badX, kid: 'ed-1', alg: 'EdDSA', use: 'sig' }] }))
+            .toThrow(SyntaxError);
+    });
+});
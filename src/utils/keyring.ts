@@ -0,0 +1,248 @@
+/**
+ * Signing keyring for CaptchaLM
+ */
+
+import type { CaptchaLMConfig, SigningKey, PublicJwk } from '../core/types';
+import { signChallenge, safeCompare, signEd25519, verifyEd25519 } from './crypto';
+import { base64ToBytes, base64UrlToBytes, bytesToBase64, bytesToBase64Url, bytesToHex, hexToBytes } from './bytes';
+
+/**
+ * DER header of an Ed25519 SubjectPublicKeyInfo; the 32-byte key follows
+ */
+const ED25519_SPKI_PREFIX = '302a300506032b6570032100';
+
+/**
+ * DER-encoded Ed25519 algorithm identifier (OID 1.3.101.112)
+ */
+const ED25519_ALGORITHM = '300506032b6570';
+
+/**
+ * Key resolved for signing or verification
+ * `kid` is undefined for the legacy single `secret`
+ */
+export type ResolvedKey =
+    | { kid?: string; algorithm: 'hmac-sha256'; secret: string }
+    | { kid: string; algorithm: 'ed25519'; publicKey: Uint8Array; privateKey?: Uint8Array };
+
+interface KeyringEntry {
+    key: ResolvedKey;
+    notAfter?: number;
+}
+
+/**
+ * Keyring supporting rotation by key ID
+ *
+ * New challenges are signed with the first key that hasn't passed its
+ * `notAfter`; challenges are verified with whichever key their `kid` names,
+ * as long as it hasn't been retired. To rotate, put the new key first and
+ * give the old one a `notAfter` at least one expiration window away.
+ */
+export class Keyring {
+    private entries: KeyringEntry[];
+    private legacySecret: string | undefined;
+
+    constructor(keys: SigningKey[] = [], legacySecret?: string) {
+        const seen = new Set<string>();
+        for (const key of keys) {
+            if (seen.has(key.kid)) {
+                throw new Error(`Duplicate signing key ID: ${key.kid}`);
+            }
+            seen.add(key.kid);
+        }
+
+        if (keys.length === 0 && !legacySecret) {
+            throw new Error('CaptchaLM requires a secret or at least one signing key');
+        }
+
+        this.entries = keys.map(key => ({ key: resolveKey(key), notAfter: key.notAfter }));
+        this.legacySecret = legacySecret;
+    }
+
+    /**
+     * Get the key used to sign new challenges
+     */
+    getActiveKey(now: number = Date.now()): ResolvedKey {
+        const active = this.entries.find(entry => !isRetired(entry, now) && canSign(entry.key));
+
+        if (active) {
+            return active.key;
+        }
+
+        if (this.legacySecret) {
+            return { algorithm: 'hmac-sha256', secret: this.legacySecret };
+        }
+
+        throw new Error('No unretired signing key with private material');
+    }
+
+    /**
+     * Find the key a challenge was signed with
+     * Returns undefined if the key is unknown or retired
+     */
+    findKey(kid: string | undefined, now: number = Date.now()): ResolvedKey | undefined {
+        if (kid === undefined) {
+            return this.legacySecret ? { algorithm: 'hmac-sha256', secret: this.legacySecret } : undefined;
+        }
+
+        const entry = this.entries.find(e => e.key.kid === kid);
+
+        if (!entry || isRetired(entry, now)) {
+            return undefined;
+        }
+
+        return entry.key;
+    }
+
+    /**
+     * Unretired Ed25519 public keys in JWK format
+     */
+    getPublicJwks(now: number = Date.now()): { keys: PublicJwk[] } {
+        const keys: PublicJwk[] = [];
+
+        for (const entry of this.entries) {
+            if (entry.key.algorithm !== 'ed25519' || isRetired(entry, now)) {
+                continue;
+            }
+
+            keys.push({
+                kty: 'OKP',
+                crv: 'Ed25519',
+                x: bytesToBase64Url(entry.key.publicKey),
+                kid: entry.key.kid,
+                alg: 'EdDSA',
+                use: 'sig',
+                ...(entry.notAfter !== undefined ? { exp: Math.floor(entry.notAfter / 1000) } : {}),
+            });
+        }
+
+        return { keys };
+    }
+}
+
+/**
+ * Sign data with a resolved key
+ */
+export async function signWithKey(key: ResolvedKey, data: string): Promise<string> {
+    if (key.algorithm === 'hmac-sha256') {
+        return signChallenge(data, key.secret);
+    }
+
+    if (!key.privateKey) {
+        throw new Error(`Signing key ${key.kid} has no private key`);
+    }
+
+    return signEd25519(data, key.privateKey);
+}
+
+/**
+ * Verify a signature with a resolved key
+ */
+export async function verifyWithKey(key: ResolvedKey, data: string, signature: string): Promise<boolean> {
+    if (key.algorithm === 'hmac-sha256') {
+        return safeCompare(signature, await signChallenge(data, key.secret));
+    }
+
+    return verifyEd25519(data, signature, key.publicKey);
+}
+
+/**
+ * Answer field covered by a challenge signature
+ * HMAC signatures cover the answer itself. Ed25519 signatures can be
+ * checked by anyone holding the public key, which would let them test
+ * candidate answers offline, so they cover an HMAC of the answer keyed by
+ * the private key instead; only signing instances can recompute it.
+ */
+export async function signedAnswer(
+    key: ResolvedKey,
+    challengeId: string,
+    answer: string
+): Promise<{ expectedAnswer: string } | { answerCommitment: string }> {
+    if (key.algorithm === 'hmac-sha256') {
+        return { expectedAnswer: answer };
+    }
+
+    if (!key.privateKey) {
+        throw new Error(`Signing key ${key.kid} has no private key`);
+    }
+
+    return {
+        answerCommitment: await signChallenge(`captchalm-answer:${challengeId}:${answer}`, bytesToHex(key.privateKey)),
+    };
+}
+
+/**
+ * Convert published JWKs into verify-only signing keys
+ */
+export function signingKeysFromJwks(jwks: { keys: PublicJwk[] }): SigningKey[] {
+    return jwks.keys.map(jwk => ({
+        kid: jwk.kid,
+        algorithm: 'ed25519' as const,
+        publicKey: encodePem(
+            new Uint8Array([...hexToBytes(ED25519_SPKI_PREFIX), ...base64UrlToBytes(jwk.x)]),
+            'PUBLIC KEY'
+        ),
+        notAfter: jwk.exp !== undefined ? jwk.exp * 1000 : undefined,
+    }));
+}
+
+/**
+ * Decode the DER body of a PEM block with the given label
+ */
+function decodePem(pem: string, label: string): Uint8Array | undefined {
+    const match = pem.match(new RegExp(`-----BEGIN ${label}-----([\\s\\S]*?)-----END ${label}-----`));
+    return match ? base64ToBytes(match[1]) : undefined;
+}
+
+/**
+ * Encode DER as a PEM block with the given label
+ */
+function encodePem(der: Uint8Array, label: string): string {
+    const lines = bytesToBase64(der).match(/.{1,64}/g) ?? [];
+    return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
+
+/**
+ * Load key material for a keyring entry
+ * Ed25519 keys are PEM SPKI public and PKCS#8 private keys.
+ */
+function resolveKey(key: SigningKey): ResolvedKey {
+    if (key.algorithm === 'ed25519') {
+        const publicKey = decodePem(key.publicKey, 'PUBLIC KEY');
+        const privateKey = key.privateKey ? decodePem(key.privateKey, 'PRIVATE KEY') : undefined;
+
+        const isEd25519PublicKey = publicKey !== undefined
+            && publicKey.length === 44
+            && bytesToHex(publicKey).startsWith(ED25519_SPKI_PREFIX);
+        const isEd25519PrivateKey = key.privateKey === undefined
+            || (privateKey !== undefined && bytesToHex(privateKey).includes(ED25519_ALGORITHM));
+
+        if (!isEd25519PublicKey || !isEd25519PrivateKey) {
+            throw new Error(`Signing key ${key.kid} is not an Ed25519 key`);
+        }
+
+        return { kid: key.kid, algorithm: 'ed25519', publicKey: publicKey.slice(12), privateKey };
+    }
+
+    return { kid: key.kid, algorithm: 'hmac-sha256', secret: key.secret };
+}
+
+/**
+ * Check whether a key can sign new challenges
+ */
+function canSign(key: ResolvedKey): boolean {
+    return key.algorithm === 'hmac-sha256' || key.privateKey !== undefined;
+}
+
+/**
+ * Check whether a key has passed its retirement time
+ */
+function isRetired(entry: KeyringEntry, now: number): boolean {
+    return entry.notAfter !== undefined && now > entry.notAfter;
+}
+
+/**
+ * Create a keyring from CaptchaLM configuration
+ */
+export function createKeyring(config: Pick<CaptchaLMConfig, 'secret' | 'keys'>): Keyring {
+    return new Keyring(config.keys, config.secret);
+}
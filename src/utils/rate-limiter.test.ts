@@ -0,0 +1,172 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from './rate-limiter';
+import { MemoryRateLimitStore } from '../storage/memory';
+import { SqliteRateLimitStore } from '../storage/sqlite';
+import { openTestSqliteDatabase, removeTestSqliteDatabases } from '../test-utils/sqlite';
+import type { RateLimitAlgorithm, RateLimitStoreAdapter } from '../core/types';
+
+/**
+ * Start of a window, so window-aligned algorithms start at its beginning
+ */
+const START = 1_700_000_000_000;
+
+const stores: [string, () => Promise<RateLimitStoreAdapter>][] = [
+    ['memory', async () => new MemoryRateLimitStore()],
+    ['SQLite', async () => new SqliteRateLimitStore((await openTestSqliteDatabase()).db)],
+];
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+afterAll(() => {
+    removeTestSqliteDatabases();
+});
+
+/**
+ * Move the clock to `ms` after the start
+ */
+function at(ms: number): void {
+    vi.setSystemTime(START + ms);
+}
+
+describe.each(stores)('RateLimiter with the %s store', (_, createStore) => {
+    /**
+     * Limiter allowing 3 attempts per second
+     */
+    async function limiter(algorithm: RateLimitAlgorithm): Promise<RateLimiter> {
+        return new RateLimiter({ maxAttempts: 3, windowMs: 1000, algorithm, store: await createStore() });
+    }
+
+    /**
+     * Record `count` attempts at the current time, returning whether each was allowed
+     */
+    async function attempts(rateLimiter: RateLimiter, count: number): Promise<boolean[]> {
+        const allowed: boolean[] = [];
+        for (let i = 0; i < count; i++) {
+            allowed.push((await rateLimiter.recordAttempt('client')).allowed);
+        }
+        return allowed;
+    }
+
+    describe('fixed', () => {
+        it('refuses attempts over the limit through the last millisecond of the window', async () => {
+            const rateLimiter = await limiter('fixed');
+
+            expect(await attempts(rateLimiter, 3)).toEqual([true, true, true]);
+            expect(await rateLimiter.recordAttempt('client')).toEqual({ allowed: false, remaining: 0, resetAt: START + 1000 });
+
+            at(1000);
+            expect(await rateLimiter.isRateLimited('client')).toBe(true);
+
+            at(1001);
+            expect(await rateLimiter.getRemainingAttempts('client')).toBe(3);
+            expect(await rateLimiter.recordAttempt('client')).toEqual({ allowed: true, remaining: 2, resetAt: START + 2001 });
+        });
+    });
+
+    describe('sliding-log', () => {
+        it('frees a slot exactly when the oldest attempt leaves the window', async () => {
+            const rateLimiter = await limiter('sliding-log');
+
+            for (const ms of [0, 100, 200]) {
+                at(ms);
+                expect((await rateLimiter.recordAttempt('client')).allowed).toBe(true);
+            }
+
+            at(999);
+            expect(await rateLimiter.recordAttempt('client')).toEqual({ allowed: false, remaining: 0, resetAt: START + 1000 });
+
+            at(1000);
+            expect(await rateLimiter.getRemainingAttempts('client')).toBe(1);
+            expect(await rateLimiter.recordAttempt('client')).toEqual({ allowed: true, remaining: 0, resetAt: START + 1100 });
+            expect((await rateLimiter.recordAttempt('client')).allowed).toBe(false);
+
+            at(1100);
+            expect((await rateLimiter.recordAttempt('client')).allowed).toBe(true);
+        });
+
+        it('does not log refused attempts', async () => {
+            const rateLimiter = await limiter('sliding-log');
+
+            expect(await attempts(rateLimiter, 10)).toEqual([true, true, true, false, false, false, false, false, false, false]);
+
+            at(1000);
+            expect(await attempts(rateLimiter, 4)).toEqual([true, true, true, false]);
+        });
+    });
+
+    describe('sliding-window-counter', () => {
+        it('counts the previous window in full at the boundary', async () => {
+            const rateLimiter = await limiter('sliding-window-counter');
+            expect(await attempts(rateLimiter, 3)).toEqual([true, true, true]);
+
+            at(1000);
+            expect(await rateLimiter.getRemainingAttempts('client')).toBe(0);
+            expect((await rateLimiter.recordAttempt('client')).allowed).toBe(false);
+        });
+
+        it('weights the previous window by how much of it still overlaps', async () => {
+            const rateLimiter = await limiter('sliding-window-counter');
+            expect(await attempts(rateLimiter, 3)).toEqual([true, true, true]);
+
+            // 3 * 0.5 + 1 = 2.5 allowed, then 3 * 0.5 + 2 = 3.5 refused
+            at(1500);
+            expect(await rateLimiter.recordAttempt('client')).toEqual({ allowed: true, remaining: 0, resetAt: START + 2000 });
+            expect(await rateLimiter.recordAttempt('client')).toEqual({ allowed: false, remaining: 0, resetAt: START + 2000 });
+
+            // The previous window now counts 2 * 1 + 1 = 3
+            at(2000);
+            expect((await rateLimiter.recordAttempt('client')).allowed).toBe(true);
+        });
+
+        it('forgets windows older than the previous one', async () => {
+            const rateLimiter = await limiter('sliding-window-counter');
+            expect(await attempts(rateLimiter, 5)).toEqual([true, true, true, false, false]);
+
+            at(1999);
+            expect(await rateLimiter.getRemainingAttempts('client')).toBe(2);
+
+            at(2000);
+            expect(await rateLimiter.getRemainingAttempts('client')).toBe(3);
+            expect(await attempts(rateLimiter, 4)).toEqual([true, true, true, false]);
+        });
+    });
+
+    describe('token-bucket', () => {
+        it('allows a burst of the capacity, then one attempt per refill interval', async () => {
+            const rateLimiter = await limiter('token-bucket');
+
+            expect(await attempts(rateLimiter, 3)).toEqual([true, true, true]);
+            // One token every 1000 / 3 ms
+            expect(await rateLimiter.recordAttempt('client')).toEqual({ allowed: false, remaining: 0, resetAt: START + 334 });
+
+            at(333);
+            expect((await rateLimiter.recordAttempt('client')).allowed).toBe(false);
+
+            at(334);
+            expect((await rateLimiter.recordAttempt('client')).allowed).toBe(true);
+            expect((await rateLimiter.recordAttempt('client')).allowed).toBe(false);
+        });
+
+        it('refills to capacity and no further', async () => {
+            const rateLimiter = await limiter('token-bucket');
+            expect(await attempts(rateLimiter, 3)).toEqual([true, true, true]);
+
+            at(999);
+            expect(await rateLimiter.getRemainingAttempts('client')).toBe(2);
+
+            at(1000);
+            expect(await rateLimiter.getRemainingAttempts('client')).toBe(3);
+
+            at(60000);
+            expect(await rateLimiter.getRemainingAttempts('client')).toBe(3);
+            expect(await attempts(rateLimiter, 4)).toEqual([true, true, true, false]);
+        });
+    });
+});
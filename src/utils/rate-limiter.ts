@@ -2,165 +2,236 @@
  * Rate limiter for CaptchaLM
  */
 
-import type { RateLimitConfig } from '../core/types';
+import type { RateLimitConfig, RateLimitStoreAdapter, RateLimitAlgorithm } from '../core/types';
+import { MemoryRateLimitStore } from '../storage/memory';
 
-interface RateLimitEntry {
-    count: number;
+/**
+ * Result of recording an attempt
+ */
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
     resetAt: number;
 }
 
 /**
- * In-memory rate limiter
+ * Rate limiter backed by a pluggable store
+ *
+ * All algorithms share one API; see `RateLimitAlgorithm` for the trade-offs.
  */
 export class RateLimiter {
-    private entries: Map<string, RateLimitEntry> = new Map();
-    private config: Required<RateLimitConfig>;
-    private cleanupInterval: NodeJS.Timeout | null = null;
+    private store: RateLimitStoreAdapter;
+    private ownsStore: boolean;
+    private config: Required<Omit<RateLimitConfig, 'store'>>;
 
     constructor(config: RateLimitConfig) {
         this.config = {
             maxAttempts: config.maxAttempts,
             windowMs: config.windowMs,
+            algorithm: config.algorithm ?? 'fixed',
         };
 
-        // Start cleanup interval to prevent memory leaks
-        this.startCleanup();
+        // Expiry is handled by the store itself (TTL), so there is no
+        // cleanup timer here
+        this.ownsStore = !config.store;
+        this.store = config.store ?? new MemoryRateLimitStore();
+
+        assertStoreSupports(this.store, this.config.algorithm);
     }
 
     /**
-     * Check if a key is rate limited
+     * Check if a key is rate limited (its next attempt would be refused)
      */
-    isRateLimited(key: string): boolean {
-        const entry = this.entries.get(key);
-
-        if (!entry) {
-            return false;
-        }
-
-        // Check if window has expired
-        if (Date.now() > entry.resetAt) {
-            this.entries.delete(key);
-            return false;
-        }
-
-        return entry.count >= this.config.maxAttempts;
+    async isRateLimited(key: string): Promise<boolean> {
+        return (await this.getRemainingAttempts(key)) === 0;
     }
 
     /**
      * Record an attempt for a key
      */
-    recordAttempt(key: string): { allowed: boolean; remaining: number; resetAt: number } {
+    async recordAttempt(key: string): Promise<RateLimitResult> {
+        const { maxAttempts, windowMs } = this.config;
         const now = Date.now();
-        let entry = this.entries.get(key);
-
-        // Create new entry or reset expired entry
-        if (!entry || now > entry.resetAt) {
-            entry = {
-                count: 0,
-                resetAt: now + this.config.windowMs,
-            };
-            this.entries.set(key, entry);
-        }
 
-        // Check if already rate limited
-        if (entry.count >= this.config.maxAttempts) {
-            return {
-                allowed: false,
-                remaining: 0,
-                resetAt: entry.resetAt,
-            };
-        }
+        switch (this.config.algorithm) {
+            case 'sliding-log': {
+                const log = await this.store.logAttempt!(key, now, windowMs, maxAttempts);
 
-        // Record the attempt
-        entry.count++;
+                return {
+                    allowed: log.logged,
+                    remaining: Math.max(0, maxAttempts - log.count),
+                    // When the oldest logged attempt leaves the window
+                    resetAt: (log.oldest ?? now) + windowMs,
+                };
+            }
 
-        return {
-            allowed: true,
-            remaining: this.config.maxAttempts - entry.count,
-            resetAt: entry.resetAt,
-        };
+            case 'sliding-window-counter': {
+                const windowStart = Math.floor(now / windowMs) * windowMs;
+                const [current, previous] = await Promise.all([
+                    this.store.increment(windowKey(key, windowStart), windowMs * 2),
+                    this.store.get(windowKey(key, windowStart - windowMs)),
+                ]);
+                const previousCount = previous?.count ?? 0;
+                const estimate = slidingEstimate(previousCount, current.count, now - windowStart, windowMs);
+                const allowed = estimate <= maxAttempts;
+
+                return {
+                    allowed,
+                    remaining: Math.max(0, Math.floor(maxAttempts - estimate)),
+                    resetAt: allowed
+                        ? windowStart + windowMs
+                        : slidingRetryAt(previousCount, current.count, windowStart, windowMs, maxAttempts),
+                };
+            }
+
+            case 'token-bucket': {
+                const refillMs = windowMs / maxAttempts;
+                const bucket = await this.store.takeToken!(key, now, maxAttempts, refillMs);
+
+                return {
+                    allowed: bucket.taken,
+                    remaining: Math.floor(bucket.tokens),
+                    // Next whole token when refused, otherwise a full bucket
+                    resetAt: Math.ceil(now + ((bucket.taken ? maxAttempts : 1) - bucket.tokens) * refillMs),
+                };
+            }
+
+            default: {
+                const entry = await this.store.increment(key, windowMs);
+
+                return {
+                    allowed: entry.count <= maxAttempts,
+                    remaining: Math.max(0, maxAttempts - entry.count),
+                    resetAt: entry.resetAt,
+                };
+            }
+        }
     }
 
     /**
      * Get remaining attempts for a key
      */
-    getRemainingAttempts(key: string): number {
-        const entry = this.entries.get(key);
+    async getRemainingAttempts(key: string): Promise<number> {
+        const { maxAttempts, windowMs } = this.config;
+        const now = Date.now();
 
-        if (!entry || Date.now() > entry.resetAt) {
-            return this.config.maxAttempts;
-        }
+        switch (this.config.algorithm) {
+            case 'sliding-log': {
+                const log = await this.store.getLog!(key, now, windowMs);
+                return Math.max(0, maxAttempts - log.count);
+            }
 
-        return Math.max(0, this.config.maxAttempts - entry.count);
+            case 'sliding-window-counter': {
+                const windowStart = Math.floor(now / windowMs) * windowMs;
+                const [current, previous] = await Promise.all([
+                    this.store.get(windowKey(key, windowStart)),
+                    this.store.get(windowKey(key, windowStart - windowMs)),
+                ]);
+                const estimate = slidingEstimate(previous?.count ?? 0, current?.count ?? 0, now - windowStart, windowMs);
+                return Math.max(0, Math.floor(maxAttempts - estimate));
+            }
+
+            case 'token-bucket': {
+                const bucket = await this.store.getBucket!(key, now, maxAttempts, windowMs / maxAttempts);
+                return Math.floor(bucket.tokens);
+            }
+
+            default: {
+                const entry = await this.store.get(key);
+
+                if (!entry) {
+                    return maxAttempts;
+                }
+
+                return Math.max(0, maxAttempts - entry.count);
+            }
+        }
     }
 
     /**
      * Reset rate limit for a key
      */
-    reset(key: string): void {
-        this.entries.delete(key);
+    async reset(key: string): Promise<void> {
+        if (this.config.algorithm === 'sliding-window-counter') {
+            const windowStart = Math.floor(Date.now() / this.config.windowMs) * this.config.windowMs;
+            await Promise.all([
+                this.store.delete(windowKey(key, windowStart)),
+                this.store.delete(windowKey(key, windowStart - this.config.windowMs)),
+            ]);
+            return;
+        }
+
+        await this.store.delete(key);
     }
 
     /**
      * Clear all rate limit entries
      */
-    clear(): void {
-        this.entries.clear();
+    async clear(): Promise<void> {
+        await this.store.clear();
     }
 
     /**
-     * Start periodic cleanup of expired entries
+     * Release resources; a store passed in via config is left untouched
      */
-    private startCleanup(): void {
-        // Cleanup every minute
-        this.cleanupInterval = setInterval(() => {
-            this.cleanup();
-        }, 60000);
-
-        // Allow the process to exit even with the interval running
-        if (this.cleanupInterval.unref) {
-            this.cleanupInterval.unref();
+    destroy(): void {
+        if (this.ownsStore) {
+            void this.store.clear();
         }
     }
 
     /**
-     * Stop the cleanup interval
+     * Get current stats
      */
-    destroy(): void {
-        if (this.cleanupInterval) {
-            clearInterval(this.cleanupInterval);
-            this.cleanupInterval = null;
-        }
-        this.clear();
+    async getStats(): Promise<{ activeKeys: number; totalAttempts: number }> {
+        return this.store.stats();
     }
+}
 
-    /**
-     * Remove expired entries
-     */
-    private cleanup(): void {
-        const now = Date.now();
+/**
+ * Store key for one sliding-window-counter window
+ */
+function windowKey(key: string, windowStart: number): string {
+    return `${key}@${windowStart}`;
+}
 
-        for (const [key, entry] of this.entries) {
-            if (now > entry.resetAt) {
-                this.entries.delete(key);
-            }
-        }
+/**
+ * Sliding window estimate: the previous window's count weighted by its
+ * remaining overlap, plus the current window's count
+ */
+function slidingEstimate(previous: number, current: number, elapsedMs: number, windowMs: number): number {
+    return previous * (1 - elapsedMs / windowMs) + current;
+}
+
+/**
+ * Earliest time the sliding window estimate allows another attempt
+ */
+function slidingRetryAt(
+    previous: number,
+    current: number,
+    windowStart: number,
+    windowMs: number,
+    maxAttempts: number
+): number {
+    // Still inside this window, once enough of the previous window has slid out
+    if (current + 1 <= maxAttempts && previous > 0) {
+        return Math.ceil(windowStart + windowMs * (1 - (maxAttempts - current - 1) / previous));
     }
 
-    /**
-     * Get current stats
-     */
-    getStats(): { activeKeys: number; totalAttempts: number } {
-        let totalAttempts = 0;
+    // Otherwise in the next window, once enough of this one has slid out
+    return Math.ceil(windowStart + windowMs + windowMs * Math.max(0, 1 - (maxAttempts - 1) / current));
+}
 
-        for (const entry of this.entries.values()) {
-            totalAttempts += entry.count;
-        }
+/**
+ * Check that a store implements the methods an algorithm needs
+ */
+function assertStoreSupports(store: RateLimitStoreAdapter, algorithm: RateLimitAlgorithm): void {
+    const supported =
+        (algorithm !== 'sliding-log' || (store.logAttempt && store.getLog)) &&
+        (algorithm !== 'token-bucket' || (store.takeToken && store.getBucket));
 
-        return {
-            activeKeys: this.entries.size,
-            totalAttempts,
-        };
+    if (!supported) {
+        throw new Error(`Rate limit store does not support the ${algorithm} algorithm`);
     }
 }
 
@@ -171,5 +242,7 @@ export function createRateLimiter(config?: Partial<RateLimitConfig>): RateLimite
     return new RateLimiter({
         maxAttempts: config?.maxAttempts ?? 10,
         windowMs: config?.windowMs ?? 60000, // 1 minute default
+        algorithm: config?.algorithm,
+        store: config?.store,
     });
 }
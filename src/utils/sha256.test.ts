@@ -0,0 +1,19 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { sha256 } from './sha256';
+import { bytesToHex, utf8ToBytes } from './bytes';
+
+describe('sha256', () => {
+    it('matches the published test vectors', () => {
+        expect(bytesToHex(sha256(utf8ToBytes('')))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+        expect(bytesToHex(sha256(utf8ToBytes('abc')))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('matches Node crypto across block boundaries', () => {
+        for (let length = 0; length <= 200; length++) {
+            const input = 'é'.repeat(length % 7) + 'x'.repeat(length);
+            const expected = createHash('sha256').update(input).digest('hex');
+            expect(bytesToHex(sha256(utf8ToBytes(input)))).toBe(expected);
+        }
+    });
+});
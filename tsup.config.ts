@@ -4,6 +4,8 @@ export default defineConfig({
     entry: {
         'index': 'src/index.ts',
         'client/index': 'src/client/index.ts',
+        'fetch/index': 'src/server/fetch.ts',
+        'storage/index': 'src/storage/index.ts',
         'core/types': 'src/core/types.ts',
     },
     format: ['cjs', 'esm'],
@@ -13,5 +15,5 @@ export default defineConfig({
     clean: true,
     treeshake: true,
     minify: false,
-    external: ['express', 'fastify'],
+    external: ['express', 'fastify', 'koa', 'hono'],
 });